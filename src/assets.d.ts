@@ -0,0 +1,6 @@
+// Importaciones `?inline` de Vite: el contenido del fichero como string.
+// Se declara aquí para no depender de los tipos de vite/client en tsconfig.
+declare module '*?inline' {
+  const content: string;
+  export default content;
+}
@@ -0,0 +1,740 @@
+/**
+ * ankiInterop.ts
+ *
+ * Importación y exportación entre el banco de preguntas y Anki:
+ *  - Paquetes .apkg (zip con la colección SQLite `collection.anki2/.anki21`
+ *    y los ficheros de `media`), leídos y escritos con sql.js.
+ *  - Texto delimitado CSV/TSV (el "Notas en texto plano" de Anki o nuestro
+ *    formato con cabecera tipo/pregunta/respuesta/…).
+ *
+ * Correspondencia de tipos:
+ *   TEST        ↔ tipo de nota "StudyApp · Test" (Pregunta, Opciones, Correctas, Explicación);
+ *                 al importar también se reconoce AllInOne (Q_1…Q_n + Answers "1 0 0 1")
+ *   COMPLETAR   ↔ Cloze: {{c1::respuesta}} ↔ ClozeBlank
+ *   DESARROLLO  ↔ Básico (anverso/reverso); PRACTICO se exporta también como básico
+ *
+ * Las etiquetas y las imágenes se conservan; el estado SM-2 (intervalo,
+ * facilidad, próxima revisión) se traduce en ambos sentidos cuando existe.
+ * Las importaciones pasan por una vista previa que marca duplicados con
+ * `computeContentHash` y quedan en el historial de imports (deshacer).
+ */
+
+import JSZip from 'jszip';
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import { v4 as uuidv4 } from 'uuid';
+import { db, getSettings, saveSettings } from './db';
+import { revisionRepo } from './repos';
+import { buildImageMap, extractImageFilenames, importImages } from './questionImageStorage';
+import { DEFAULT_CLOZE_PROMPT } from '@/domain/clozeMatch';
+import { computeContentHash } from '@/domain/hashing';
+import { normalizeText, slugify } from '@/domain/normalize';
+import type { ClozeBlank, ImportHistoryEntry, Question, QuestionStats, QuestionType, Topic } from '@/domain/models';
+
+const DAY_MS = 86_400_000;
+
+// ─── sql.js ───────────────────────────────────────────────────────────────────
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSql(): Promise<SqlJsStatic> {
+  // El .wasm se sirve igual que el worker de pdf.js (ver PdfViewer)
+  sqlPromise ??= initSqlJs({
+    locateFile: () => new URL('sql.js/dist/sql-wasm-browser.wasm', import.meta.url).href,
+  });
+  return sqlPromise;
+}
+
+function rows<T>(database: Database, sql: string): T[] {
+  const [res] = database.exec(sql);
+  if (!res) return [];
+  return res.values.map((values) => Object.fromEntries(res.columns.map((c, i) => [c, values[i]])) as T);
+}
+
+// ─── Tipos ────────────────────────────────────────────────────────────────────
+
+/** Pregunta leída de Anki/CSV, aún sin asignatura ni tema. */
+export type InteropQuestion = Omit<Question, 'id' | 'subjectId' | 'topicId' | 'contentHash' | 'createdAt' | 'updatedAt'>;
+
+export interface InteropParseResult {
+  /** "mazo.apkg", "notas.csv"… (para el historial de imports). */
+  sourceName: string;
+  format: 'apkg' | 'csv';
+  questions: InteropQuestion[];
+  /** filename (uuid.ext) → base64 de las imágenes referenciadas. */
+  images: Record<string, string>;
+  mimes: Record<string, string>;
+  /** Notas o líneas que no se pudieron convertir. */
+  warnings: string[];
+}
+
+// ─── HTML ↔ markdown ──────────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+/** Campo HTML de Anki → markdown. `imageName` traduce el nombre del media al de question-images/. */
+export function ankiHtmlToMd(html: string, imageName: (src: string) => string | undefined = () => undefined): string {
+  const md = html
+    .replace(/<img[^>]*\ssrc\s*=\s*["']?([^"'>\s]+)["']?[^>]*>/gi, (_m, src: string) => {
+      const name = imageName(decodeEntities(src));
+      return name ? `![](question-images/${name})` : '';
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/?(b|strong)>/gi, '**')
+    .replace(/<\/?(i|em)>/gi, '*')
+    .replace(/<sub>(.*?)<\/sub>/gi, '_$1')
+    .replace(/<sup>(.*?)<\/sup>/gi, '^$1')
+    .replace(/<[^>]+>/g, '');
+  return decodeEntities(md)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+}
+
+/** Markdown → HTML sencillo que Anki muestra tal cual (fórmulas con MathJax \( \) / \[ \]). */
+export function mdToAnkiHtml(md: string): string {
+  return escapeHtml(md)
+    .replace(/!\[[^\]]*\]\((?:\.?\/)?question-images\/([^)\s]+)\)/g, (_m, f: string) => `<img src="${f}">`)
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_m, math: string) => `\\[${math}\\]`)
+    .replace(/\$([^$\n]+?)\$/g, (_m, math: string) => `\\(${math}\\)`)
+    .replace(/\*\*([^*]+)\*\*/g, '<b>$1</b>')
+    .replace(/\n/g, '<br>');
+}
+
+// ─── Cloze ────────────────────────────────────────────────────────────────────
+
+const ANKI_CLOZE = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export function hasAnkiCloze(text: string): boolean {
+  return /\{\{c\d+::/.test(text);
+}
+
+/**
+ * `{{c1::mitocondria::orgánulo}}` → `{{c1}}` + blank { id: 'c1', accepted: ['mitocondria'] }.
+ * Varias apariciones del mismo número son huecos distintos (c1, c1_2…).
+ */
+export function ankiClozeToBlanks(text: string): { clozeText: string; blanks: ClozeBlank[] } {
+  const blanks: ClozeBlank[] = [];
+  const seen = new Map<string, number>();
+  const clozeText = text.replace(ANKI_CLOZE, (_m, n: string, answer: string) => {
+    const k = (seen.get(n) ?? 0) + 1;
+    seen.set(n, k);
+    const id = k === 1 ? `c${n}` : `c${n}_${k}`;
+    blanks.push({ id, accepted: [answer.trim()] });
+    return `{{${id}}}`;
+  });
+  return { clozeText, blanks };
+}
+
+/** Inverso de `ankiClozeToBlanks`: los huecos `cN`/`cN_k` conservan su número. */
+export function blanksToAnkiCloze(clozeText: string, blanks: ClozeBlank[]): string {
+  return clozeText.replace(/\{\{([^}]+)\}\}/g, (m, id: string) => {
+    const idx = blanks.findIndex((b) => b.id === id);
+    if (idx === -1) return m;
+    const n = /^c(\d+)(?:_\d+)?$/.exec(id)?.[1] ?? String(idx + 1);
+    // Anki solo muestra una respuesta: la primera que no sea una expresión regular
+    const answer = blanks[idx].accepted.find((a) => !/^\/.+\/[a-z]*$/.test(a)) ?? id;
+    return `{{c${n}::${answer}}}`;
+  });
+}
+
+// ─── Construcción de preguntas ────────────────────────────────────────────────
+
+const letterIndex = (token: string): number => {
+  const t = token.trim().toLowerCase();
+  if (/^\d+$/.test(t)) return parseInt(t, 10) - 1;
+  if (/^[a-z]$/.test(t)) return t.charCodeAt(0) - 97;
+  return -1;
+};
+
+function emptyStats(): QuestionStats {
+  return { seen: 0, correct: 0, wrong: 0 };
+}
+
+function base(type: QuestionType, prompt: string, tags: string[]): InteropQuestion {
+  return {
+    type,
+    prompt,
+    tags: tags.length > 0 ? tags : undefined,
+    stats: emptyStats(),
+  };
+}
+
+function testQuestion(prompt: string, optionTexts: string[], correctIdx: number[], tags: string[], explanation?: string): InteropQuestion | null {
+  const options = optionTexts.map((text) => ({ id: uuidv4(), text }));
+  const correctOptionIds = correctIdx.filter((i) => i >= 0 && i < options.length).map((i) => options[i].id);
+  if (options.length < 2 || correctOptionIds.length === 0) return null;
+  return { ...base('TEST', prompt, tags), options, correctOptionIds, explanation: explanation || undefined };
+}
+
+function clozeQuestion(text: string, tags: string[], prompt?: string, explanation?: string): InteropQuestion | null {
+  const { clozeText, blanks } = ankiClozeToBlanks(text);
+  if (blanks.length === 0) return null;
+  return { ...base('COMPLETAR', prompt || DEFAULT_CLOZE_PROMPT, tags), clozeText, blanks, explanation: explanation || undefined };
+}
+
+/** Opciones de un campo "A) uno<br>B) dos" o una lista, sin la letra inicial. */
+function splitOptions(md: string): string[] {
+  return md
+    .split(/\n|\s\|\s/)
+    .map((line) => line.replace(/^\s*(?:-|[a-z]\)|[a-z]\.|\d+[).])\s*/i, '').trim())
+    .filter(Boolean);
+}
+
+// ─── Anki (.apkg) → preguntas ─────────────────────────────────────────────────
+
+interface AnkiModel {
+  id: number | string;
+  name: string;
+  type: number; // 0 estándar, 1 cloze
+  flds: { name: string; ord: number }[];
+}
+
+interface AnkiNoteRow { id: number; mid: number; tags: string; flds: string }
+interface AnkiCardRow { nid: number; ord: number; type: number; due: number; ivl: number; factor: number; reps: number; lapses: number; last: number | null }
+
+/** Estado de repaso de la primera tarjeta de la nota → QuestionStats SM-2. */
+function statsFromCard(card: AnkiCardRow | undefined, crt: number): QuestionStats {
+  if (!card || card.reps === 0) return emptyStats();
+  const stats: QuestionStats = {
+    seen: card.reps,
+    correct: Math.max(0, card.reps - card.lapses),
+    wrong: card.lapses,
+    lastSeenAt: card.last ? new Date(card.last).toISOString() : undefined,
+  };
+  // type 2 = repaso; 3 = reaprendizaje (se trata como pendiente hoy)
+  if ((card.type === 2 || card.type === 3) && card.ivl > 0) {
+    stats.interval = card.ivl;
+    stats.easeFactor = card.factor > 0 ? card.factor / 1000 : undefined;
+    stats.repetitions = Math.max(1, card.reps - card.lapses);
+    const dueMs = card.type === 2 ? crt * 1000 + card.due * DAY_MS : Date.now();
+    stats.nextReviewAt = new Date(dueMs).toISOString().split('T')[0];
+  }
+  return stats;
+}
+
+function fieldIndex(model: AnkiModel, ...names: string[]): number {
+  const wanted = names.map((n) => normalizeText(n));
+  const f = model.flds.find((x) => wanted.includes(normalizeText(x.name)));
+  return f ? f.ord : -1;
+}
+
+function noteToQuestion(model: AnkiModel, fields: string[], tags: string[]): InteropQuestion | null {
+  const at = (i: number) => (i >= 0 ? fields[i] ?? '' : '');
+
+  if (model.type === 1) {
+    const extra = fieldIndex(model, 'Extra', 'Back Extra', 'Reverso extra');
+    return clozeQuestion(fields[0] ?? '', tags, undefined, at(extra));
+  }
+
+  // Nuestro tipo de test exportado (o uno con campos equivalentes)
+  const optionsIdx = fieldIndex(model, 'Opciones', 'Options', 'Choices');
+  const correctIdx = fieldIndex(model, 'Correctas', 'Correct', 'Answer', 'Answers', 'Respuesta');
+  if (optionsIdx >= 0 && correctIdx >= 0) {
+    const prompt = at(fieldIndex(model, 'Pregunta', 'Question', 'Front')) || fields[0];
+    const correct = at(correctIdx).split(/[,\s]+/).filter(Boolean).map(letterIndex);
+    return testQuestion(prompt, splitOptions(at(optionsIdx)), correct, tags, at(fieldIndex(model, 'Explicación', 'Explanation', 'Extra')));
+  }
+
+  // AllInOne (kprim/mc/sc): Q_1…Q_n y Answers "1 0 0 1"
+  const q1 = fieldIndex(model, 'Q_1');
+  if (q1 >= 0) {
+    const optionTexts: string[] = [];
+    for (let n = 1; n <= 10; n++) {
+      const i = fieldIndex(model, `Q_${n}`);
+      if (i < 0 || !at(i)) break;
+      optionTexts.push(at(i));
+    }
+    const bits = at(fieldIndex(model, 'Answers')).trim().split(/\s+/);
+    const correct = bits.flatMap((b, i) => (b === '1' ? [i] : []));
+    return testQuestion(at(fieldIndex(model, 'Question')), optionTexts, correct, tags, at(fieldIndex(model, 'Extra', 'Sources')));
+  }
+
+  // Básico: anverso → enunciado, reverso → respuesta modelo
+  const front = fields[0] ?? '';
+  const back = fields[1] ?? '';
+  if (hasAnkiCloze(front)) return clozeQuestion(front, tags, undefined, back);
+  if (!front || !back) return null;
+  return { ...base('DESARROLLO', front, tags), modelAnswer: back };
+}
+
+export async function parseAnkiPackage(file: File): Promise<InteropParseResult> {
+  const zip = await JSZip.loadAsync(file);
+  const collection = zip.file('collection.anki21') ?? zip.file('collection.anki2');
+  if (!collection || (zip.file('collection.anki21b') && !zip.file('collection.anki21'))) {
+    throw new Error(
+      'Este .apkg usa el formato nuevo de Anki. Expórtalo marcando «Compatible con versiones antiguas de Anki».'
+    );
+  }
+
+  const SQL = await loadSql();
+  const database = new SQL.Database(new Uint8Array(await collection.async('uint8array')));
+  try {
+    const [col] = rows<{ crt: number; models: string }>(database, 'SELECT crt, models FROM col');
+    const models = JSON.parse(col.models) as Record<string, AnkiModel>;
+    const notes = rows<AnkiNoteRow>(database, 'SELECT id, mid, tags, flds FROM notes ORDER BY id');
+    const cards = rows<AnkiCardRow>(
+      database,
+      `SELECT c.nid, c.ord, c.type, c.due, c.ivl, c.factor, c.reps, c.lapses,
+              (SELECT MAX(r.id) FROM revlog r WHERE r.cid = c.id) AS last
+       FROM cards c ORDER BY c.nid, c.ord`
+    );
+    const firstCard = new Map<number, AnkiCardRow>();
+    for (const c of cards) if (!firstCard.has(c.nid)) firstCard.set(c.nid, c);
+
+    // media: { "0": "foto.png" } → ficheros "0", "1"… dentro del zip
+    const mediaFile = zip.file('media');
+    const media = mediaFile ? (JSON.parse(await mediaFile.async('string')) as Record<string, string>) : {};
+    const zipNameOf = new Map(Object.entries(media).map(([k, name]) => [name, k]));
+    const renamed = new Map<string, string>();
+    const imageName = (src: string) => {
+      if (!zipNameOf.has(src)) return undefined;
+      if (!renamed.has(src)) {
+        const ext = (src.split('.').pop() ?? 'png').toLowerCase();
+        renamed.set(src, `${uuidv4()}.${ext}`);
+      }
+      return renamed.get(src);
+    };
+
+    const questions: InteropQuestion[] = [];
+    const warnings: string[] = [];
+    for (const note of notes) {
+      const model = models[String(note.mid)];
+      if (!model) {
+        warnings.push(`Nota ${note.id}: tipo de nota desconocido`);
+        continue;
+      }
+      const fields = note.flds.split('\x1f').map((f) => ankiHtmlToMd(f, imageName));
+      const tags = note.tags.trim().split(/\s+/).filter(Boolean);
+      const q = noteToQuestion(model, fields, tags);
+      if (!q) {
+        warnings.push(`Nota ${note.id} (${model.name}): no se pudo convertir`);
+        continue;
+      }
+      q.stats = statsFromCard(firstCard.get(note.id), col.crt);
+      questions.push(q);
+    }
+
+    const images: Record<string, string> = {};
+    const mimes: Record<string, string> = {};
+    for (const [src, filename] of renamed) {
+      const entry = zip.file(zipNameOf.get(src)!);
+      if (!entry) continue;
+      images[filename] = await entry.async('base64');
+      const ext = filename.split('.').pop()!;
+      mimes[filename] = ext === 'svg' ? 'image/svg+xml' : ext === 'jpg' ? 'image/jpeg' : `image/${ext}`;
+    }
+
+    return { sourceName: file.name, format: 'apkg', questions, images, mimes, warnings };
+  } finally {
+    database.close();
+  }
+}
+
+// ─── CSV / TSV → preguntas ────────────────────────────────────────────────────
+
+/** Parser CSV con comillas (RFC 4180) para un separador dado. */
+export function parseDelimitedRows(text: string, sep: string): string[][] {
+  const out: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      out.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); out.push(row); }
+  return out.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+const SEPARATORS: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ' };
+
+const COLUMN_ALIASES: Record<string, string[]> = {
+  type: ['tipo', 'type'],
+  prompt: ['pregunta', 'question', 'front', 'anverso', 'enunciado'],
+  answer: ['respuesta', 'answer', 'back', 'reverso'],
+  options: ['opciones', 'options'],
+  correct: ['correctas', 'correct'],
+  explanation: ['explicacion', 'explanation', 'extra'],
+  tags: ['etiquetas', 'tags'],
+};
+
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  test: 'TEST', mc: 'TEST',
+  desarrollo: 'DESARROLLO', basic: 'DESARROLLO', basico: 'DESARROLLO',
+  completar: 'COMPLETAR', cloze: 'COMPLETAR',
+  practico: 'PRACTICO',
+};
+
+/**
+ * Lee CSV/TSV. Respeta las cabeceras `#separator:`, `#html:` y `#tags column:`
+ * del export de Anki; con una fila de cabecera reconocible (tipo, pregunta…)
+ * usa columnas por nombre y si no, anverso/reverso/etiquetas por posición.
+ */
+export function parseDelimited(text: string, sourceName: string): InteropParseResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let sep: string | undefined;
+  let html = false;
+  let tagsColumn: number | undefined;
+  let skip = 0;
+  for (const line of lines) {
+    const m = /^#([a-z ]+):(.*)$/i.exec(line);
+    if (!m) break;
+    skip++;
+    const key = m[1].trim().toLowerCase();
+    const value = m[2].trim();
+    if (key === 'separator') sep = SEPARATORS[value.toLowerCase()] ?? value;
+    else if (key === 'html') html = value === 'true';
+    else if (key === 'tags column') tagsColumn = parseInt(value, 10) - 1;
+  }
+  const body = lines.slice(skip).join('\n');
+  const firstLine = lines[skip] ?? '';
+  sep ??= firstLine.includes('\t') ? '\t' : firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const table = parseDelimitedRows(body, sep);
+  const convert = (s: string) => (html ? ankiHtmlToMd(s) : s.trim());
+
+  // ¿Fila de cabecera?
+  const header = (table[0] ?? []).map((h) => normalizeText(h));
+  const col: Partial<Record<keyof typeof COLUMN_ALIASES, number>> = {};
+  for (const [key, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const idx = header.findIndex((h) => aliases.includes(h));
+    if (idx >= 0) col[key as keyof typeof COLUMN_ALIASES] = idx;
+  }
+  const hasHeader = col.prompt != null;
+  const data = hasHeader ? table.slice(1) : table;
+
+  const questions: InteropQuestion[] = [];
+  const warnings: string[] = [];
+  data.forEach((row, i) => {
+    const lineNo = i + skip + (hasHeader ? 2 : 1);
+    const get = (idx: number | undefined) => (idx != null ? convert(row[idx] ?? '') : '');
+    let q: InteropQuestion | null;
+
+    if (hasHeader) {
+      const tags = get(col.tags).split(/[\s,]+/).filter(Boolean);
+      const prompt = get(col.prompt);
+      const answer = get(col.answer);
+      const explanation = get(col.explanation);
+      const typeKey = normalizeText(get(col.type));
+      const type = TYPE_ALIASES[typeKey] ?? (hasAnkiCloze(prompt) || hasAnkiCloze(answer) ? 'COMPLETAR' : get(col.options) ? 'TEST' : 'DESARROLLO');
+      if (type === 'TEST') {
+        const correct = get(col.correct).split(/[,\s]+/).filter(Boolean).map(letterIndex);
+        q = testQuestion(prompt, splitOptions(get(col.options)), correct, tags, explanation);
+      } else if (type === 'COMPLETAR') {
+        q = hasAnkiCloze(answer)
+          ? clozeQuestion(answer, tags, prompt, explanation)
+          : clozeQuestion(prompt, tags, undefined, explanation);
+      } else {
+        q = prompt && answer ? { ...base(type, prompt, tags), modelAnswer: answer, explanation: explanation || undefined } : null;
+      }
+    } else {
+      const front = get(0);
+      const back = get(1);
+      const tags = (tagsColumn != null ? get(tagsColumn) : get(2)).split(/\s+/).filter(Boolean);
+      q = hasAnkiCloze(front)
+        ? clozeQuestion(front, tags, undefined, back)
+        : front && back ? { ...base('DESARROLLO', front, tags), modelAnswer: back } : null;
+    }
+
+    if (q) questions.push(q);
+    else warnings.push(`Línea ${lineNo}: no se pudo convertir`);
+  });
+
+  return { sourceName, format: 'csv', questions, images: {}, mimes: {}, warnings };
+}
+
+// ─── Vista previa + importación ───────────────────────────────────────────────
+
+export interface InteropPreviewRow {
+  question: InteropQuestion;
+  contentHash: string;
+  /** Ya existe en el tema (mismo contentHash) o se repite dentro del fichero. */
+  duplicate: boolean;
+}
+
+export interface InteropPreview {
+  parsed: InteropParseResult;
+  topic: Topic;
+  rows: InteropPreviewRow[];
+  newCount: number;
+  duplicateCount: number;
+}
+
+export async function previewInterop(parsed: InteropParseResult, topic: Topic): Promise<InteropPreview> {
+  const existing = new Set(
+    (await db.questions.where('subjectId').equals(topic.subjectId).toArray()).map((q) => q.contentHash).filter(Boolean)
+  );
+  const rows: InteropPreviewRow[] = [];
+  for (const question of parsed.questions) {
+    const contentHash = await computeContentHash(question, slugify(topic.title));
+    rows.push({ question, contentHash, duplicate: existing.has(contentHash) });
+    existing.add(contentHash);
+  }
+  const newCount = rows.filter((r) => !r.duplicate).length;
+  return { parsed, topic, rows, newCount, duplicateCount: rows.length - newCount };
+}
+
+export interface InteropImportResult {
+  packId: string;
+  imported: number;
+}
+
+/**
+ * Añade las preguntas nuevas de la vista previa al tema. Se registran en el
+ * historial de imports como un pack (`anki-…`/`csv-…`) para poder deshacerlas,
+ * y cada pregunta empieza su historial de revisiones con ese origen.
+ */
+export async function commitInterop(preview: InteropPreview, keepReviewState: boolean): Promise<InteropImportResult> {
+  const { parsed, topic } = preview;
+  const packId = `${parsed.format === 'apkg' ? 'anki' : 'csv'}-${uuidv4()}`;
+  const fresh = preview.rows.filter((r) => !r.duplicate);
+
+  const used = new Set(fresh.flatMap((r) => extractImageFilenames([r.question.prompt, r.question.modelAnswer ?? '', r.question.explanation ?? '', r.question.clozeText ?? '', ...(r.question.options ?? []).map((o) => o.text)].join('\n'))));
+  const images = Object.fromEntries(Object.entries(parsed.images).filter(([f]) => used.has(f)));
+  if (Object.keys(images).length > 0) await importImages(images, parsed.mimes);
+
+  const now = new Date().toISOString();
+  const questions: Question[] = fresh.map(({ question, contentHash }) => ({
+    ...question,
+    stats: keepReviewState ? question.stats : emptyStats(),
+    id: uuidv4(),
+    subjectId: topic.subjectId,
+    topicId: topic.id,
+    contentHash,
+    sourcePackId: packId,
+    createdAt: now,
+    updatedAt: now,
+  }));
+  await db.questions.bulkAdd(questions);
+  for (const q of questions) {
+    await revisionRepo.record(q, { kind: 'pack', packId, createdBy: parsed.sourceName }, now);
+  }
+
+  const subject = await db.subjects.get(topic.subjectId);
+  const settings = await getSettings();
+  const entry: ImportHistoryEntry = {
+    packId,
+    createdBy: parsed.sourceName,
+    importedAt: now,
+    questionCount: questions.length,
+    subjectNames: subject ? [subject.name] : [],
+  };
+  await saveSettings({
+    importedPackIds: [...settings.importedPackIds, packId],
+    importHistory: [...(settings.importHistory ?? []), entry],
+  });
+  return { packId, imported: questions.length };
+}
+
+// ─── Exportación CSV / TSV ────────────────────────────────────────────────────
+
+const letter = (i: number) => String.fromCharCode(97 + i);
+
+function quoteField(value: string, sep: string): string {
+  return value.includes(sep) || value.includes('"') || value.includes('\n') ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Formato con cabecera que `parseDelimited` vuelve a leer sin pérdidas de tipo. */
+export function exportDelimited(questions: Question[], sep: ',' | '\t'): string {
+  const header = ['tipo', 'pregunta', 'respuesta', 'opciones', 'correctas', 'explicacion', 'etiquetas'];
+  const lines = [header.join(sep)];
+  for (const q of questions) {
+    const options = q.options ?? [];
+    const correct = options.flatMap((o, i) => ((q.correctOptionIds ?? []).includes(o.id) ? [letter(i)] : []));
+    const answer =
+      q.type === 'COMPLETAR' ? blanksToAnkiCloze(q.clozeText ?? '', q.blanks ?? [])
+      : q.type === 'PRACTICO' ? [q.numericAnswer, q.modelAnswer].filter(Boolean).join('\n\n')
+      : q.modelAnswer ?? '';
+    const fields = [
+      q.type.toLowerCase(),
+      q.prompt,
+      answer,
+      options.map((o) => o.text).join(' | '),
+      correct.join(','),
+      q.explanation ?? '',
+      (q.tags ?? []).join(' '),
+    ];
+    lines.push(fields.map((f) => quoteField(f, sep)).join(sep));
+  }
+  return lines.join('\n');
+}
+
+// ─── Exportación .apkg ────────────────────────────────────────────────────────
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const MODEL_CSS = '.card { font-family: arial; font-size: 20px; text-align: left; color: black; background-color: white; }';
+
+function ankiModel(id: number, name: string, type: 0 | 1, fields: string[], qfmt: string, afmt: string, deckId: number, mod: number) {
+  return {
+    id, name, type, mod, usn: -1, sortf: 0, did: deckId,
+    tmpls: [{ name: type === 1 ? 'Cloze' : 'Tarjeta 1', ord: 0, qfmt, afmt, did: null, bqfmt: '', bafmt: '' }],
+    flds: fields.map((f, ord) => ({ name: f, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: MODEL_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    req: [[0, 'any', [0]]],
+    tags: [], vers: [],
+  };
+}
+
+function ankiDeck(id: number, name: string, mod: number) {
+  return {
+    id, name, mod, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, extendNew: 10, extendRev: 50,
+    newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  };
+}
+
+const DECK_CONF = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  },
+};
+
+async function fieldChecksum(text: string): Promise<number> {
+  const plain = text.replace(/<[^>]+>/g, '');
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(plain));
+  const hex = [...new Uint8Array(digest).slice(0, 4)].map((b) => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex, 16);
+}
+
+/** Campos de Anki para una pregunta: [id de modelo, campos HTML]. */
+function noteFields(q: Question, ids: { basic: number; cloze: number; test: number }): [number, string[]] {
+  const explanation = mdToAnkiHtml(q.explanation ?? '');
+  if (q.type === 'TEST') {
+    const options = q.options ?? [];
+    const correct = options.flatMap((o, i) => ((q.correctOptionIds ?? []).includes(o.id) ? [letter(i).toUpperCase()] : []));
+    const optionsHtml = options.map((o, i) => `${letter(i).toUpperCase()}) ${mdToAnkiHtml(o.text)}`).join('<br>');
+    return [ids.test, [mdToAnkiHtml(q.prompt), optionsHtml, correct.join(', '), explanation]];
+  }
+  if (q.type === 'COMPLETAR' && q.clozeText) {
+    const text = mdToAnkiHtml(blanksToAnkiCloze(q.clozeText, q.blanks ?? []));
+    const extra = [q.prompt !== DEFAULT_CLOZE_PROMPT ? mdToAnkiHtml(q.prompt) : '', explanation].filter(Boolean).join('<br><br>');
+    return [ids.cloze, [text, extra]];
+  }
+  const answer = [q.numericAnswer ? `<b>${escapeHtml(q.numericAnswer)}</b>` : '', mdToAnkiHtml(q.modelAnswer ?? '')].filter(Boolean).join('<br><br>');
+  return [ids.basic, [mdToAnkiHtml(q.prompt), answer, explanation]];
+}
+
+/** Genera un .apkg (formato compatible con Anki 2.1) con un mazo llamado `deckName`. */
+export async function exportAnkiPackage(questions: Question[], deckName: string): Promise<Blob> {
+  const SQL = await loadSql();
+  const database = new SQL.Database();
+  try {
+    database.run(ANKI_SCHEMA);
+
+    const nowMs = Date.now();
+    const mod = Math.floor(nowMs / 1000);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const crt = Math.floor(today.getTime() / 1000);
+    const deckId = nowMs;
+    const ids = { basic: nowMs + 1, cloze: nowMs + 2, test: nowMs + 3 };
+
+    const models = {
+      [ids.basic]: ankiModel(ids.basic, 'StudyApp · Básico', 0, ['Pregunta', 'Respuesta', 'Explicación'],
+        '{{Pregunta}}', '{{FrontSide}}<hr id=answer>{{Respuesta}}<br><br>{{Explicación}}', deckId, mod),
+      [ids.cloze]: ankiModel(ids.cloze, 'StudyApp · Completar', 1, ['Texto', 'Extra'],
+        '{{cloze:Texto}}', '{{cloze:Texto}}<br><br>{{Extra}}', deckId, mod),
+      [ids.test]: ankiModel(ids.test, 'StudyApp · Test', 0, ['Pregunta', 'Opciones', 'Correctas', 'Explicación'],
+        '{{Pregunta}}<br><br>{{Opciones}}', '{{FrontSide}}<hr id=answer><b>{{Correctas}}</b><br><br>{{Explicación}}', deckId, mod),
+    };
+    const decks = { 1: ankiDeck(1, 'Default', mod), [deckId]: ankiDeck(deckId, deckName, mod) };
+    const conf = { nextPos: questions.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: String(ids.basic), collapseTime: 1200 };
+    database.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      crt, mod, nowMs, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(DECK_CONF), '{}',
+    ]);
+
+    const noteStmt = database.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const cardStmt = database.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')');
+    let position = 0;
+    for (const [i, q] of questions.entries()) {
+      const [mid, fields] = noteFields(q, ids);
+      const noteId = nowMs + 100 + i;
+      const tags = (q.tags ?? []).map((t) => t.replace(/\s+/g, '_')).join(' ');
+      noteStmt.run([noteId, q.id.replace(/-/g, '').slice(0, 10), mid, mod, tags ? ` ${tags} ` : '', fields.join('\x1f'), fields[0].replace(/<[^>]+>/g, ''), await fieldChecksum(fields[0])]);
+
+      // Una tarjeta por nota; las cloze generan una por cada número distinto
+      const ords = mid === ids.cloze
+        ? [...new Set([...fields[0].matchAll(/\{\{c(\d+)::/g)].map((m) => parseInt(m[1], 10) - 1))].sort((a, b) => a - b)
+        : [0];
+      const s = q.stats;
+      const review = s.interval != null && s.interval > 0 && s.nextReviewAt;
+      for (const ord of ords) {
+        const cardId = nowMs + 100 + questions.length + position;
+        position++;
+        if (review) {
+          const due = Math.max(0, Math.round((Date.parse(s.nextReviewAt!) - crt * 1000) / DAY_MS));
+          cardStmt.run([cardId, noteId, deckId, ord, mod, 2, 2, due, s.interval!, Math.round((s.easeFactor ?? 2.5) * 1000), s.seen, s.wrong]);
+        } else {
+          cardStmt.run([cardId, noteId, deckId, ord, mod, 0, 0, position, 0, 0, 0, 0]);
+        }
+      }
+    }
+    noteStmt.free();
+    cardStmt.free();
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', database.export());
+
+    // Imágenes: question-images/uuid.ext → ficheros "0", "1"… + mapa `media`
+    const texts = questions.flatMap((q) => [q.prompt, q.modelAnswer ?? '', q.explanation ?? '', q.clozeText ?? '', ...(q.options ?? []).map((o) => o.text)]);
+    const imageMap = await buildImageMap(texts);
+    const media: Record<string, string> = {};
+    Object.entries(imageMap).forEach(([filename, b64], i) => {
+      media[String(i)] = filename;
+      zip.file(String(i), b64, { base64: true });
+    });
+    zip.file('media', JSON.stringify(media));
+
+    return zip.generateAsync({ type: 'blob' });
+  } finally {
+    database.close();
+  }
+}
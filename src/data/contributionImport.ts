@@ -2,10 +2,23 @@ import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import { db } from './db';
 import { getSettings, saveSettings } from './db';
+import { questionRepo, revisionRepo } from './repos';
 import { slugify } from '@/domain/normalize';
 import { computeContentHash } from '@/domain/hashing';
+import { findBestMatches } from '@/domain/similarity';
 import { buildImageMap, importImages, extractImageFilenames } from './questionImageStorage';
-import type { ContributionPack, Subject, Topic, Question,ImportHistoryEntry } from '@/domain/models';
+import { lintContributionPack, loadPackLintContext, type PackLintIssue } from './packLint';
+import { verifyContributionPack, type PackVerification } from './packSigning';
+import type {
+  ContributionPack,
+  ContributionQuestion,
+  Subject,
+  Topic,
+  Question,
+  ImportHistoryEntry,
+  ImportReviewDecision,
+  ImportReviewRecord,
+} from '@/domain/models';
 
 // ─── Zod schemas ──────────────────────────────────────────────────────────────
 
@@ -21,8 +34,18 @@ const ContributionQuestionSchema = z.object({
   modelAnswer: z.string().optional(),
   keywords: z.array(z.string()).optional(),
   numericAnswer: z.string().optional(),
+  numericAbsTolerance: z.number().nonnegative().optional(),
+  numericRelTolerance: z.number().nonnegative().optional(),
   clozeText: z.string().optional(),
-  blanks: z.array(z.object({ id: z.string(), accepted: z.array(z.string()) })).optional(),
+  blanks: z
+    .array(
+      z.object({
+        id: z.string(),
+        accepted: z.array(z.string()),
+        maxEdits: z.number().int().nonnegative().optional(),
+      })
+    )
+    .optional(),
   explanation: z.string().optional(),
   difficulty: z.number().min(1).max(5).optional(),
   tags: z.array(z.string()).optional(),
@@ -61,12 +84,51 @@ export interface ContributionImportResult {
   newTopicsCreated: number;
   newSubjectsCreated: number;
   alreadyImported: boolean;
+  /** Preguntas descartadas en la cola de revisión. */
+  rejected: number;
+  /** Preguntas fusionadas con una casi duplicada local en lugar de importarse. */
+  merged: number;
   errors: string[];
 }
 
+// ─── Review queue ──────────────────────────────────────────────────────────────
+
+/** Decisión del mantenedor sobre una pregunta nueva del pack. */
+export interface ContributionReviewItem {
+  decision: ImportReviewDecision;
+  /** Campos editados (decision 'edited'). */
+  edits?: Partial<Omit<ContributionQuestion, 'id' | 'subjectKey' | 'topicKey' | 'topicKeys' | 'contentHash'>>;
+  /** Tema de destino si cambia respecto al del pack. */
+  topic?: { topicKey: string; topicTitle: string };
+  /** Pregunta local con la que se fusiona (decision 'merged'). */
+  mergeInto?: string;
+}
+
+/** Decisiones por id de pregunta del pack. Las preguntas sin entrada se aceptan tal cual. */
+export type ContributionReview = Record<string, ContributionReviewItem>;
+
+/** Pregunta del pack con las ediciones y el cambio de tema aplicados (el hash se recalcula). */
+function applyReview(cq: ContributionQuestion, item?: ContributionReviewItem): ContributionQuestion {
+  if (!item || item.decision === 'accepted') return cq;
+  return {
+    ...cq,
+    ...item.edits,
+    ...(item.topic ? { topicKey: item.topic.topicKey, topicKeys: undefined } : {}),
+    contentHash: undefined,
+  };
+}
+
 // ─── Main merge function ───────────────────────────────────────────────────────
 
-export async function importContributionPack(raw: unknown): Promise<ContributionImportResult> {
+/**
+ * `verification`: firma ya comprobada sobre el fichero original. Hace falta
+ * cuando `raw` es el pack corregido en la vista previa, que ya no la conserva.
+ */
+export async function importContributionPack(
+  raw: unknown,
+  review?: ContributionReview,
+  verification?: PackVerification
+): Promise<ContributionImportResult> {
   const result: ContributionImportResult = {
     packId: '',
     createdBy: '',
@@ -75,8 +137,11 @@ export async function importContributionPack(raw: unknown): Promise<Contribution
     newTopicsCreated: 0,
     newSubjectsCreated: 0,
     alreadyImported: false,
+    rejected: 0,
+    merged: 0,
     errors: [],
   };
+  const reviewRecords: ImportReviewRecord[] = [];
 
   // Validate
   const parsed = ContributionPackSchema.safeParse(raw);
@@ -127,7 +192,44 @@ export async function importContributionPack(raw: unknown): Promise<Contribution
   }
 
   // Process each question
-  for (const cq of pack.questions) {
+  for (const original of pack.questions) {
+    const item = review?.[original.id];
+    if (item?.decision === 'rejected') {
+      result.rejected++;
+      reviewRecords.push({ questionId: original.id, decision: 'rejected' });
+      continue;
+    }
+    const cq = applyReview(original, item);
+
+    if (item?.decision === 'merged' && item.mergeInto) {
+      // Se conserva la pregunta local; del pack solo se suman etiquetas y tema
+      const local = await db.questions.get(item.mergeInto);
+      if (local) {
+        const topic = topicByKey.get(`${cq.subjectKey}::${cq.topicKey}`);
+        const topicIds = local.topicIds?.length ? local.topicIds : [local.topicId];
+        const addTopic = topic && topic.subjectId === local.subjectId && !topicIds.includes(topic.id);
+        const addedTags = [...new Set(cq.tags ?? [])].filter((t) => !(local.tags ?? []).includes(t));
+        const tags = [...(local.tags ?? []), ...addedTags];
+        await questionRepo.update(
+          local.id,
+          {
+            tags: tags.length > 0 ? tags : undefined,
+            topicIds: addTopic ? [...topicIds, topic.id] : local.topicIds,
+          },
+          { kind: 'pack', packId: pack.packId, createdBy: pack.createdBy }
+        );
+        result.merged++;
+        reviewRecords.push({
+          questionId: original.id,
+          decision: 'merged',
+          localId: local.id,
+          addedTags: addedTags.length > 0 ? addedTags : undefined,
+          addedTopicIds: addTopic ? [topic.id] : undefined,
+        });
+        continue;
+      }
+    }
+
     try {
       const subjectKey = cq.subjectKey;
 
@@ -157,7 +259,7 @@ export async function importContributionPack(raw: unknown): Promise<Contribution
       if (!topic) {
         // Find topic info from targets
         const targetInfo = pack.targets.find((t) => t.subjectKey === subjectKey);
-        const topicInfo = targetInfo?.topics.find((t) => t.topicKey === topicKey);
+        const topicInfo = targetInfo?.topics.find((t) => t.topicKey === topicKey) ?? item?.topic;
         const topicTitle = topicInfo?.topicTitle ?? topicKey;
 
         // Get max order for subject
@@ -189,6 +291,7 @@ export async function importContributionPack(raw: unknown): Promise<Contribution
 
       if (isDuplicate) {
         result.duplicates++;
+        if (item) reviewRecords.push({ questionId: original.id, decision: item.decision, topicKey: item.topic?.topicKey });
         continue;
       }
 
@@ -225,6 +328,8 @@ export async function importContributionPack(raw: unknown): Promise<Contribution
         modelAnswer: cq.modelAnswer,
         keywords: cq.keywords,
         numericAnswer: cq.numericAnswer,
+        numericAbsTolerance: cq.numericAbsTolerance,
+        numericRelTolerance: cq.numericRelTolerance,
         clozeText: cq.clozeText,
         blanks: cq.blanks,
         imageDataUrls: cq.imageDataUrls,
@@ -250,7 +355,11 @@ export async function importContributionPack(raw: unknown): Promise<Contribution
       }
 
       await db.questions.add(newQuestion);
+      await revisionRepo.record(newQuestion, { kind: 'pack', packId: pack.packId, createdBy: pack.createdBy }, now);
       result.newQuestions++;
+      if (item) {
+        reviewRecords.push({ questionId: original.id, decision: item.decision, topicKey: item.topic?.topicKey, localId: newQuestion.id });
+      }
     } catch (err) {
       result.errors.push(`Error procesando pregunta ${cq.id}: ${String(err)}`);
     }
@@ -268,7 +377,14 @@ export async function importContributionPack(raw: unknown): Promise<Contribution
     importedAt: now,
     questionCount: result.newQuestions,
     subjectNames: affectedSubjectNames,
+    review: review ? reviewRecords : undefined,
   };
+  const signature = verification ?? (await verifyContributionPack(raw));
+  if (signature.signed) {
+    historyEntry.signatureStatus = signature.status;
+    historyEntry.signerFingerprint = signature.fingerprint;
+    if (signature.modifiedLocally) historyEntry.signatureModifiedLocally = true;
+  }
 
   await saveSettings({
     importedPackIds: [...updatedSettings.importedPackIds, pack.packId],
@@ -337,6 +453,8 @@ export async function exportContributionPack(
       modelAnswer: q.modelAnswer,
       keywords: q.keywords,
       numericAnswer: q.numericAnswer,
+      numericAbsTolerance: q.numericAbsTolerance,
+      numericRelTolerance: q.numericRelTolerance,
       clozeText: q.clozeText,
       blanks: q.blanks,
       imageDataUrls: q.imageDataUrls,
@@ -408,6 +526,8 @@ export async function exportContributionPackByIds(
       modelAnswer: q.modelAnswer,
       keywords: q.keywords,
       numericAnswer: q.numericAnswer,
+      numericAbsTolerance: q.numericAbsTolerance,
+      numericRelTolerance: q.numericRelTolerance,
       clozeText: q.clozeText,
       blanks: q.blanks,
       imageDataUrls: q.imageDataUrls,
@@ -443,6 +563,8 @@ export async function exportContributionPackByIds(
 export interface UndoImportResult {
   packId: string;
   deletedQuestions: number;
+  /** Preguntas locales a las que se quitaron etiquetas o temas fusionados. */
+  revertedMerges: number;
 }
 
 export async function undoContributionImport(packId: string): Promise<UndoImportResult> {
@@ -456,16 +578,39 @@ export async function undoContributionImport(packId: string): Promise<UndoImport
     );
 
   const ids = allQuestions.map(q => q.id);
+  await db.reviewLogs.where('questionId').anyOf(ids).delete();
+  await db.questionRevisions.where('questionId').anyOf(ids).delete();
   await db.questions.bulkDelete(ids);
 
-  // Actualizar settings: quitar del historial y de importedPackIds
+  // Las fusiones con preguntas locales se revierten quitando lo que añadieron
   const settings = await getSettings();
+  const entry = (settings.importHistory ?? []).find(e => e.packId === packId);
+  let revertedMerges = 0;
+  for (const record of entry?.review ?? []) {
+    if (record.decision !== 'merged' || !record.localId) continue;
+    if (!record.addedTags?.length && !record.addedTopicIds?.length) continue;
+    const local = await db.questions.get(record.localId);
+    if (!local) continue;
+    const tags = (local.tags ?? []).filter(t => !record.addedTags?.includes(t));
+    const topicIds = (local.topicIds ?? []).filter(id => !record.addedTopicIds?.includes(id));
+    await questionRepo.update(
+      local.id,
+      {
+        tags: tags.length > 0 ? tags : undefined,
+        topicIds: topicIds.length > 1 ? topicIds : undefined,
+      },
+      { kind: 'undoImport', packId }
+    );
+    revertedMerges++;
+  }
+
+  // Actualizar settings: quitar del historial y de importedPackIds
   await saveSettings({
     importedPackIds: (settings.importedPackIds ?? []).filter(id => id !== packId),
     importHistory: (settings.importHistory ?? []).filter(e => e.packId !== packId),
   });
 
-  return { packId, deletedQuestions: ids.length };
+  return { packId, deletedQuestions: ids.length, revertedMerges };
 }
 
 // ─── Preview ───────────────────────────────────────────────────────────────────
@@ -489,8 +634,19 @@ export interface ContributionPackPreview {
   /** C1: Per-subject/topic breakdown */
   rows: ContributionPackPreviewRow[];
   questionsSample: string[];
-  /** Full Question-shaped objects for all new questions (for interactive preview) */
+  /**
+   * Full Question-shaped objects for all new questions (for interactive preview).
+   * subjectId/topicId hold the pack's subjectKey/topicKey: they are not imported yet.
+   */
   questionsSampleFull: Question[];
+  /** Temas a los que se puede reasignar una pregunta, por subjectKey (los del pack + los locales). */
+  topicChoices: Record<string, { topicKey: string; topicTitle: string }[]>;
+  /** Preguntas nuevas muy parecidas a una local de la misma asignatura, por id del pack. */
+  nearDuplicates: Record<string, { question: Question; score: number }>;
+  /** Problemas de validación (slugs, respuestas, huecos, imágenes, LaTeX). */
+  lint: PackLintIssue[];
+  /** Firma del pack: verificada, desconocida o manipulada. */
+  signature: PackVerification;
   alreadyImported: boolean;
   rawPack: unknown;
 }
@@ -534,8 +690,8 @@ export async function previewContributionPack(raw: unknown): Promise<Contributio
   const now = new Date().toISOString();
   const questionsSampleFull: Question[] = newQuestions.map((cq) => ({
     id: cq.id,
-    subjectId: '',
-    topicId: '',
+    subjectId: cq.subjectKey,
+    topicId: cq.topicKey,
     type: cq.type,
     prompt: cq.prompt,
     explanation: cq.explanation,
@@ -547,6 +703,8 @@ export async function previewContributionPack(raw: unknown): Promise<Contributio
     modelAnswer: cq.modelAnswer,
     keywords: cq.keywords,
     numericAnswer: cq.numericAnswer,
+    numericAbsTolerance: cq.numericAbsTolerance,
+    numericRelTolerance: cq.numericRelTolerance,
     clozeText: cq.clozeText,
     blanks: cq.blanks,
     createdBy: cq.createdBy,
@@ -557,6 +715,26 @@ export async function previewContributionPack(raw: unknown): Promise<Contributio
     updatedAt: now,
   }));
 
+  const topicChoices: ContributionPackPreview['topicChoices'] = {};
+  const nearDuplicates: ContributionPackPreview['nearDuplicates'] = {};
+  const localSubjects = await db.subjects.toArray();
+  for (const target of pack.targets) {
+    const choices = new Map(target.topics.map((t) => [t.topicKey, t.topicTitle]));
+    const local = localSubjects.find((s) => slugify(s.name) === target.subjectKey);
+    if (local) {
+      const localTopics = await db.topics.where('subjectId').equals(local.id).sortBy('order');
+      for (const t of localTopics) if (!choices.has(slugify(t.title))) choices.set(slugify(t.title), t.title);
+
+      // Casi duplicados: el contentHash no detecta opciones reordenadas ni pequeños cambios de redacción
+      const localQuestions = allQuestions.filter((q) => q.subjectId === local.id);
+      const candidates = questionsSampleFull.filter((q) => q.subjectId === target.subjectKey);
+      for (const [id, match] of findBestMatches(candidates, localQuestions)) {
+        nearDuplicates[id] = { question: localQuestions.find((q) => q.id === match.id)!, score: match.score };
+      }
+    }
+    topicChoices[target.subjectKey] = [...choices].map(([topicKey, topicTitle]) => ({ topicKey, topicTitle }));
+  }
+
   return {
     packId: pack.packId,
     createdBy: pack.createdBy,
@@ -570,6 +748,10 @@ export async function previewContributionPack(raw: unknown): Promise<Contributio
       .slice(0, 5)
       .map((q) => q.prompt.replace(/[#*`\n]/g, ' ').trim().slice(0, 80)),
     questionsSampleFull,
+    topicChoices,
+    nearDuplicates,
+    lint: lintContributionPack(pack as ContributionPack, await loadPackLintContext()),
+    signature: await verifyContributionPack(raw),
     alreadyImported,
     rawPack: raw,
   };
@@ -1,4 +1,5 @@
 import Dexie, { type Table } from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
 import type {
   Subject,
   Topic,
@@ -10,7 +11,13 @@ import type {
   QuestionImageRecord,
   Deliverable,
   SubjectGradingConfig,
+  ReviewLog,
+  SavedDeck,
+  ExamBlueprint,
+  SigningKeyRecord,
+  QuestionRevision,
 } from '@/domain/models';
+import { qualityFromResult } from '@/domain/spacedRepetition';
 
 export class StudyDB extends Dexie {
   subjects!: Table<Subject, string>;
@@ -23,6 +30,11 @@ export class StudyDB extends Dexie {
   questionImages!: Table<QuestionImageRecord, string>;
   deliverables!: Table<Deliverable, string>;
   gradingConfigs!: Table<SubjectGradingConfig, string>;
+  reviewLogs!: Table<ReviewLog, string>;
+  decks!: Table<SavedDeck, string>;
+  examBlueprints!: Table<ExamBlueprint, string>;
+  signingKeys!: Table<SigningKeyRecord, string>;
+  questionRevisions!: Table<QuestionRevision, string>;
 
   constructor() {
     super('StudyAppDB');
@@ -101,6 +113,133 @@ export class StudyDB extends Dexie {
             delete (d as { completed?: boolean }).completed;
           });
       });
+
+    // v5: log de repasos (uno por respuesta), reconstruido desde las sesiones existentes
+    this.version(5)
+      .stores({
+        subjects: 'id, name, examDate, createdAt',
+        topics: 'id, subjectId, order, createdAt',
+        questions:
+          'id, subjectId, topicId, type, difficulty, contentHash, createdAt',
+        sessions: 'id, subjectId, mode, createdAt',
+        pdfResources: 'id, subjectId, createdAt',
+        pdfAnchors: 'id, subjectId, pdfId',
+        settings: 'id',
+        questionImages: 'id, filename, createdAt',
+        deliverables: 'id, subjectId, type, dueDate, status, createdAt',
+        gradingConfigs: 'id',
+        reviewLogs: 'id, questionId, subjectId, sessionId, reviewedAt',
+      })
+      .upgrade(async (tx) => {
+        const sessions: PracticeSession[] = await tx.table('sessions').toArray();
+        const logs: ReviewLog[] = [];
+        for (const s of sessions) {
+          for (const a of s.answers) {
+            if (!a.result) continue; // pendiente de corrección manual
+            logs.push({
+              id: uuidv4(),
+              questionId: a.questionId,
+              subjectId: s.subjectId,
+              sessionId: s.id,
+              reviewedAt: a.answeredAt,
+              result: a.result,
+              quality: a.quality ?? qualityFromResult(a.result),
+              backfilled: true,
+            });
+          }
+        }
+        await tx.table('reviewLogs').bulkAdd(logs);
+      });
+
+    // v6: sesiones multi-asignatura indexadas por cada asignatura que incluyen
+    this.version(6).stores({
+      subjects: 'id, name, examDate, createdAt',
+      topics: 'id, subjectId, order, createdAt',
+      questions:
+        'id, subjectId, topicId, type, difficulty, contentHash, createdAt',
+      sessions: 'id, subjectId, *subjectIds, mode, createdAt',
+      pdfResources: 'id, subjectId, createdAt',
+      pdfAnchors: 'id, subjectId, pdfId',
+      settings: 'id',
+      questionImages: 'id, filename, createdAt',
+      deliverables: 'id, subjectId, type, dueDate, status, createdAt',
+      gradingConfigs: 'id',
+      reviewLogs: 'id, questionId, subjectId, sessionId, reviewedAt',
+    });
+
+    // v7: mazos guardados (filtros con nombre que se lanzan como sesión)
+    this.version(7).stores({
+      subjects: 'id, name, examDate, createdAt',
+      topics: 'id, subjectId, order, createdAt',
+      questions:
+        'id, subjectId, topicId, type, difficulty, contentHash, createdAt',
+      sessions: 'id, subjectId, *subjectIds, mode, createdAt',
+      pdfResources: 'id, subjectId, createdAt',
+      pdfAnchors: 'id, subjectId, pdfId',
+      settings: 'id',
+      questionImages: 'id, filename, createdAt',
+      deliverables: 'id, subjectId, type, dueDate, status, createdAt',
+      gradingConfigs: 'id',
+      reviewLogs: 'id, questionId, subjectId, sessionId, reviewedAt',
+      decks: 'id, subjectId, createdAt',
+    });
+
+    // v8: estructuras de examen para simulacros
+    this.version(8).stores({
+      subjects: 'id, name, examDate, createdAt',
+      topics: 'id, subjectId, order, createdAt',
+      questions:
+        'id, subjectId, topicId, type, difficulty, contentHash, createdAt',
+      sessions: 'id, subjectId, *subjectIds, mode, createdAt',
+      pdfResources: 'id, subjectId, createdAt',
+      pdfAnchors: 'id, subjectId, pdfId',
+      settings: 'id',
+      questionImages: 'id, filename, createdAt',
+      deliverables: 'id, subjectId, type, dueDate, status, createdAt',
+      gradingConfigs: 'id',
+      reviewLogs: 'id, questionId, subjectId, sessionId, reviewedAt',
+      decks: 'id, subjectId, createdAt',
+      examBlueprints: 'id, subjectId, createdAt',
+    });
+
+    // v9: par de claves para firmar contribution packs
+    this.version(9).stores({
+      subjects: 'id, name, examDate, createdAt',
+      topics: 'id, subjectId, order, createdAt',
+      questions:
+        'id, subjectId, topicId, type, difficulty, contentHash, createdAt',
+      sessions: 'id, subjectId, *subjectIds, mode, createdAt',
+      pdfResources: 'id, subjectId, createdAt',
+      pdfAnchors: 'id, subjectId, pdfId',
+      settings: 'id',
+      questionImages: 'id, filename, createdAt',
+      deliverables: 'id, subjectId, type, dueDate, status, createdAt',
+      gradingConfigs: 'id',
+      reviewLogs: 'id, questionId, subjectId, sessionId, reviewedAt',
+      decks: 'id, subjectId, createdAt',
+      examBlueprints: 'id, subjectId, createdAt',
+      signingKeys: 'id',
+    });
+
+    // v10: historial de revisiones de preguntas
+    this.version(10).stores({
+      subjects: 'id, name, examDate, createdAt',
+      topics: 'id, subjectId, order, createdAt',
+      questions:
+        'id, subjectId, topicId, type, difficulty, contentHash, createdAt',
+      sessions: 'id, subjectId, *subjectIds, mode, createdAt',
+      pdfResources: 'id, subjectId, createdAt',
+      pdfAnchors: 'id, subjectId, pdfId',
+      settings: 'id',
+      questionImages: 'id, filename, createdAt',
+      deliverables: 'id, subjectId, type, dueDate, status, createdAt',
+      gradingConfigs: 'id',
+      reviewLogs: 'id, questionId, subjectId, sessionId, reviewedAt',
+      decks: 'id, subjectId, createdAt',
+      examBlueprints: 'id, subjectId, createdAt',
+      signingKeys: 'id',
+      questionRevisions: 'id, questionId, createdAt',
+    });
   }
 }
 
@@ -12,6 +12,7 @@ const SubjectSchema = z.object({
   color: z.string().optional(),
   icon: z.string().optional(),
   examDate: z.string().optional(),
+  scheduler: z.enum(['sm2', 'fsrs']).optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -34,6 +35,7 @@ const QuestionOptionSchema = z.object({
 const ClozeBlankSchema = z.object({
   id: z.string(),
   accepted: z.array(z.string()),
+  maxEdits: z.number().int().nonnegative().optional(),
 });
 
 const QuestionStatsSchema = z.object({
@@ -59,6 +61,8 @@ const QuestionSchema = z.object({
   modelAnswer: z.string().optional(),
   keywords: z.array(z.string()).optional(),
   numericAnswer: z.string().optional(), // ITER3
+  numericAbsTolerance: z.number().nonnegative().optional(),
+  numericRelTolerance: z.number().nonnegative().optional(),
   clozeText: z.string().optional(),
   blanks: z.array(ClozeBlankSchema).optional(),
   pdfAnchorId: z.string().optional(),
@@ -130,7 +134,7 @@ export async function exportBank(subjectIds?: string[]): Promise<BankExport> {
  * Exporta el banco global — versión pensada para committear al repositorio.
  *
  * Diferencias respecto a exportBank():
- *  - examDate eliminado de todas las asignaturas (es dato personal de cada usuario)
+ *  - examDate y scheduler eliminados de todas las asignaturas (son datos personales de cada usuario)
  *  - stats reseteadas a 0 (cada usuario empieza desde cero)
  */
 export async function exportGlobalBank(subjectIds?: string[]): Promise<BankExport> {
@@ -139,8 +143,8 @@ export async function exportGlobalBank(subjectIds?: string[]): Promise<BankExpor
   return {
     ...bank,
     exportedAt: new Date().toISOString(),
-    subjects: bank.subjects.map(({ examDate: _examDate, ...rest }) => rest as Subject),
-    questions: bank.questions.map(({ sourcePackId: _sourcePackId, notes: _notes, starred: _starred, ...q }) => ({
+    subjects: bank.subjects.map(({ examDate: _examDate, scheduler: _scheduler, ...rest }) => rest as Subject),
+    questions: bank.questions.map(({ sourcePackId: _sourcePackId, notes: _notes, starred: _starred, suspended: _suspended, ...q }) => ({
       ...q,
       stats: { seen: 0, correct: 0, wrong: 0 },
     })),
@@ -356,6 +360,8 @@ export async function removeDuplicateQuestions(): Promise<RemoveDuplicatesResult
   }
 
   if (toDelete.length > 0) {
+    await db.reviewLogs.where('questionId').anyOf(toDelete).delete();
+    await db.questionRevisions.where('questionId').anyOf(toDelete).delete();
     await db.questions.bulkDelete(toDelete);
   }
 
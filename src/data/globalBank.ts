@@ -17,6 +17,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import { db, getSettings, saveSettings } from './db';
 import { slugify } from '@/domain/normalize';
+import { revisionRepo } from './repos';
 import type { Subject, Topic, Question, PdfAnchor, BankExport } from '@/domain/models';
 import bankJson from './global-bank.json';
 // ─── Zod validation (reutiliza estructura BankExport) ────────────────────────
@@ -42,7 +43,11 @@ const TopicSchema = z.object({
 });
 
 const QuestionOptionSchema = z.object({ id: z.string(), text: z.string() });
-const ClozeBlankSchema = z.object({ id: z.string(), accepted: z.array(z.string()) });
+const ClozeBlankSchema = z.object({
+  id: z.string(),
+  accepted: z.array(z.string()),
+  maxEdits: z.number().int().nonnegative().optional(),
+});
 const QuestionStatsSchema = z.object({
   seen: z.number(),
   correct: z.number(),
@@ -66,6 +71,8 @@ const QuestionSchema = z.object({
   modelAnswer: z.string().optional(),
   keywords: z.array(z.string()).optional(),
   numericAnswer: z.string().optional(), // ITER3
+  numericAbsTolerance: z.number().nonnegative().optional(),
+  numericRelTolerance: z.number().nonnegative().optional(),
   clozeText: z.string().optional(),
   blanks: z.array(ClozeBlankSchema).optional(),
   pdfAnchorId: z.string().optional(),
@@ -283,6 +290,7 @@ export async function mergeGlobalBank(raw: unknown): Promise<GlobalBankSyncResul
     };
 
     await db.questions.add(newQuestion);
+    await revisionRepo.record(newQuestion, { kind: 'globalBank' }, now);
     if (q.contentHash) existingHashes.add(q.contentHash);
     result.questionsAdded++;
   }
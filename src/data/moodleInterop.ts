@@ -0,0 +1,559 @@
+/**
+ * moodleInterop.ts
+ *
+ * Conversión entre los formatos de preguntas de Moodle (GIFT y Moodle XML)
+ * y el banco de preguntas.
+ *
+ * Correspondencia de tipos:
+ *   multichoice / truefalse   ↔ TEST
+ *   shortanswer               → COMPLETAR con un hueco (← COMPLETAR de un solo hueco)
+ *   cloze (multianswer)       ↔ COMPLETAR ({1:SHORTANSWER:=…} ↔ ClozeBlank)
+ *   essay                     ↔ DESARROLLO (graderinfo ↔ respuesta modelo)
+ *   numerical                 ↔ PRACTICO (valor + tolerancia absoluta)
+ *
+ * La importación no escribe en la base de datos: genera un ContributionPack
+ * que pasa por `previewContributionPack` / `importContributionPack`, con la
+ * misma deduplicación por contentHash y el mismo historial (deshacer).
+ * Las categorías de Moodle (`$course$/…/Tema 3`) se convierten en temas.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ankiHtmlToMd, mdToAnkiHtml } from './ankiInterop';
+import { buildImageMap } from './questionImageStorage';
+import { DEFAULT_CLOZE_PROMPT } from '@/domain/clozeMatch';
+import { computeContentHash } from '@/domain/hashing';
+import { slugify } from '@/domain/normalize';
+import { DEFAULT_REL_TOLERANCE, parseExpectedResults } from '@/domain/numeric';
+import type { ClozeBlank, ContributionPack, ContributionQuestion, Question, Topic } from '@/domain/models';
+
+// ─── Tipos ────────────────────────────────────────────────────────────────────
+
+/** Pregunta leída de Moodle, con la categoría de origen (→ tema). */
+export type MoodleQuestion = Omit<ContributionQuestion, 'id' | 'subjectKey' | 'topicKey' | 'contentHash'> & {
+  category?: string;
+};
+
+export interface MoodleParseResult {
+  questions: MoodleQuestion[];
+  /** filename (uuid.ext) → base64 de las imágenes incrustadas (solo XML). */
+  images: Record<string, string>;
+  /** Preguntas de tipos sin equivalente (matching, description…) o mal formadas. */
+  warnings: string[];
+}
+
+// ─── Utilidades comunes ───────────────────────────────────────────────────────
+
+function testQuestion(prompt: string, answers: { text: string; weight: number }[], explanation?: string): MoodleQuestion | null {
+  const options = answers.map((a) => ({ id: uuidv4(), text: a.text }));
+  const correctOptionIds = answers.flatMap((a, i) => (a.weight > 0 ? [options[i].id] : []));
+  if (options.length < 2 || correctOptionIds.length === 0) return null;
+  return { type: 'TEST', prompt, options, correctOptionIds, explanation };
+}
+
+function trueFalseQuestion(prompt: string, truth: boolean, explanation?: string): MoodleQuestion {
+  return testQuestion(prompt, [
+    { text: 'Verdadero', weight: truth ? 100 : 0 },
+    { text: 'Falso', weight: truth ? 0 : 100 },
+  ], explanation)!;
+}
+
+function numericalQuestion(prompt: string, value: number, tolerance: number, explanation?: string): MoodleQuestion {
+  return {
+    type: 'PRACTICO',
+    prompt,
+    numericAnswer: String(value),
+    numericAbsTolerance: tolerance > 0 ? tolerance : undefined,
+    explanation,
+  };
+}
+
+/** Última parte de la ruta de categoría: "$course$/Física/Tema 2" → "Tema 2". */
+function categoryTitle(category: string): string {
+  const parts = category.split('/').map((p) => p.trim()).filter((p) => p && !/^\$\w+\$$/.test(p));
+  return parts[parts.length - 1] ?? '';
+}
+
+// ─── Cloze de Moodle (multianswer) ────────────────────────────────────────────
+
+const EMBEDDED = /\{(\d*):([A-Z_]+):((?:\\.|[^}\\])*)\}/g;
+
+function splitUnescaped(text: string, sep: string): string[] {
+  const out: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) { current += text[i] + text[i + 1]; i++; }
+    else if (text[i] === sep) { out.push(current); current = ''; }
+    else current += text[i];
+  }
+  out.push(current);
+  return out;
+}
+
+const unescapeMoodle = (text: string) => text.replace(/\\([~=#{}:%\\])/g, '$1');
+
+/** `{1:SHORTANSWER:=París~%50%Paris}` → respuestas aceptadas (las de 100 %). */
+function embeddedAccepted(kind: string, body: string): string[] {
+  const items = splitUnescaped(body, '~').map((raw) => {
+    const m = /^(=|%(-?[\d.]+)%)?([\s\S]*)$/.exec(raw.trim())!;
+    const weight = m[1] === '=' ? 100 : m[2] ? parseFloat(m[2]) : 0;
+    let text = splitUnescaped(m[3], '#')[0];
+    if (/^(NUMERICAL|NM)$/.test(kind)) text = text.split(':')[0];
+    return { weight, text: unescapeMoodle(text).trim() };
+  }).filter((a) => a.text);
+  const best = Math.max(...items.map((a) => a.weight));
+  return items.filter((a) => a.weight === best && best > 0).map((a) => a.text);
+}
+
+function embeddedToBlanks(text: string): { clozeText: string; blanks: ClozeBlank[] } {
+  const blanks: ClozeBlank[] = [];
+  const clozeText = text.replace(EMBEDDED, (m, _grade: string, kind: string, body: string) => {
+    const accepted = embeddedAccepted(kind, body);
+    if (accepted.length === 0) return m;
+    const id = `b${blanks.length + 1}`;
+    blanks.push({ id, accepted });
+    return `{{${id}}}`;
+  });
+  return { clozeText, blanks };
+}
+
+function escapeEmbedded(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, '\\$1');
+}
+
+/** Texto con `{{id}}` → subpreguntas SHORTANSWER de Moodle. */
+function blanksToEmbedded(clozeText: string, blanks: ClozeBlank[]): string {
+  return clozeText.replace(/\{\{([^}]+)\}\}/g, (m, id: string) => {
+    const blank = blanks.find((b) => b.id === id);
+    if (!blank) return m;
+    // Las expresiones regulares (/…/) no tienen equivalente en Moodle
+    const accepted = blank.accepted.filter((a) => !/^\/.+\/[a-z]*$/.test(a));
+    return `{1:SHORTANSWER:${(accepted.length > 0 ? accepted : [id]).map((a) => `=${escapeEmbedded(a)}`).join('~')}}`;
+  });
+}
+
+// ─── GIFT → preguntas ─────────────────────────────────────────────────────────
+
+/** Posición del primer carácter `ch` no escapado a partir de `from` (-1 si no hay). */
+function indexOfUnescaped(text: string, ch: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text.startsWith(ch, i)) return i;
+  }
+  return -1;
+}
+
+/** Una sola pasada de izquierda a derecha: `\\neq` es `\neq`, no un salto de línea. */
+function unescapeGift(text: string): string {
+  return text.replace(/\\([n~=#{}:\\])/g, (_, c: string) => (c === 'n' ? '\n' : c)).trim();
+}
+
+/** Texto GIFT con su prefijo de formato ([html], [markdown]…) → markdown. */
+function giftText(raw: string): string {
+  const m = /^\s*\[(html|markdown|plain|moodle)\]/i.exec(raw);
+  const body = m ? raw.slice(m[0].length) : raw;
+  const text = unescapeGift(body);
+  return m?.[1].toLowerCase() === 'html' ? ankiHtmlToMd(text) : text;
+}
+
+interface GiftAnswer { mark: '=' | '~'; weight: number; text: string }
+
+/** Lista de respuestas `=a#fb ~%50%b ~c` (los comentarios se descartan). */
+function giftAnswers(body: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let i = indexOfUnescaped(body, '=');
+  const tilde = indexOfUnescaped(body, '~');
+  if (i === -1 || (tilde !== -1 && tilde < i)) i = tilde;
+  while (i !== -1) {
+    const mark = body[i] as '=' | '~';
+    const nextEq = indexOfUnescaped(body, '=', i + 1);
+    const nextTilde = indexOfUnescaped(body, '~', i + 1);
+    const next = [nextEq, nextTilde].filter((n) => n !== -1).sort((a, b) => a - b)[0] ?? -1;
+    let raw = body.slice(i + 1, next === -1 ? undefined : next).trim();
+    let weight = mark === '=' ? 100 : 0;
+    const w = /^%(-?[\d.]+)%/.exec(raw);
+    if (w) { weight = parseFloat(w[1]); raw = raw.slice(w[0].length); }
+    const fb = indexOfUnescaped(raw, '#');
+    answers.push({ mark, weight, text: giftText(fb === -1 ? raw : raw.slice(0, fb)) });
+    i = next;
+  }
+  return answers;
+}
+
+/** "3.14:0.01" · "3..4" · "3" → valor y tolerancia absoluta. */
+function giftNumber(spec: string): { value: number; tolerance: number } | null {
+  const range = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(spec);
+  if (range) {
+    const lo = parseFloat(range[1]);
+    const hi = parseFloat(range[2]);
+    return { value: (lo + hi) / 2, tolerance: Math.abs(hi - lo) / 2 };
+  }
+  const [v, t] = spec.split(':');
+  const value = parseFloat(v);
+  return Number.isFinite(value) ? { value, tolerance: t ? parseFloat(t) || 0 : 0 } : null;
+}
+
+function parseGiftQuestion(block: string): MoodleQuestion | string {
+  let text = block.trim();
+  const title = /^::((?:\\.|[^:])*)::/.exec(text);
+  if (title) text = text.slice(title[0].length);
+  const label = title ? unescapeGift(title[1]) : text.slice(0, 40);
+
+  const open = indexOfUnescaped(text, '{');
+  const close = open === -1 ? -1 : indexOfUnescaped(text, '}', open);
+  if (open === -1 || close === -1) return `«${label}»: sin bloque de respuestas (descripción), se omite`;
+
+  const before = giftText(text.slice(0, open));
+  const after = giftText(text.slice(close + 1));
+  let body = text.slice(open + 1, close).trim();
+
+  let explanation: string | undefined;
+  const general = indexOfUnescaped(body, '####');
+  if (general !== -1) {
+    explanation = giftText(body.slice(general + 4)) || undefined;
+    body = body.slice(0, general).trim();
+  }
+  const prompt = after ? `${before} _____ ${after}` : before;
+
+  // Desarrollo
+  if (body === '') return { type: 'DESARROLLO', prompt, explanation };
+
+  // Verdadero / falso
+  const tf = /^(T|TRUE|F|FALSE)\b/i.exec(body);
+  if (tf) return trueFalseQuestion(prompt, tf[1].toUpperCase().startsWith('T'), explanation);
+
+  // Numérica: {#3.14:0.01} o {#=3.14:0.01 =%50%3:1}
+  if (body.startsWith('#')) {
+    const spec = body.slice(1).trim();
+    const answers = /^[=~]/.test(spec) ? giftAnswers(spec) : [{ mark: '=' as const, weight: 100, text: spec }];
+    const best = answers.filter((a) => a.weight === 100).map((a) => giftNumber(a.text)).find((n) => n != null);
+    return best ? numericalQuestion(prompt, best.value, best.tolerance, explanation) : `«${label}»: respuesta numérica no válida`;
+  }
+
+  const answers = giftAnswers(body);
+  if (answers.length === 0) return `«${label}»: respuestas no reconocidas`;
+  if (answers.some((a) => a.text.includes('->'))) return `«${label}»: las preguntas de emparejamiento no tienen equivalente`;
+
+  // Opción múltiple
+  if (answers.some((a) => a.mark === '~')) {
+    return testQuestion(prompt, answers, explanation) ?? `«${label}»: test sin respuesta correcta`;
+  }
+
+  // Respuesta corta: con texto detrás del bloque es una palabra que falta
+  const accepted = answers.filter((a) => a.weight === 100).map((a) => a.text);
+  if (accepted.length === 0) return `«${label}»: respuesta corta sin respuesta al 100 %`;
+  const blanks: ClozeBlank[] = [{ id: 'b1', accepted }];
+  return after
+    ? { type: 'COMPLETAR', prompt: DEFAULT_CLOZE_PROMPT, clozeText: `${before} {{b1}} ${after}`, blanks, explanation }
+    : { type: 'COMPLETAR', prompt: before, clozeText: '{{b1}}', blanks, explanation };
+}
+
+/** Lee un fichero GIFT. Las preguntas se separan por líneas en blanco. */
+export function parseGift(text: string): MoodleParseResult {
+  const questions: MoodleQuestion[] = [];
+  const warnings: string[] = [];
+  let category: string | undefined;
+  let lines: string[] = [];
+  let depth = 0;
+
+  const flush = () => {
+    const block = lines.join('\n').trim();
+    lines = [];
+    depth = 0;
+    if (!block) return;
+    const result = parseGiftQuestion(block);
+    if (typeof result === 'string') warnings.push(result);
+    else questions.push({ ...result, category });
+  };
+
+  for (const line of text.replace(/^﻿/, '').split(/\r?\n/)) {
+    if (line.trim().startsWith('//')) continue;
+    const cat = /^\s*\$CATEGORY:\s*(.+)$/.exec(line);
+    if (cat) { flush(); category = cat[1].trim(); continue; }
+    if (line.trim() === '' && depth === 0) { flush(); continue; }
+    lines.push(line);
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '\\') i++;
+      else if (line[i] === '{') depth++;
+      else if (line[i] === '}') depth = Math.max(0, depth - 1);
+    }
+  }
+  flush();
+  return { questions, images: {}, warnings };
+}
+
+// ─── Moodle XML → preguntas ───────────────────────────────────────────────────
+
+const child = (el: Element, tag: string) => Array.from(el.children).find((c) => c.tagName === tag);
+const childText = (el: Element | undefined, tag = 'text') => (el ? child(el, tag)?.textContent ?? '' : '');
+
+/** Lee un Moodle XML (`<quiz><question type="…">…`) con DOMParser. */
+export function parseMoodleXml(xml: string): MoodleParseResult {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror') || doc.documentElement.tagName !== 'quiz') {
+    throw new Error('El fichero no es un Moodle XML válido (falta <quiz>).');
+  }
+
+  const questions: MoodleQuestion[] = [];
+  const images: Record<string, string> = {};
+  const warnings: string[] = [];
+  let category: string | undefined;
+
+  /** Campo de texto (`<questiontext format="…"><text>…</text><file/>…`) → markdown. */
+  const textOf = (el: Element | undefined): string => {
+    if (!el) return '';
+    const renamed = new Map<string, string>();
+    for (const file of Array.from(el.children).filter((c) => c.tagName === 'file')) {
+      const name = file.getAttribute('name') ?? '';
+      const ext = (name.split('.').pop() ?? 'png').toLowerCase();
+      const filename = `${uuidv4()}.${ext}`;
+      renamed.set(name, filename);
+      images[filename] = (file.textContent ?? '').replace(/\s+/g, '');
+    }
+    const raw = childText(el);
+    const format = el.getAttribute('format') ?? 'html';
+    if (format !== 'html') return raw.trim();
+    return ankiHtmlToMd(raw, (src) => {
+      const name = decodeURIComponent(src.replace(/^@@PLUGINFILE@@\//, '').replace(/\?.*$/, ''));
+      return renamed.get(name);
+    });
+  };
+
+  for (const q of Array.from(doc.documentElement.children).filter((c) => c.tagName === 'question')) {
+    const type = q.getAttribute('type') ?? '';
+    if (type === 'category') {
+      category = childText(child(q, 'category')).trim();
+      continue;
+    }
+    const label = childText(child(q, 'name')).trim() || type;
+    const prompt = textOf(child(q, 'questiontext'));
+    const explanation = textOf(child(q, 'generalfeedback')) || undefined;
+    const tags = Array.from(q.querySelectorAll('tags > tag')).map((t) => childText(t).trim()).filter(Boolean);
+    const answers = Array.from(q.children)
+      .filter((c) => c.tagName === 'answer')
+      .map((a) => ({ el: a, weight: parseFloat(a.getAttribute('fraction') ?? '0'), text: textOf(a) }));
+
+    let result: MoodleQuestion | null = null;
+    if (type === 'multichoice') {
+      result = testQuestion(prompt, answers, explanation);
+    } else if (type === 'truefalse') {
+      const correct = answers.find((a) => a.weight > 0);
+      result = correct ? trueFalseQuestion(prompt, correct.text.trim().toLowerCase() === 'true', explanation) : null;
+    } else if (type === 'shortanswer') {
+      const accepted = answers.filter((a) => a.weight === 100).map((a) => a.text);
+      result = accepted.length > 0
+        ? { type: 'COMPLETAR', prompt, clozeText: '{{b1}}', blanks: [{ id: 'b1', accepted }], explanation }
+        : null;
+    } else if (type === 'numerical') {
+      const best = answers.find((a) => a.weight === 100);
+      const value = best ? parseFloat(best.text) : NaN;
+      result = Number.isFinite(value)
+        ? numericalQuestion(prompt, value, parseFloat(childText(best!.el, 'tolerance')) || 0, explanation)
+        : null;
+    } else if (type === 'essay') {
+      result = { type: 'DESARROLLO', prompt, modelAnswer: textOf(child(q, 'graderinfo')) || undefined, explanation };
+    } else if (type === 'cloze') {
+      const { clozeText, blanks } = embeddedToBlanks(prompt);
+      result = blanks.length > 0 ? { type: 'COMPLETAR', prompt: DEFAULT_CLOZE_PROMPT, clozeText, blanks, explanation } : null;
+    } else {
+      warnings.push(`«${label}»: el tipo ${type} no tiene equivalente, se omite`);
+      continue;
+    }
+
+    if (result) questions.push({ ...result, tags: tags.length > 0 ? tags : undefined, category });
+    else warnings.push(`«${label}» (${type}): no se pudo convertir`);
+  }
+  return { questions, images, warnings };
+}
+
+// ─── Preguntas → ContributionPack ─────────────────────────────────────────────
+
+export interface MoodlePackOptions {
+  subjectName: string;
+  /** Tema para las preguntas sin categoría. */
+  defaultTopicTitle: string;
+  createdBy: string;
+}
+
+/**
+ * Empaqueta lo leído de Moodle como un ContributionPack listo para
+ * `previewContributionPack` (los contentHash se calculan aquí).
+ */
+export async function moodleToContributionPack(parsed: MoodleParseResult, options: MoodlePackOptions): Promise<ContributionPack> {
+  const subjectKey = slugify(options.subjectName);
+  const topicTitles = new Map<string, string>();
+  const questions: ContributionQuestion[] = [];
+
+  for (const { category, ...q } of parsed.questions) {
+    const title = (category && categoryTitle(category)) || options.defaultTopicTitle;
+    const topicKey = slugify(title);
+    topicTitles.set(topicKey, title);
+    questions.push({
+      ...q,
+      id: uuidv4(),
+      subjectKey,
+      topicKey,
+      createdBy: options.createdBy,
+      contentHash: await computeContentHash(q, topicKey),
+    });
+  }
+
+  return {
+    version: 1,
+    kind: 'contribution',
+    packId: `moodle-${uuidv4()}`,
+    createdBy: options.createdBy,
+    exportedAt: new Date().toISOString(),
+    targets: [{
+      subjectKey,
+      subjectName: options.subjectName,
+      topics: [...topicTitles].map(([topicKey, topicTitle]) => ({ topicKey, topicTitle })),
+    }],
+    questions,
+    questionImages: Object.keys(parsed.images).length > 0 ? parsed.images : undefined,
+  };
+}
+
+// ─── Exportación ──────────────────────────────────────────────────────────────
+
+export interface MoodleExportResult {
+  text: string;
+  /** Preguntas sin representación en el formato (p. ej. COMPLETAR con varios huecos en GIFT). */
+  skipped: number;
+}
+
+/** Valor y tolerancia absoluta de una PRACTICO, si su resultado es un número. */
+function numericOf(q: Question): { value: number; tolerance: number } | null {
+  const expected = parseExpectedResults(q.numericAnswer)?.[0];
+  if (!expected) return null;
+  const tolerance = q.numericAbsTolerance ?? (q.numericRelTolerance ?? DEFAULT_REL_TOLERANCE) * Math.abs(expected.value);
+  return { value: expected.value, tolerance };
+}
+
+function groupByTopic(questions: Question[], topics: Topic[]): [Topic | undefined, Question[]][] {
+  const byTopic = new Map<string, Question[]>();
+  for (const q of questions) byTopic.set(q.topicId, [...(byTopic.get(q.topicId) ?? []), q]);
+  return [...byTopic].map(([topicId, qs]) => [topics.find((t) => t.id === topicId), qs]);
+}
+
+const fraction = (n: number) => String(Math.round(n * 100000) / 100000);
+
+// GIFT
+
+function escapeGift(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+}
+
+function giftQuestion(q: Question): string | null {
+  const label = q.prompt === DEFAULT_CLOZE_PROMPT && q.clozeText ? q.clozeText.replace(/\{\{[^}]+\}\}/g, '___') : q.prompt;
+  const title = `::${escapeGift(label.replace(/\s+/g, ' ').slice(0, 40))}::`;
+  const prompt = `[markdown]${escapeGift(q.prompt)}`;
+  const feedback = q.explanation ? ` ####${escapeGift(q.explanation)}` : '';
+
+  if (q.type === 'TEST') {
+    const correct = new Set(q.correctOptionIds ?? []);
+    const single = correct.size === 1;
+    const answers = (q.options ?? []).map((o) =>
+      single
+        ? `${correct.has(o.id) ? '=' : '~'}${escapeGift(o.text)}`
+        : `~%${correct.has(o.id) ? fraction(100 / correct.size) : '0'}%${escapeGift(o.text)}`
+    );
+    return `${title}${prompt} {\n${answers.map((a) => `  ${a}`).join('\n')}\n${feedback ? ` ${feedback.trim()}\n` : ''}}`;
+  }
+  if (q.type === 'COMPLETAR') {
+    // GIFT solo admite una palabra que falta por pregunta
+    const blanks = q.blanks ?? [];
+    const m = /^([\s\S]*?)\{\{([^}]+)\}\}([\s\S]*)$/.exec(q.clozeText ?? '');
+    if (blanks.length !== 1 || !m) return null;
+    const answers = blanks[0].accepted.filter((a) => !/^\/.+\/[a-z]*$/.test(a)).map((a) => `=${escapeGift(a)}`).join(' ');
+    const before = m[1].trim() ? `[markdown]${escapeGift(m[1].trim())}` : prompt;
+    return `${title}${before} {${answers}${feedback}} ${escapeGift(m[3].trim())}`.trimEnd();
+  }
+  if (q.type === 'PRACTICO') {
+    const n = numericOf(q);
+    if (n) return `${title}${prompt} {#${n.value}:${fraction(n.tolerance)}${feedback}}`;
+  }
+  // DESARROLLO (y PRACTICO sin resultado numérico): la respuesta modelo va como comentario general
+  const model = [q.modelAnswer, q.explanation].filter(Boolean).join('\n\n');
+  return `${title}${prompt} {${model ? `####${escapeGift(model)}` : ''}}`;
+}
+
+export function exportGift(questions: Question[], topics: Topic[], subjectName: string): MoodleExportResult {
+  const out: string[] = [`// ${subjectName} — ${new Date().toISOString().split('T')[0]}`, ''];
+  let skipped = 0;
+  for (const [topic, qs] of groupByTopic(questions, topics)) {
+    out.push(`$CATEGORY: $course$/${subjectName}/${topic?.title ?? 'Sin tema'}`, '');
+    for (const q of qs) {
+      const text = giftQuestion(q);
+      if (text) out.push(text, '');
+      else skipped++;
+    }
+  }
+  return { text: out.join('\n'), skipped };
+}
+
+// Moodle XML
+
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+}
+
+export async function exportMoodleXml(questions: Question[], topics: Topic[], subjectName: string): Promise<MoodleExportResult> {
+  const texts = questions.flatMap((q) => [q.prompt, q.modelAnswer ?? '', q.explanation ?? '', q.clozeText ?? '', ...(q.options ?? []).map((o) => o.text)]);
+  const images = await buildImageMap(texts);
+
+  /** Markdown → `<text>` HTML con las imágenes que usa como `<file>`. */
+  const textBlock = (tag: string, md: string, attrs = '') => {
+    const html = mdToAnkiHtml(md).replace(/<img src="([^"]+)">/g, (_m, f: string) => `<img src="@@PLUGINFILE@@/${f}" alt="">`);
+    const files = [...html.matchAll(/@@PLUGINFILE@@\/([^"]+)/g)]
+      .map((m) => m[1])
+      .filter((f, i, all) => images[f] && all.indexOf(f) === i)
+      .map((f) => `<file name="${escapeXml(f)}" path="/" encoding="base64">${images[f]}</file>`);
+    return `<${tag} format="html"${attrs}><text>${cdata(html)}</text>${files.join('')}</${tag}>`;
+  };
+
+  const out: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>'];
+  let skipped = 0;
+  for (const [topic, qs] of groupByTopic(questions, topics)) {
+    out.push(`<question type="category"><category><text>${escapeXml(`$course$/${subjectName}/${topic?.title ?? 'Sin tema'}`)}</text></category></question>`);
+    for (const q of qs) {
+      const name = `<name><text>${escapeXml(q.prompt.replace(/\s+/g, ' ').slice(0, 60))}</text></name>`;
+      const feedback = textBlock('generalfeedback', q.explanation ?? '');
+      const tags = q.tags?.length ? `<tags>${q.tags.map((t) => `<tag><text>${escapeXml(t)}</text></tag>`).join('')}</tags>` : '';
+      const common = (prompt: string) => `${name}${textBlock('questiontext', prompt)}${feedback}<defaultgrade>1</defaultgrade>`;
+      let body: string;
+
+      if (q.type === 'TEST') {
+        const correct = new Set(q.correctOptionIds ?? []);
+        const answers = (q.options ?? []).map((o) =>
+          `<answer fraction="${correct.has(o.id) ? fraction(100 / correct.size) : '0'}" format="html"><text>${cdata(mdToAnkiHtml(o.text))}</text></answer>`
+        );
+        body = `<question type="multichoice">${common(q.prompt)}<single>${correct.size === 1}</single><shuffleanswers>1</shuffleanswers><answernumbering>abc</answernumbering>${answers.join('')}`;
+      } else if (q.type === 'COMPLETAR') {
+        const blanks = q.blanks ?? [];
+        if (!q.clozeText || blanks.length === 0) { skipped++; continue; }
+        if (blanks.length === 1 && q.clozeText.trim() === `{{${blanks[0].id}}}`) {
+          const answers = blanks[0].accepted.map((a) => `<answer fraction="100" format="plain_text"><text>${escapeXml(a)}</text></answer>`);
+          body = `<question type="shortanswer">${common(q.prompt)}<usecase>0</usecase>${answers.join('')}`;
+        } else {
+          const prompt = q.prompt === DEFAULT_CLOZE_PROMPT ? '' : `${q.prompt}\n\n`;
+          body = `<question type="cloze">${name}${textBlock('questiontext', prompt + blanksToEmbedded(q.clozeText, blanks))}${feedback}`;
+        }
+      } else {
+        const n = q.type === 'PRACTICO' ? numericOf(q) : null;
+        if (n) {
+          body = `<question type="numerical">${common(q.prompt)}<answer fraction="100"><text>${n.value}</text><tolerance>${fraction(n.tolerance)}</tolerance></answer>`;
+        } else {
+          const model = [q.numericAnswer, q.modelAnswer].filter(Boolean).join('\n\n');
+          body = `<question type="essay">${common(q.prompt)}<responseformat>editor</responseformat><responsefieldlines>15</responsefieldlines>${textBlock('graderinfo', model)}`;
+        }
+      }
+      out.push(`${body}${tags}</question>`);
+    }
+  }
+  out.push('</quiz>');
+  return { text: out.join('\n'), skipped };
+}
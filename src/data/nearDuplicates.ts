@@ -0,0 +1,118 @@
+import { db } from './db';
+import { questionRepo } from './repos';
+import { findSimilarPairs, DEFAULT_SIMILARITY_THRESHOLD } from '@/domain/similarity';
+import type { Question, QuestionStats } from '@/domain/models';
+
+// ─── Near duplicates ──────────────────────────────────────────────────────────
+//
+// Complementa a removeDuplicateQuestions (contentHash exacto): detecta
+// preguntas casi iguales por similitud y las fusiona en una sola sin perder
+// historial de repaso, notas ni estrella.
+
+export interface NearDuplicatePair {
+  a: Question;
+  b: Question;
+  /** Similitud 0–1. */
+  score: number;
+}
+
+/**
+ * Busca pares de preguntas casi duplicadas dentro de cada asignatura
+ * (no se comparan preguntas de asignaturas distintas).
+ */
+export async function findNearDuplicates(
+  threshold = DEFAULT_SIMILARITY_THRESHOLD,
+  subjectId?: string
+): Promise<NearDuplicatePair[]> {
+  const questions = subjectId
+    ? await db.questions.where('subjectId').equals(subjectId).toArray()
+    : await db.questions.toArray();
+  const byId = new Map(questions.map((q) => [q.id, q]));
+
+  const bySubject = new Map<string, Question[]>();
+  for (const q of questions) {
+    if (!bySubject.has(q.subjectId)) bySubject.set(q.subjectId, []);
+    bySubject.get(q.subjectId)!.push(q);
+  }
+
+  const pairs: NearDuplicatePair[] = [];
+  for (const group of bySubject.values()) {
+    for (const p of findSimilarPairs(group, threshold)) {
+      pairs.push({ a: byId.get(p.a)!, b: byId.get(p.b)!, score: p.score });
+    }
+  }
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+function usage(s: QuestionStats): number {
+  return s.seen + s.correct + s.wrong;
+}
+
+/**
+ * Estadísticas combinadas: se suman los contadores y el estado de repaso
+ * (SM-2/FSRS) se toma de la pregunta con más historial.
+ */
+function mergeStats(all: Question[]): QuestionStats {
+  const main = [...all].sort((a, b) => usage(b.stats) - usage(a.stats))[0].stats;
+  const lastSeen = all
+    .filter((q) => q.stats.lastSeenAt)
+    .sort((a, b) => b.stats.lastSeenAt!.localeCompare(a.stats.lastSeenAt!))[0]?.stats;
+  return {
+    ...main,
+    seen: all.reduce((acc, q) => acc + q.stats.seen, 0),
+    correct: all.reduce((acc, q) => acc + q.stats.correct, 0),
+    wrong: all.reduce((acc, q) => acc + q.stats.wrong, 0),
+    lastSeenAt: lastSeen?.lastSeenAt,
+    lastResult: lastSeen?.lastResult ?? main.lastResult,
+  };
+}
+
+function uniq<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Campos de la pregunta `keep` tras absorber a `others`: une etiquetas y
+ * temas (de la misma asignatura), concatena notas y conserva la estrella.
+ */
+export function mergedQuestionFields(keep: Question, others: Question[]): Partial<Question> {
+  const all = [keep, ...others];
+  const topicIds = uniq(
+    all
+      .filter((q) => q.subjectId === keep.subjectId)
+      .flatMap((q) => q.topicIds?.length ? q.topicIds : [q.topicId])
+  );
+  const tags = uniq(all.flatMap((q) => q.tags ?? []));
+  const notes = uniq(all.map((q) => q.notes?.trim()).filter((n): n is string => !!n));
+  return {
+    topicIds: topicIds.length > 1 ? [keep.topicId, ...topicIds.filter((t) => t !== keep.topicId)] : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    notes: notes.length > 0 ? notes.join('\n\n') : undefined,
+    starred: all.some((q) => q.starred) || undefined,
+    stats: mergeStats(all),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fusiona `mergeIds` en `keepId`: la pregunta conservada mantiene su
+ * contenido, recibe el historial de repasos de las demás y estas se borran.
+ */
+export async function mergeQuestions(keepId: string, mergeIds: string[]): Promise<void> {
+  await db.transaction('rw', [db.questions, db.reviewLogs, db.questionRevisions, db.settings], async () => {
+    const keep = await db.questions.get(keepId);
+    if (!keep) throw new Error('La pregunta a conservar no existe');
+    const others = (await db.questions.bulkGet(mergeIds.filter((id) => id !== keepId)))
+      .filter((q): q is Question => !!q);
+    if (others.length === 0) return;
+
+    await questionRepo.update(keepId, mergedQuestionFields(keep, others), { kind: 'merge' });
+    const otherIds = others.map((q) => q.id);
+    await db.reviewLogs
+      .where('questionId')
+      .anyOf(otherIds)
+      .modify({ questionId: keepId, subjectId: keep.subjectId });
+    await db.questionRevisions.where('questionId').anyOf(otherIds).delete();
+    await db.questions.bulkDelete(otherIds);
+  });
+}
@@ -0,0 +1,380 @@
+import katex from 'katex';
+import { db } from './db';
+import { slugify } from '@/domain/normalize';
+import { editDistance, unsafeRegexReason } from '@/domain/clozeMatch';
+import { extractImageFilenames } from './questionImageStorage';
+import type { ClozeBlank, ContributionPack, ContributionQuestion } from '@/domain/models';
+
+// ─── Contribution pack lint ───────────────────────────────────────────────────
+//
+// Revisa un pack antes de importarlo: slugs que no existen en el banco local
+// (importContributionPack crearía asignaturas/temas nuevos), tests sin
+// respuesta correcta, huecos descuadrados, expresiones regulares peligrosas,
+// imágenes que faltan y LaTeX roto.
+// Los problemas con arreglo evidente llevan un `fix` aplicable con applyPackFixes.
+
+export type PackLintSeverity = 'error' | 'warning';
+
+export type PackFix =
+  | { kind: 'renameSubject'; from: string; to: string }
+  | { kind: 'renameTopic'; subjectKey: string; from: string; to: string }
+  | { kind: 'setCorrectOptionIds'; questionId: string; ids: string[] }
+  | { kind: 'setBlanks'; questionId: string; blanks: ClozeBlank[] }
+  | { kind: 'restoreLatexEscapes'; questionId: string };
+
+export interface PackLintIssue {
+  severity: PackLintSeverity;
+  /** Pregunta afectada (ausente en problemas de slugs de `targets`). */
+  questionId?: string;
+  message: string;
+  /** Slug existente más parecido, para slugs desconocidos. */
+  suggestion?: string;
+  fix?: PackFix;
+}
+
+/** Asignaturas y temas locales, por slug, e imágenes ya guardadas. */
+export interface PackLintContext {
+  subjects: { key: string; name: string; topics: { key: string; title: string }[] }[];
+  imageFilenames: Set<string>;
+}
+
+export async function loadPackLintContext(): Promise<PackLintContext> {
+  const [subjects, topics, imageFilenames] = await Promise.all([
+    db.subjects.toArray(),
+    db.topics.toArray(),
+    // Solo el índice `filename`: no hace falta cargar los blobs
+    db.questionImages.orderBy('filename').uniqueKeys(),
+  ]);
+  return {
+    subjects: subjects.map((s) => ({
+      key: slugify(s.name),
+      name: s.name,
+      topics: topics
+        .filter((t) => t.subjectId === s.id)
+        .sort((a, b) => a.order - b.order)
+        .map((t) => ({ key: slugify(t.title), title: t.title })),
+    })),
+    imageFilenames: new Set(imageFilenames.map(String)),
+  };
+}
+
+/** Slug conocido más cercano, si está lo bastante cerca para ser una errata. */
+function closestSlug(slug: string, known: string[]): string | undefined {
+  let best: { key: string; distance: number } | undefined;
+  for (const key of known) {
+    const distance = editDistance(slug, key);
+    if (!best || distance < best.distance) best = { key, distance };
+  }
+  if (!best) return undefined;
+  // Prefijos (p. ej. "tema-1" → "tema-1-introduccion") también cuentan como errata
+  const prefix = best.key.startsWith(slug) || slug.startsWith(best.key);
+  return best.distance <= Math.max(2, Math.floor(slug.length * 0.3)) || prefix ? best.key : undefined;
+}
+
+function shortPrompt(q: ContributionQuestion): string {
+  const text = (q.prompt || q.clozeText || '').replace(/\s+/g, ' ').trim();
+  return text.length > 50 ? text.slice(0, 50) + '…' : text;
+}
+
+function textFields(q: ContributionQuestion): string[] {
+  return [q.prompt, q.explanation, q.modelAnswer, q.clozeText, ...(q.options ?? []).map((o) => o.text)]
+    .filter((t): t is string => !!t);
+}
+
+// ─── LaTeX ────────────────────────────────────────────────────────────────────
+
+const MATH = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^$\n]+?)\$/g;
+
+/**
+ * Comandos LaTeX cuya barra se comió el JSON: "\frac" sin escapar llega como
+ * salto de página + "rac", "\theta" como tabulador + "heta", etc.
+ */
+const EATEN_ESCAPES: [RegExp, string][] = [
+  [/\f/g, '\\f'],
+  [/\t/g, '\\t'],
+  [/\x08/g, '\\b'],
+  [/\r(?=[a-z])/g, '\\r'],
+  [/\v/g, '\\v'],
+];
+
+function hasEatenEscapes(text: string): boolean {
+  return /[\f\t\x08\v]|\r(?=[a-z])/.test(text);
+}
+
+export function restoreLatexEscapes(text: string): string {
+  return text.replace(MATH, (segment) =>
+    EATEN_ESCAPES.reduce((acc, [from, to]) => acc.replace(from, to), segment)
+  );
+}
+
+/** Mensajes de KaTeX para las fórmulas que no compilan. */
+function latexErrors(text: string): string[] {
+  const errors: string[] = [];
+  for (const m of text.matchAll(MATH)) {
+    const display = m[1] !== undefined || m[2] !== undefined;
+    const formula = m[1] ?? m[2] ?? m[3] ?? m[4];
+    try {
+      katex.renderToString(formula, { throwOnError: true, displayMode: display });
+    } catch (err) {
+      errors.push(`${err instanceof Error ? err.message.replace(/^KaTeX parse error: /, '') : String(err)} en «${formula.trim().slice(0, 40)}»`);
+    }
+  }
+  return errors;
+}
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+function lintSlugs(pack: ContributionPack, ctx: PackLintContext, issues: PackLintIssue[]): void {
+  const subjectKeys = ctx.subjects.map((s) => s.key);
+  const renamed = new Map<string, string>();
+
+  for (const target of pack.targets) {
+    const local = ctx.subjects.find((s) => s.key === target.subjectKey);
+    if (!local) {
+      const suggestion = closestSlug(target.subjectKey, subjectKeys)
+        ?? ctx.subjects.find((s) => s.key === slugify(target.subjectName))?.key;
+      if (suggestion) renamed.set(target.subjectKey, suggestion);
+      issues.push({
+        severity: 'warning',
+        message: suggestion
+          ? `La asignatura «${target.subjectKey}» no existe; ¿quisiste decir «${suggestion}»? Si no, se creará una asignatura nueva.`
+          : `La asignatura «${target.subjectKey}» no existe: se creará una asignatura nueva.`,
+        suggestion,
+        fix: suggestion ? { kind: 'renameSubject', from: target.subjectKey, to: suggestion } : undefined,
+      });
+    }
+
+    const subject = ctx.subjects.find((s) => s.key === (renamed.get(target.subjectKey) ?? target.subjectKey));
+    if (!subject) continue;
+    const topicKeys = subject.topics.map((t) => t.key);
+    const used = new Set(
+      pack.questions
+        .filter((q) => q.subjectKey === target.subjectKey)
+        .flatMap((q) => q.topicKeys?.length ? q.topicKeys : [q.topicKey])
+    );
+    for (const topicKey of new Set([...target.topics.map((t) => t.topicKey), ...used])) {
+      if (topicKeys.includes(topicKey)) continue;
+      const suggestion = closestSlug(topicKey, topicKeys);
+      issues.push({
+        severity: 'warning',
+        message: suggestion
+          ? `El tema «${topicKey}» no existe en ${subject.name}; ¿quisiste decir «${suggestion}»?`
+          : `El tema «${topicKey}» no existe en ${subject.name}: se creará un tema nuevo.`,
+        suggestion,
+        fix: suggestion ? { kind: 'renameTopic', subjectKey: target.subjectKey, from: topicKey, to: suggestion } : undefined,
+      });
+    }
+  }
+
+  const targetKeys = new Set(pack.targets.map((t) => t.subjectKey));
+  for (const q of pack.questions) {
+    if (!targetKeys.has(q.subjectKey)) {
+      issues.push({
+        severity: 'error',
+        questionId: q.id,
+        message: `«${shortPrompt(q)}» usa la asignatura «${q.subjectKey}», que no aparece en targets.`,
+      });
+    }
+  }
+}
+
+function lintTest(q: ContributionQuestion, issues: PackLintIssue[]): void {
+  const options = q.options ?? [];
+  const ids = options.map((o) => o.id);
+  const correct = q.correctOptionIds ?? [];
+  if (options.length < 2) {
+    issues.push({ severity: 'error', questionId: q.id, message: `«${shortPrompt(q)}» tiene menos de dos opciones.` });
+  }
+  if (new Set(ids).size !== ids.length) {
+    issues.push({ severity: 'error', questionId: q.id, message: `«${shortPrompt(q)}» repite ids de opción.` });
+  }
+  const dangling = correct.filter((id) => !ids.includes(id));
+  if (dangling.length > 0) {
+    // Ids que solo difieren en mayúsculas o espacios, o que son el texto de la opción
+    const resolved = correct.map((id) =>
+      ids.includes(id) ? id : options.find((o) => o.id.trim().toLowerCase() === id.trim().toLowerCase() || o.text.trim() === id.trim())?.id
+    );
+    const fixedIds = [...new Set(resolved.filter((id): id is string => !!id))];
+    issues.push({
+      severity: 'error',
+      questionId: q.id,
+      message: `«${shortPrompt(q)}»: correctOptionIds apunta a opciones que no existen (${dangling.join(', ')}).`,
+      fix: fixedIds.length > 0 ? { kind: 'setCorrectOptionIds', questionId: q.id, ids: fixedIds } : undefined,
+    });
+  } else if (correct.length === 0 && options.length > 0) {
+    issues.push({ severity: 'error', questionId: q.id, message: `«${shortPrompt(q)}» no tiene ninguna opción correcta.` });
+  }
+}
+
+function lintCloze(q: ContributionQuestion, issues: PackLintIssue[]): void {
+  const inText = [...(q.clozeText ?? '').matchAll(/\{\{([^}]+)\}\}/g)].map((m) => m[1]);
+  const blanks = q.blanks ?? [];
+  if (inText.length === 0) {
+    issues.push({ severity: 'error', questionId: q.id, message: `«${shortPrompt(q)}»: clozeText no tiene ningún hueco {{…}}.` });
+    return;
+  }
+  const missing = inText.filter((id) => !blanks.some((b) => b.id === id));
+  const extra = blanks.filter((b) => !inText.includes(b.id)).map((b) => b.id);
+  const empty = blanks.filter((b) => inText.includes(b.id) && b.accepted.length === 0).map((b) => b.id);
+  if (missing.length === 0 && extra.length === 0 && empty.length === 0) return;
+
+  const problems = [
+    missing.length > 0 ? `huecos sin definir en blanks (${missing.join(', ')})` : '',
+    extra.length > 0 ? `blanks que no aparecen en el texto (${extra.join(', ')})` : '',
+    empty.length > 0 ? `huecos sin respuestas aceptadas (${empty.join(', ')})` : '',
+  ].filter(Boolean);
+  // Mismo criterio que el editor: un hueco sin definir acepta su propio texto
+  const fixed = [...new Set(inText)].map((id) => {
+    const blank = blanks.find((b) => b.id === id);
+    return blank && blank.accepted.length > 0 ? blank : { ...blank, id, accepted: [id] };
+  });
+  issues.push({
+    severity: 'error',
+    questionId: q.id,
+    message: `«${shortPrompt(q)}»: ${problems.join('; ')}.`,
+    fix: { kind: 'setBlanks', questionId: q.id, blanks: fixed },
+  });
+}
+
+/** Respuestas `/…/` que podrían colgar la corrección (se ignoran al corregir). */
+function lintBlankRegexes(q: ContributionQuestion, issues: PackLintIssue[]): void {
+  for (const blank of q.blanks ?? []) {
+    for (const accepted of blank.accepted) {
+      const reason = unsafeRegexReason(accepted);
+      if (!reason) continue;
+      issues.push({
+        severity: 'error',
+        questionId: q.id,
+        message: `«${shortPrompt(q)}»: la expresión regular del hueco ${blank.id} no es segura (${reason}) y no aceptará ninguna respuesta.`,
+      });
+    }
+  }
+}
+
+function lintImages(q: ContributionQuestion, pack: ContributionPack, ctx: PackLintContext, issues: PackLintIssue[]): void {
+  const missing = textFields(q)
+    .flatMap(extractImageFilenames)
+    .filter((f) => !pack.questionImages?.[f] && !ctx.imageFilenames.has(f));
+  if (missing.length > 0) {
+    issues.push({
+      severity: 'error',
+      questionId: q.id,
+      message: `«${shortPrompt(q)}» referencia imágenes que no vienen en el pack: ${[...new Set(missing)].join(', ')}.`,
+    });
+  }
+}
+
+function lintLatex(q: ContributionQuestion, issues: PackLintIssue[]): void {
+  const texts = textFields(q);
+  const eaten = texts.some((t) => [...t.matchAll(MATH)].some((m) => hasEatenEscapes(m[0])));
+  const errors = texts.flatMap(latexErrors);
+  if (eaten) {
+    issues.push({
+      severity: 'error',
+      questionId: q.id,
+      message: `«${shortPrompt(q)}»: fórmulas con barras invertidas sin escapar en el JSON (\\frac, \\theta…).`,
+      fix: { kind: 'restoreLatexEscapes', questionId: q.id },
+    });
+  } else if (errors.length > 0) {
+    issues.push({ severity: 'warning', questionId: q.id, message: `«${shortPrompt(q)}»: LaTeX no válido: ${errors[0]}.` });
+  }
+}
+
+/** Informe de problemas del pack; vacío si todo está bien. */
+export function lintContributionPack(pack: ContributionPack, ctx: PackLintContext): PackLintIssue[] {
+  const issues: PackLintIssue[] = [];
+  lintSlugs(pack, ctx, issues);
+
+  const seenIds = new Set<string>();
+  for (const q of pack.questions) {
+    if (seenIds.has(q.id)) {
+      issues.push({ severity: 'error', questionId: q.id, message: `El id ${q.id} está repetido en el pack.` });
+    }
+    seenIds.add(q.id);
+    if (q.type === 'TEST') lintTest(q, issues);
+    if (q.type === 'COMPLETAR') {
+      lintCloze(q, issues);
+      lintBlankRegexes(q, issues);
+    }
+    lintImages(q, pack, ctx, issues);
+    lintLatex(q, issues);
+  }
+  return issues;
+}
+
+// ─── Auto-fix ─────────────────────────────────────────────────────────────────
+
+/**
+ * Devuelve una copia del pack con los arreglos aplicados y sin firma. Las
+ * preguntas tocadas pierden su contentHash para que se recalcule al importar.
+ */
+export function applyPackFixes(pack: ContributionPack, fixes: PackFix[]): ContributionPack {
+  const next: ContributionPack = structuredClone(pack);
+  const touched = new Set<ContributionQuestion>();
+  const byId = (id: string) => next.questions.filter((q) => q.id === id);
+  // Los arreglos de temas se calculan con el slug de asignatura original
+  const subjectRenames = new Map<string, string>();
+
+  for (const fix of fixes) {
+    switch (fix.kind) {
+      case 'renameSubject': {
+        const existing = next.targets.find((t) => t.subjectKey === fix.to);
+        const target = next.targets.find((t) => t.subjectKey === fix.from);
+        if (target && existing && existing !== target) {
+          // Ya había un target con ese slug: se unen sus temas
+          for (const topic of target.topics) {
+            if (!existing.topics.some((t) => t.topicKey === topic.topicKey)) existing.topics.push(topic);
+          }
+          next.targets = next.targets.filter((t) => t !== target);
+        } else if (target) {
+          target.subjectKey = fix.to;
+        }
+        for (const q of next.questions) {
+          if (q.subjectKey === fix.from) { q.subjectKey = fix.to; touched.add(q); }
+        }
+        subjectRenames.set(fix.from, fix.to);
+        break;
+      }
+      case 'renameTopic': {
+        const subjectKey = subjectRenames.get(fix.subjectKey) ?? fix.subjectKey;
+        const target = next.targets.find((t) => t.subjectKey === subjectKey);
+        if (target) {
+          const keep = target.topics.some((t) => t.topicKey === fix.to);
+          target.topics = keep
+            ? target.topics.filter((t) => t.topicKey !== fix.from)
+            : target.topics.map((t) => (t.topicKey === fix.from ? { ...t, topicKey: fix.to } : t));
+        }
+        for (const q of next.questions) {
+          if (q.subjectKey !== subjectKey) continue;
+          if (q.topicKey === fix.from) { q.topicKey = fix.to; touched.add(q); }
+          if (q.topicKeys?.includes(fix.from)) {
+            q.topicKeys = [...new Set(q.topicKeys.map((k) => (k === fix.from ? fix.to : k)))];
+            touched.add(q);
+          }
+        }
+        break;
+      }
+      case 'setCorrectOptionIds':
+        for (const q of byId(fix.questionId)) { q.correctOptionIds = fix.ids; touched.add(q); }
+        break;
+      case 'setBlanks':
+        for (const q of byId(fix.questionId)) { q.blanks = fix.blanks; touched.add(q); }
+        break;
+      case 'restoreLatexEscapes':
+        for (const q of byId(fix.questionId)) {
+          q.prompt = restoreLatexEscapes(q.prompt);
+          if (q.explanation) q.explanation = restoreLatexEscapes(q.explanation);
+          if (q.modelAnswer) q.modelAnswer = restoreLatexEscapes(q.modelAnswer);
+          if (q.clozeText) q.clozeText = restoreLatexEscapes(q.clozeText);
+          q.options = q.options?.map((o) => ({ ...o, text: restoreLatexEscapes(o.text) }));
+          touched.add(q);
+        }
+        break;
+    }
+  }
+
+  for (const q of touched) q.contentHash = undefined;
+  // La firma del contribuidor cubría el contenido original, no el corregido
+  delete next.signature;
+  return next;
+}
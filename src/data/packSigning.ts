@@ -0,0 +1,163 @@
+import { db, getSettings, saveSettings } from './db';
+import type {
+  ContributionPack,
+  PackSignature,
+  PackSignatureStatus,
+  SigningKeyRecord,
+  TrustedContributor,
+} from '@/domain/models';
+
+// ─── Signed contribution packs ────────────────────────────────────────────────
+//
+// Cada instalación genera un par de claves ECDSA P-256 con WebCrypto y lo
+// guarda en IndexedDB (la privada no es exportable). Al exportar, el pack se
+// puede firmar; al importar, la firma se comprueba contra el JSON canónico y
+// la huella de la clave se busca en los contribuidores de confianza.
+
+const KEY_ID = 'local';
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export interface PackVerification {
+  status: PackSignatureStatus;
+  signed: boolean;
+  fingerprint?: string;
+  publicKey?: string;
+  /** Alias con el que se guardó al contribuidor de confianza (puede no coincidir con createdBy). */
+  trustedAlias?: string;
+  /**
+   * El pack se corrigió localmente (auto-fix del lint) después de verificar el
+   * fichero original: el estado es el del original, no el del pack corregido.
+   */
+  modifiedLocally?: boolean;
+}
+
+function toBase64(buf: ArrayBuffer): string {
+  let binary = '';
+  for (const b of new Uint8Array(buf)) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(b64: string): ArrayBuffer {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+async function fingerprintOf(spki: ArrayBuffer): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', spki));
+  const hex = Array.from(hash.slice(0, 16), (b) => b.toString(16).padStart(2, '0')).join('');
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+/**
+ * JSON canónico: claves ordenadas, sin `signature` ni valores undefined.
+ * Es lo que se firma, así que tiene que coincidir byte a byte en ambos extremos.
+ */
+export function canonicalPackJson(pack: unknown): string {
+  const canon = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map((v) => (v === undefined ? null : canon(v)));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value)
+          .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+          .sort()
+          .map((k) => [k, canon((value as Record<string, unknown>)[k])])
+      );
+    }
+    return value;
+  };
+  const { signature: _signature, ...rest } = pack as Record<string, unknown>;
+  return JSON.stringify(canon(rest));
+}
+
+/** Par de claves local; se genera la primera vez que se necesita. */
+export async function getSigningKey(): Promise<SigningKeyRecord> {
+  const existing = await db.signingKeys.get(KEY_ID);
+  if (existing) return existing;
+
+  const pair = await crypto.subtle.generateKey(ALGORITHM, false, ['sign', 'verify']);
+  const spki = await crypto.subtle.exportKey('spki', pair.publicKey);
+  const record: SigningKeyRecord = {
+    id: KEY_ID,
+    publicKey: pair.publicKey,
+    privateKey: pair.privateKey,
+    publicKeySpki: toBase64(spki),
+    fingerprint: await fingerprintOf(spki),
+    createdAt: new Date().toISOString(),
+  };
+  await db.signingKeys.put(record);
+  return record;
+}
+
+/** Devuelve una copia del pack firmada con la clave local. */
+export async function signContributionPack(pack: ContributionPack): Promise<ContributionPack> {
+  const key = await getSigningKey();
+  const data = new TextEncoder().encode(canonicalPackJson(pack));
+  const sig = await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, data);
+  const signature: PackSignature = {
+    algorithm: 'ECDSA-P256-SHA256',
+    publicKey: key.publicKeySpki,
+    fingerprint: key.fingerprint,
+    value: toBase64(sig),
+    signedAt: new Date().toISOString(),
+  };
+  return { ...pack, signature };
+}
+
+/** Comprueba la firma del pack tal cual se leyó del fichero (sin pasar por zod). */
+export async function verifyContributionPack(raw: unknown): Promise<PackVerification> {
+  const signature = (raw as { signature?: PackSignature } | null)?.signature;
+  if (!signature) return { status: 'unknown', signed: false };
+
+  let fingerprint: string;
+  let valid: boolean;
+  try {
+    const spki = fromBase64(signature.publicKey);
+    fingerprint = await fingerprintOf(spki);
+    const publicKey = await crypto.subtle.importKey('spki', spki, ALGORITHM, false, ['verify']);
+    valid = await crypto.subtle.verify(
+      SIGN_PARAMS,
+      publicKey,
+      fromBase64(signature.value),
+      new TextEncoder().encode(canonicalPackJson(raw))
+    );
+  } catch {
+    // Clave o firma mal codificadas
+    return { status: 'tampered', signed: true };
+  }
+
+  // La huella declarada también tiene que ser la de la clave incluida
+  if (!valid || fingerprint !== signature.fingerprint) {
+    return { status: 'tampered', signed: true, fingerprint, publicKey: signature.publicKey };
+  }
+
+  const trusted = (await getSettings()).trustedContributors?.find((t) => t.fingerprint === fingerprint);
+  return {
+    status: trusted ? 'verified' : 'unknown',
+    signed: true,
+    fingerprint,
+    publicKey: signature.publicKey,
+    trustedAlias: trusted?.alias,
+  };
+}
+
+export async function trustContributor(alias: string, publicKey: string): Promise<TrustedContributor> {
+  const contributor: TrustedContributor = {
+    fingerprint: await fingerprintOf(fromBase64(publicKey)),
+    publicKey,
+    alias,
+    addedAt: new Date().toISOString(),
+  };
+  const current = (await getSettings()).trustedContributors ?? [];
+  await saveSettings({
+    trustedContributors: [...current.filter((t) => t.fingerprint !== contributor.fingerprint), contributor],
+  });
+  return contributor;
+}
+
+export async function untrustContributor(fingerprint: string): Promise<void> {
+  const current = (await getSettings()).trustedContributors ?? [];
+  await saveSettings({ trustedContributors: current.filter((t) => t.fingerprint !== fingerprint) });
+}
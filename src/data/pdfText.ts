@@ -0,0 +1,75 @@
+/**
+ * pdfText.ts
+ *
+ * Extrae el texto de la página del PDF a la que apunta cada pregunta
+ * (pdfAnchor), para poder buscar en él. El PDF es el del tema de la pregunta:
+ * primero el guardado en IndexedDB y, si no hay, el de resources/.
+ */
+
+import * as pdfjsLib from 'pdfjs-dist';
+import { db } from './db';
+import { getPdfBlobUrl } from './pdfStorage';
+import { getPdfUrl } from './resourceLoader';
+import type { Question, Subject, Topic } from '@/domain/models';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
+  'pdfjs-dist/build/pdf.worker.min.mjs',
+  import.meta.url,
+).href;
+
+/**
+ * Texto de la página anclada de cada pregunta (questionId → texto).
+ * Los PDFs que no se pueden abrir se omiten sin error.
+ */
+export async function loadAnchoredPdfTexts(
+  questions: Question[],
+  subjects: Subject[],
+  topics: Topic[]
+): Promise<Map<string, string>> {
+  const texts = new Map<string, string>();
+  const anchored = questions.filter((q) => q.pdfAnchorId);
+  if (anchored.length === 0) return texts;
+
+  const anchors = new Map(
+    (await db.pdfAnchors.bulkGet(anchored.map((q) => q.pdfAnchorId!)))
+      .filter((a) => !!a)
+      .map((a) => [a!.id, a!])
+  );
+
+  // Páginas que hay que leer, agrupadas por PDF (asignatura + fichero)
+  const pages = new Map<string, { subjectId: string; filename: string; byPage: Map<number, string[]> }>();
+  for (const q of anchored) {
+    const anchor = anchors.get(q.pdfAnchorId!);
+    const ids = [q.topicId, ...(q.topicIds ?? [])];
+    const topic = topics.find((t) => ids.includes(t.id) && t.pdfFilename);
+    if (!anchor || !topic) continue;
+    const key = `${q.subjectId}::${topic.pdfFilename}`;
+    let entry = pages.get(key);
+    if (!entry) pages.set(key, (entry = { subjectId: q.subjectId, filename: topic.pdfFilename!, byPage: new Map() }));
+    entry.byPage.set(anchor.page, [...(entry.byPage.get(anchor.page) ?? []), q.id]);
+  }
+
+  for (const { subjectId, filename, byPage } of pages.values()) {
+    const blobUrl = await getPdfBlobUrl(subjectId, filename);
+    const subject = subjects.find((s) => s.id === subjectId);
+    const url = blobUrl ?? (subject ? getPdfUrl(subject.name, filename) : null);
+    if (!url) continue;
+    let doc: pdfjsLib.PDFDocumentProxy | undefined;
+    try {
+      doc = await pdfjsLib.getDocument(url).promise;
+      for (const [page, questionIds] of byPage) {
+        if (page < 1 || page > doc.numPages) continue;
+        const content = await (await doc.getPage(page)).getTextContent();
+        const text = content.items.map((item) => ('str' in item ? item.str : '')).join(' ');
+        for (const id of questionIds) texts.set(id, text);
+      }
+    } catch (err) {
+      console.warn(`No se pudo leer ${filename}:`, err);
+    } finally {
+      // También si falla una página: el documento retiene su worker
+      if (doc) await doc.destroy();
+      if (blobUrl) URL.revokeObjectURL(blobUrl);
+    }
+  }
+  return texts;
+}
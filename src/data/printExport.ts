@@ -0,0 +1,223 @@
+/**
+ * printExport.ts
+ *
+ * Hojas de preguntas imprimibles (grupos de estudio, simulacros en papel).
+ * Genera un documento HTML autónomo: markdown + KaTeX vía renderMd (con la
+ * hoja de estilos de KaTeX del bundle incrustada, sin CDN), imágenes
+ * de questionImageStorage incrustadas como data URLs y, opcionalmente, varias
+ * copias con las opciones barajadas y un solucionario por copia al final.
+ *
+ * Para PDF se abre en una ventana nueva y se usa "Guardar como PDF" del
+ * diálogo de impresión del navegador.
+ */
+
+import katexCss from 'katex/dist/katex.min.css?inline';
+import type { Question } from '@/domain/models';
+import { renderMd } from '@/utils/renderMd';
+import { buildImageDataUrls } from './questionImageStorage';
+
+export interface PrintSection {
+  /** Encabezado de la sección (vacío = sin encabezado). */
+  name: string;
+  questions: Question[];
+}
+
+export interface PrintOptions {
+  title: string;
+  subtitle?: string;
+  /** Número de copias (A, B, C…). */
+  copies: number;
+  /** Baraja el orden de las opciones TEST en cada copia. */
+  shuffleOptions: boolean;
+  /** Añade un solucionario por copia al final. */
+  answerKey: boolean;
+  /** Incluye las explicaciones en el solucionario. */
+  explanations: boolean;
+}
+
+const COPY_LABELS = 'ABCDEFGHIJ';
+
+/** PRNG determinista (mulberry32): la misma copia baraja siempre igual. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+}
+
+const letter = (i: number) => String.fromCharCode(97 + i);
+
+/** Orden de opciones de una pregunta en una copia. */
+type OptionOrder = Map<string, Question['options']>;
+
+function questionHtml(q: Question, number: number, order: OptionOrder): string {
+  const parts: string[] = [`<li class="q" value="${number}">`];
+  if (q.type === 'COMPLETAR' && q.clozeText) {
+    if (q.prompt) parts.push(`<div class="prompt">${renderMd(q.prompt)}</div>`);
+    const blankNumber = new Map((q.blanks ?? []).map((b, i) => [b.id, i + 1]));
+    const cloze = q.clozeText.replace(/\{\{([^}]+)\}\}/g, (_m, id) => `<span class="blank">(${blankNumber.get(id) ?? '?'})</span>`);
+    parts.push(`<div class="prompt">${renderMd(cloze)}</div>`);
+  } else {
+    parts.push(`<div class="prompt">${renderMd(q.prompt)}</div>`);
+  }
+  for (const url of q.imageDataUrls ?? []) parts.push(`<img class="legacy" src="${url}" alt="">`);
+
+  if (q.type === 'TEST') {
+    const options = order.get(q.id) ?? q.options ?? [];
+    parts.push('<ol class="options" type="a">');
+    for (const o of options) parts.push(`<li>${renderMd(o.text)}</li>`);
+    parts.push('</ol>');
+  } else if (q.type === 'DESARROLLO' || q.type === 'PRACTICO') {
+    parts.push(`<div class="space ${q.type === 'PRACTICO' ? 'tall' : ''}"></div>`);
+  }
+  parts.push('</li>');
+  return parts.join('\n');
+}
+
+function answerHtml(q: Question, number: number, order: OptionOrder, explanations: boolean): string {
+  const parts: string[] = [`<li value="${number}">`];
+  if (q.type === 'TEST') {
+    const options = order.get(q.id) ?? q.options ?? [];
+    const correct = new Set(q.correctOptionIds ?? []);
+    const letters = options.flatMap((o, i) => (correct.has(o.id) ? [letter(i)] : []));
+    parts.push(`<strong>${letters.join(', ') || '—'}</strong>`);
+  } else if (q.type === 'COMPLETAR') {
+    const blanks = (q.blanks ?? []).map((b, i) => `(${i + 1}) ${escapeHtml(b.accepted[0] ?? '')}`);
+    parts.push(`<strong>${blanks.join(' · ')}</strong>`);
+  } else {
+    if (q.numericAnswer) parts.push(`<p><strong>Resultado:</strong> ${escapeHtml(q.numericAnswer)}</p>`);
+    if (q.modelAnswer) parts.push(`<div class="model">${renderMd(q.modelAnswer)}</div>`);
+    if (!q.numericAnswer && !q.modelAnswer) parts.push('<em>Sin respuesta modelo</em>');
+  }
+  if (explanations && q.explanation) parts.push(`<div class="explanation">${renderMd(q.explanation)}</div>`);
+  parts.push('</li>');
+  return parts.join('\n');
+}
+
+const STYLES = `
+  @page { margin: 18mm 16mm; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; color: #111; max-width: 180mm; margin: 0 auto; }
+  h1 { font-size: 16pt; margin: 0 0 2pt; }
+  h2 { font-size: 12.5pt; margin: 14pt 0 6pt; border-bottom: 1px solid #999; }
+  .meta { color: #555; font-size: 9.5pt; margin: 0 0 8pt; }
+  .student { display: flex; gap: 24pt; font-size: 10pt; margin-bottom: 10pt; }
+  .student span { flex: 1; border-bottom: 1px solid #333; padding-bottom: 2pt; }
+  .copy + .copy, .key { page-break-before: always; }
+  ol.questions { padding-left: 18pt; }
+  li.q { margin-bottom: 12pt; page-break-inside: avoid; }
+  .prompt p { margin: 0 0 4pt; }
+  ol.options { margin: 4pt 0 0; padding-left: 18pt; }
+  ol.options p { margin: 0; display: inline; }
+  .blank { display: inline-block; min-width: 60pt; border-bottom: 1px solid #333; text-align: right; font-size: 8pt; color: #666; }
+  .space { height: 28mm; border: 1px dashed #bbb; border-radius: 4pt; margin-top: 4pt; }
+  .space.tall { height: 45mm; }
+  img { max-width: 100%; max-height: 70mm; }
+  .key li { margin-bottom: 6pt; }
+  .model, .explanation { font-size: 10pt; }
+  .explanation { color: #444; border-left: 2px solid #ccc; padding-left: 6pt; margin-top: 2pt; }
+`;
+
+/** Sustituye las rutas question-images/… por data URLs (o URLs absolutas si no están en IndexedDB). */
+function inlineImages(html: string, images: Record<string, string>): string {
+  return html.replace(/src="(?:\.\/|\/)?question-images\/([^"]+)"/g, (_m, filename: string) => {
+    const src = images[filename] ?? new URL(`question-images/${filename}`, document.baseURI).href;
+    return `src="${src}"`;
+  });
+}
+
+/** Documento HTML completo listo para imprimir o descargar. */
+export async function buildPrintableHtml(sections: PrintSection[], options: PrintOptions): Promise<string> {
+  const all = sections.flatMap((s) => s.questions);
+  const copies = Math.max(1, Math.min(options.copies, COPY_LABELS.length));
+  const seed = Date.now();
+
+  const body: string[] = [];
+  const keys: string[] = [];
+  for (let c = 0; c < copies; c++) {
+    const random = seededRandom(seed + c);
+    const order: OptionOrder = new Map(
+      all.map((q) => [q.id, options.shuffleOptions ? shuffled(q.options ?? [], random) : q.options])
+    );
+    const label = copies > 1 ? `Copia ${COPY_LABELS[c]}` : '';
+    const meta = [options.subtitle, label, `${all.length} preguntas`].filter(Boolean).join(' · ');
+
+    body.push(`<section class="copy">`);
+    body.push(`<h1>${escapeHtml(options.title)}</h1><p class="meta">${escapeHtml(meta)}</p>`);
+    body.push('<div class="student"><span>Nombre:</span><span>Fecha:</span></div>');
+    let n = 1;
+    for (const section of sections) {
+      if (section.name) body.push(`<h2>${escapeHtml(section.name)}</h2>`);
+      body.push('<ol class="questions">');
+      for (const q of section.questions) body.push(questionHtml(q, n++, order));
+      body.push('</ol>');
+    }
+    body.push('</section>');
+
+    if (options.answerKey) {
+      keys.push(`<section class="key"><h1>Solucionario${label ? ` — ${label}` : ''}</h1>`);
+      let k = 1;
+      for (const section of sections) {
+        if (section.name) keys.push(`<h2>${escapeHtml(section.name)}</h2>`);
+        keys.push('<ol>');
+        for (const q of section.questions) keys.push(answerHtml(q, k++, order, options.explanations));
+        keys.push('</ol>');
+      }
+      keys.push('</section>');
+    }
+  }
+
+  const texts = all.flatMap((q) => [
+    q.prompt, q.clozeText ?? '', q.modelAnswer ?? '', q.explanation ?? '', ...(q.options ?? []).map((o) => o.text),
+  ]);
+  const images = await buildImageDataUrls(texts);
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(options.title)}</title>
+<style>${katexCss}</style>
+<style>${STYLES}</style>
+</head>
+<body>
+${inlineImages([...body, ...keys].join('\n'), images)}
+</body>
+</html>`;
+}
+
+/**
+ * Escribe el documento en una ventana ya abierta y lanza la impresión al cargar.
+ * La ventana se abre antes (en el click) para que el navegador no la bloquee.
+ */
+export function printHtml(win: Window, html: string): void {
+  win.document.open();
+  win.document.write(html.replace('</body>', '<script>window.addEventListener("load", () => window.print());</script>\n</body>'));
+  win.document.close();
+}
+
+export function downloadHtml(html: string, filename: string): void {
+  const blob = new Blob([html], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -88,6 +88,24 @@ export async function buildImageMap(texts: string[]): Promise<Record<string, str
   return map;
 }
 
+/**
+ * Como `buildImageMap`, pero con data URLs completas (`data:image/png;base64,…`)
+ * para incrustar las imágenes en documentos exportados.
+ */
+export async function buildImageDataUrls(texts: string[]): Promise<Record<string, string>> {
+  const filenames = new Set<string>();
+  for (const text of texts) {
+    if (text) extractImageFilenames(text).forEach((f) => filenames.add(f));
+  }
+
+  const map: Record<string, string> = {};
+  for (const filename of filenames) {
+    const record = await db.questionImages.get(filenameToId(filename));
+    if (record) map[filename] = await blobToDataUrl(record.blob);
+  }
+  return map;
+}
+
 /**
  * Importa imágenes desde un contribution pack (base64 map).
  * Guarda en IndexedDB + intenta dev server.
@@ -168,15 +186,19 @@ function filenameToId(filename: string): string {
   return filename.replace(/\.[^.]+$/, '');
 }
 
-function blobToBase64(blob: Blob): Promise<string> {
+function blobToDataUrl(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onload = () => resolve(reader.result as string);
     reader.onerror = () => reject(reader.error);
     reader.readAsDataURL(blob);
   });
 }
 
+async function blobToBase64(blob: Blob): Promise<string> {
+  return (await blobToDataUrl(blob)).split(',')[1];
+}
+
 function base64ToBlob(base64: string, mime: string): Blob {
   const bytes = atob(base64);
   const arr = new Uint8Array(bytes.length);
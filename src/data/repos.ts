@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import { db } from './db';
+import { db, getSettings } from './db';
 import type {
   Subject,
   Topic,
@@ -7,9 +7,17 @@ import type {
   PracticeSession,
   UserAnswer,
   QuestionStats,
+  RecallQuality,
+  ReviewLog,
+  SchedulerKind,
+  SavedDeck,
+  ExamBlueprint,
+  QuestionRevision,
+  RevisionSource,
 } from '@/domain/models';
 import { computeContentHash } from '@/domain/hashing';
 import { slugify } from '@/domain/normalize';
+import { REVISION_FIELDS, changedFields, questionContent } from '@/domain/revisions';
 
 const now = () => new Date().toISOString();
 
@@ -35,14 +43,67 @@ export const subjectRepo = {
   async update(id: string, data: Partial<Subject>): Promise<void> {
     await db.subjects.update(id, { ...data, updatedAt: now() });
   },
+  /**
+   * Cambia el algoritmo de repaso. Al pasar a FSRS siembra el estado
+   * estabilidad/dificultad de cada pregunta desde su historial SM-2.
+   */
+  async setScheduler(id: string, scheduler: SchedulerKind): Promise<void> {
+    const { seedFsrsState } = await import('@/domain/spacedRepetition');
+    await db.transaction('rw', db.subjects, db.questions, async () => {
+      await db.subjects.update(id, { scheduler, updatedAt: now() });
+      if (scheduler !== 'fsrs') return;
+      await db.questions
+        .where('subjectId')
+        .equals(id)
+        .modify((q) => {
+          const fsrs = seedFsrsState(q.stats);
+          if (fsrs) q.stats.fsrs = fsrs;
+        });
+    });
+  },
+  /**
+   * Fecha de examen efectiva: `examDate` si sigue vigente; si no, la del próximo
+   * deliverable de tipo 'exam' (la fuente que usa el calendario).
+   */
+  async getExamDate(id: string): Promise<string | undefined> {
+    const today = new Date().toISOString().split('T')[0];
+    const subject = await db.subjects.get(id);
+    if (subject?.examDate && subject.examDate >= today) return subject.examDate;
+    const exams = await db.deliverables
+      .where('subjectId')
+      .equals(id)
+      .filter((d) => d.type === 'exam' && !!d.dueDate && d.dueDate >= today)
+      .toArray();
+    return exams.map((d) => d.dueDate!).sort()[0];
+  },
   async delete(id: string): Promise<void> {
-    // Cascade delete topics, questions, sessions
-    const topicIds = await db.topics.where('subjectId').equals(id).primaryKeys();
+    // Cascade delete topics, questions, sessions.
+    // Question ids are read before deleting: mixed sessions need them below.
+    const questionIds = new Set(await db.questions.where('subjectId').equals(id).primaryKeys());
     await db.topics.where('subjectId').equals(id).delete();
-    if (topicIds.length > 0) {
-      await db.questions.where('subjectId').equals(id).delete();
+    await db.questionRevisions.where('questionId').anyOf([...questionIds]).delete();
+    await db.questions.bulkDelete([...questionIds]);
+    // Mixed sessions survive without this subject's questions
+    const mixed = await db.sessions.where('subjectIds').equals(id).toArray();
+    for (const s of mixed) {
+      const subjectIds = s.subjectIds!.filter((sid) => sid !== id);
+      const remaining = s.questionIds.filter((qid) => !questionIds.has(qid));
+      if (remaining.length === 0) {
+        await db.sessions.delete(s.id);
+        continue;
+      }
+      await db.sessions.update(s.id, {
+        subjectId: subjectIds[0],
+        // Con una sola asignatura deja de ser mixta (como en sessionRepo.create)
+        subjectIds: subjectIds.length > 1 ? subjectIds : undefined,
+        questionIds: remaining,
+        answers: s.answers.filter((a) => !questionIds.has(a.questionId)),
+      });
     }
     await db.sessions.where('subjectId').equals(id).delete();
+    await db.reviewLogs.where('subjectId').equals(id).delete();
+    await db.decks.where('subjectId').equals(id).delete();
+    await db.examBlueprints.where('subjectId').equals(id).delete();
     await db.pdfAnchors.where('subjectId').equals(id).delete();
     await db.pdfResources.where('subjectId').equals(id).delete();
     await db.subjects.delete(id);
@@ -72,6 +133,9 @@ export const topicRepo = {
     await db.topics.update(id, { ...data, updatedAt: now() });
   },
   async delete(id: string): Promise<void> {
+    const questionIds = await db.questions.where('topicId').equals(id).primaryKeys();
+    await db.reviewLogs.where('questionId').anyOf(questionIds).delete();
+    await db.questionRevisions.where('questionId').anyOf(questionIds).delete();
     await db.questions.where('topicId').equals(id).delete();
     await db.topics.delete(id);
   },
@@ -118,12 +182,44 @@ export const questionRepo = {
       updatedAt: now(),
     };
     await db.questions.add(question);
+    await revisionRepo.record(question, { kind: 'create' }, question.createdAt);
     return question;
   },
-  async update(id: string, data: Partial<Question>): Promise<void> {
+  /**
+   * Actualiza una pregunta. Si cambia el contenido (ver `REVISION_FIELDS`) se
+   * añade una revisión con el origen del cambio; stats, notas o estrella no
+   * generan historial.
+   */
+  async update(id: string, data: Partial<Question>, source: RevisionSource = { kind: 'edit' }): Promise<void> {
+    const before = await db.questions.get(id);
     await db.questions.update(id, { ...data, updatedAt: now() });
+    if (!before) return;
+    const after = { ...before, ...data };
+    if (changedFields(before, after).length === 0) return;
+    // Preguntas anteriores al historial: se guarda su estado previo como base
+    if ((await db.questionRevisions.where('questionId').equals(id).count()) === 0) {
+      await revisionRepo.record(before, { kind: 'initial' }, before.updatedAt);
+    }
+    await revisionRepo.record(after, source);
+  },
+  /**
+   * Restaura el contenido de una revisión. Stats, notas y estrella se
+   * conservan; la restauración queda a su vez como una revisión nueva.
+   */
+  async revert(id: string, revisionId: string): Promise<Question | undefined> {
+    const revision = await db.questionRevisions.get(revisionId);
+    if (!revision || revision.questionId !== id) throw new Error('Revision not found');
+    const data: Partial<Question> = {};
+    for (const field of REVISION_FIELDS) {
+      (data as Record<string, unknown>)[field] = revision.content[field];
+    }
+    if (revision.contentHash) data.contentHash = revision.contentHash;
+    await questionRepo.update(id, data, { kind: 'revert', revisionId });
+    return db.questions.get(id);
   },
   async delete(id: string): Promise<void> {
+    await db.reviewLogs.where('questionId').equals(id).delete();
+    await db.questionRevisions.where('questionId').equals(id).delete();
     await db.questions.delete(id);
   },
   async duplicate(id: string): Promise<Question> {
@@ -139,23 +235,132 @@ export const questionRepo = {
     await db.questions.add(copy);
     return copy;
   },
+  /**
+   * Registra un repaso. `quality` es la nota graduada (0–5); si se omite se
+   * deriva de `result` (CORRECT → Bien, WRONG → Otra vez).
+   * Cada llamada añade una entrada a `reviewLogs` con el estado antes/después.
+   * Con `responseMs`, un acierto más lento que el objetivo del tipo de pregunta
+   * se programa un escalón por debajo (ver `timeAdjustedQuality`).
+   * Al alcanzar el umbral de fallos seguidos la pregunta se suspende (sanguijuela).
+   */
   async updateStats(
     id: string,
-    result: 'CORRECT' | 'WRONG'
+    result: 'CORRECT' | 'WRONG',
+    quality?: RecallQuality,
+    context: { sessionId?: string; responseMs?: number } = {}
   ): Promise<void> {
     const q = await db.questions.get(id);
     if (!q) return;
-    const { calcNextReview } = await import('@/domain/spacedRepetition');
-    const sm2 = calcNextReview(q.stats, result);
+    const { scheduleReview, qualityFromResult, DEFAULT_EXAM_MIN_REVIEWS } = await import('@/domain/spacedRepetition');
+    const subject = await db.subjects.get(q.subjectId);
+    const examDate = await subjectRepo.getExamDate(q.subjectId);
+    const settings = await getSettings();
+    const exam = examDate
+      ? { examDate, minReviews: settings.examMinReviews ?? DEFAULT_EXAM_MIN_REVIEWS }
+      : undefined;
+    const { timeAdjustedQuality } = await import('@/domain/responseTime');
+    const { becomesLeech, nextLapses, DEFAULT_LEECH_THRESHOLD } = await import('@/domain/leech');
+    const grade = timeAdjustedQuality(quality ?? qualityFromResult(result), q.type, context.responseMs);
+    const schedule = scheduleReview(q.stats, grade, subject?.scheduler, exam);
     const stats: QuestionStats = {
+      ...q.stats,
       seen: q.stats.seen + 1,
       correct: q.stats.correct + (result === 'CORRECT' ? 1 : 0),
       wrong: q.stats.wrong + (result === 'WRONG' ? 1 : 0),
       lastSeenAt: now(),
       lastResult: result,
-      ...sm2,
+      lastQuality: grade,
+      lapsesSinceSuccess: nextLapses(q.stats, result),
+      ...schedule,
+    };
+    const autoSuspend =
+      !q.suspended &&
+      settings.leechAutoSuspend !== false &&
+      becomesLeech(q.stats, stats, settings.leechThreshold ?? DEFAULT_LEECH_THRESHOLD);
+    const log: ReviewLog = {
+      id: uuidv4(),
+      questionId: id,
+      subjectId: q.subjectId,
+      sessionId: context.sessionId,
+      reviewedAt: stats.lastSeenAt!,
+      result,
+      quality: grade,
+      responseMs: context.responseMs,
+      scheduler: subject?.scheduler ?? 'sm2',
+      intervalBefore: q.stats.interval,
+      intervalAfter: stats.interval,
+      easeBefore: q.stats.easeFactor,
+      easeAfter: stats.easeFactor,
+      statsBefore: q.stats,
+      autoSuspended: autoSuspend || undefined,
+    };
+    await db.transaction('rw', db.questions, db.reviewLogs, async () => {
+      await db.questions.update(id, { stats, ...(autoSuspend ? { suspended: true } : {}), updatedAt: now() });
+      await db.reviewLogs.add(log);
+    });
+  },
+  /**
+   * Deshace el repaso registrado para la pregunta en `sessionId`: restaura las
+   * estadísticas previas y borra la entrada del log. Solo es posible si es el
+   * último repaso de la pregunta y guarda `statsBefore`.
+   * Devuelve false si hay un repaso de la sesión que no se puede deshacer
+   * (true también cuando no había nada que deshacer).
+   */
+  async undoReview(id: string, sessionId: string): Promise<boolean> {
+    const logs = await reviewLogRepo.getByQuestion(id);
+    if (!logs.some((l) => l.sessionId === sessionId)) return true;
+    const last = logs[logs.length - 1];
+    if (last.sessionId !== sessionId || !last.statsBefore) return false;
+    await db.transaction('rw', db.questions, db.reviewLogs, async () => {
+      await db.questions.update(id, {
+        stats: last.statsBefore!,
+        ...(last.autoSuspended ? { suspended: false } : {}),
+        updatedAt: now(),
+      });
+      await db.reviewLogs.delete(last.id);
+    });
+    return true;
+  },
+  /**
+   * Corrige el resultado de un repaso ya registrado en `sessionId` (p. ej. un
+   * sinónimo no aceptado en COMPLETAR).
+   * - Si es el último repaso de la pregunta, se deshace y se vuelve a programar
+   *   con el nuevo resultado.
+   * - Si hubo repasos posteriores, la programación ya depende de ellos: solo se
+   *   corrigen los contadores de aciertos/fallos y la entrada del log.
+   * - Sin repaso registrado (p. ej. pendiente de nota o saltada), se registra ahora.
+   */
+  async correctReview(
+    id: string,
+    sessionId: string,
+    result: 'CORRECT' | 'WRONG',
+    quality: RecallQuality,
+    responseMs?: number
+  ): Promise<void> {
+    if (await questionRepo.undoReview(id, sessionId)) {
+      await questionRepo.updateStats(id, result, quality, { sessionId, responseMs });
+      return;
+    }
+    const logs = await reviewLogRepo.getByQuestion(id);
+    const log = logs.filter((l) => l.sessionId === sessionId).pop()!;
+    const q = await db.questions.get(id);
+    if (!q) return;
+    if (log.result === result) {
+      await db.reviewLogs.update(log.id, { quality });
+      return;
+    }
+    const delta = result === 'CORRECT' ? 1 : -1;
+    const isLast = logs[logs.length - 1].id === log.id;
+    const stats: QuestionStats = {
+      ...q.stats,
+      correct: Math.max(0, q.stats.correct + delta),
+      wrong: Math.max(0, q.stats.wrong - delta),
+      ...(isLast ? { lastResult: result, lastQuality: quality } : {}),
     };
-    await db.questions.update(id, { stats, updatedAt: now() });
+    await db.transaction('rw', db.questions, db.reviewLogs, async () => {
+      await db.questions.update(id, { stats, updatedAt: now() });
+      await db.reviewLogs.update(log.id, { result, quality });
+    });
   },
   async existsByHash(contentHash: string, subjectId: string): Promise<boolean> {
     const count = await db.questions
@@ -167,22 +372,72 @@ export const questionRepo = {
   },
 };
 
+// ─── Review logs ──────────────────────────────────────────────────────────────
+
+export const reviewLogRepo = {
+  async getByQuestion(questionId: string): Promise<ReviewLog[]> {
+    return db.reviewLogs.where('questionId').equals(questionId).sortBy('reviewedAt');
+  },
+  async getBySubject(subjectId: string): Promise<ReviewLog[]> {
+    return db.reviewLogs.where('subjectId').equals(subjectId).sortBy('reviewedAt');
+  },
+  async getBySession(sessionId: string): Promise<ReviewLog[]> {
+    return db.reviewLogs.where('sessionId').equals(sessionId).sortBy('reviewedAt');
+  },
+  async getSince(isoTimestamp: string): Promise<ReviewLog[]> {
+    return db.reviewLogs.where('reviewedAt').aboveOrEqual(isoTimestamp).toArray();
+  },
+};
+
+// ─── Question revisions ───────────────────────────────────────────────────────
+
+export const revisionRepo = {
+  /** Historial de una pregunta, de la más reciente a la más antigua. */
+  async getByQuestion(questionId: string): Promise<QuestionRevision[]> {
+    const revisions = await db.questionRevisions.where('questionId').equals(questionId).sortBy('createdAt');
+    return revisions.reverse();
+  },
+  /** Guarda el contenido actual de `question` como revisión nueva. */
+  async record(question: Question, source: RevisionSource, createdAt = now()): Promise<QuestionRevision> {
+    const previous = await db.questionRevisions.where('questionId').equals(question.id).sortBy('createdAt');
+    const last = previous[previous.length - 1];
+    const revision: QuestionRevision = {
+      id: uuidv4(),
+      questionId: question.id,
+      createdAt,
+      author: (await getSettings()).alias || undefined,
+      source,
+      content: questionContent(question),
+      changedFields: last ? changedFields(last.content, question) : [],
+      contentHash: question.contentHash,
+    };
+    await db.questionRevisions.add(revision);
+    return revision;
+  },
+};
+
 // ─── Sessions ─────────────────────────────────────────────────────────────────
 
 export const sessionRepo = {
+  /** Sessions of a subject, including mixed sessions that contain it. Newest first. */
   async getBySubject(subjectId: string): Promise<PracticeSession[]> {
-    return db.sessions
-      .where('subjectId')
-      .equals(subjectId)
-      .reverse()
-      .sortBy('createdAt');
+    const [own, mixed] = await Promise.all([
+      db.sessions.where('subjectId').equals(subjectId).toArray(),
+      db.sessions.where('subjectIds').equals(subjectId).toArray(),
+    ]);
+    const byId = new Map([...own, ...mixed].map((s) => [s.id, s]));
+    return [...byId.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   },
   async getById(id: string): Promise<PracticeSession | undefined> {
     return db.sessions.get(id);
   },
+  /** With more than one `subjectIds` the session is mixed and `subjectId` is the first of them. */
   async create(data: Omit<PracticeSession, 'id' | 'createdAt' | 'answers'>): Promise<PracticeSession> {
+    const subjectIds = data.subjectIds && data.subjectIds.length > 1 ? data.subjectIds : undefined;
     const session: PracticeSession = {
       ...data,
+      subjectId: subjectIds ? subjectIds[0] : data.subjectId,
+      subjectIds,
       id: uuidv4(),
       answers: [],
       createdAt: now(),
@@ -202,6 +457,15 @@ export const sessionRepo = {
   async delete(id: string): Promise<void> {
     await db.sessions.delete(id);
   },
+  /** Quita la respuesta de una pregunta (deshacer). Devuelve la respuesta eliminada. */
+  async removeAnswer(sessionId: string, questionId: string): Promise<UserAnswer | undefined> {
+    const session = await db.sessions.get(sessionId);
+    const removed = session?.answers.find((a) => a.questionId === questionId);
+    if (!session || !removed) return undefined;
+    const answers = session.answers.filter((a) => a.questionId !== questionId);
+    await db.sessions.update(sessionId, { answers });
+    return removed;
+  },
   async updateAnswer(sessionId: string, questionId: string, patch: Partial<UserAnswer>): Promise<void> {
     const session = await db.sessions.get(sessionId);
     if (!session) return;
@@ -211,3 +475,50 @@ export const sessionRepo = {
     await db.sessions.update(sessionId, { answers });
   },
 };
+
+// ─── Saved decks ──────────────────────────────────────────────────────────────
+
+export const deckRepo = {
+  async getBySubject(subjectId: string): Promise<SavedDeck[]> {
+    return db.decks.where('subjectId').equals(subjectId).sortBy('createdAt');
+  },
+  async getAll(): Promise<SavedDeck[]> {
+    return db.decks.orderBy('createdAt').toArray();
+  },
+  async getById(id: string): Promise<SavedDeck | undefined> {
+    return db.decks.get(id);
+  },
+  async create(data: Omit<SavedDeck, 'id' | 'createdAt' | 'updatedAt'>): Promise<SavedDeck> {
+    const deck: SavedDeck = { ...data, id: uuidv4(), createdAt: now(), updatedAt: now() };
+    await db.decks.add(deck);
+    return deck;
+  },
+  async update(id: string, data: Partial<SavedDeck>): Promise<void> {
+    await db.decks.update(id, { ...data, updatedAt: now() });
+  },
+  async delete(id: string): Promise<void> {
+    await db.decks.delete(id);
+  },
+};
+
+// ─── Exam blueprints ──────────────────────────────────────────────────────────
+
+export const blueprintRepo = {
+  async getBySubject(subjectId: string): Promise<ExamBlueprint[]> {
+    return db.examBlueprints.where('subjectId').equals(subjectId).sortBy('createdAt');
+  },
+  async getById(id: string): Promise<ExamBlueprint | undefined> {
+    return db.examBlueprints.get(id);
+  },
+  async create(data: Omit<ExamBlueprint, 'id' | 'createdAt' | 'updatedAt'>): Promise<ExamBlueprint> {
+    const blueprint: ExamBlueprint = { ...data, id: uuidv4(), createdAt: now(), updatedAt: now() };
+    await db.examBlueprints.add(blueprint);
+    return blueprint;
+  },
+  async update(id: string, data: Partial<ExamBlueprint>): Promise<void> {
+    await db.examBlueprints.update(id, { ...data, updatedAt: now() });
+  },
+  async delete(id: string): Promise<void> {
+    await db.examBlueprints.delete(id);
+  },
+};
@@ -0,0 +1,423 @@
+import type { ClozeBlank, DifficultyLevel, Question, QuestionOrigin, QuestionType, Topic } from './models';
+import { normalizeText } from './normalize';
+import { DEFAULT_CLOZE_PROMPT } from './clozeMatch';
+
+/*
+ * Plain-text bulk authoring format:
+ *
+ *   ---
+ *   topic: Tema 2. Cinemática
+ *   difficulty: 3
+ *   origin: clase
+ *   tags: mru, vectores
+ *   ---
+ *
+ *   ## [test] ¿Unidad de fuerza en el SI?
+ *   - [x] Newton
+ *   - [ ] Julio
+ *   > 1 N = 1 kg·m/s².
+ *
+ *   ## [completar]
+ *   La gravedad vale {{9,8|9.8}} m/s² en {{la Tierra~1}}.
+ *
+ *   ## [desarrollo] Enuncia la primera ley de Newton.
+ *   ### Respuesta
+ *   Todo cuerpo permanece en reposo…
+ *
+ *   ## [practico] Un coche pasa de 0 a 100 km/h en 10 s. ¿Aceleración?
+ *   = 2,78 m/s² ± 0,05
+ *
+ * A front-matter block sets the defaults for every question after it (it can
+ * be repeated between questions). The `[type]` tag is optional: options mean
+ * TEST, `{{…}}` blanks COMPLETAR, a `=` result PRACTICO, anything else
+ * DESARROLLO. `{{a|b~1}}` accepts "a" or "b" with up to 1 typo. Body lines
+ * that would read as syntax can be escaped with a leading backslash.
+ * `<!-- id: … -->` ties a question to an existing one so an exported file can
+ * be edited and saved back.
+ */
+
+export type BulkQuestionData = Pick<
+  Question,
+  | 'type' | 'prompt' | 'explanation' | 'difficulty' | 'tags' | 'origin'
+  | 'options' | 'correctOptionIds' | 'modelAnswer'
+  | 'numericAnswer' | 'numericAbsTolerance' | 'numericRelTolerance'
+  | 'clozeText' | 'blanks'
+>;
+
+export interface BulkDraft {
+  /** 1-based line of the `##` header. */
+  line: number;
+  /** Existing question to update (from `<!-- id: … -->`). */
+  id?: string;
+  topicId: string;
+  data: BulkQuestionData;
+}
+
+export interface BulkError {
+  line: number;
+  message: string;
+}
+
+export interface BulkParseResult {
+  drafts: BulkDraft[];
+  errors: BulkError[];
+}
+
+const TYPE_TAGS: Record<string, QuestionType> = {
+  test: 'TEST',
+  desarrollo: 'DESARROLLO',
+  completar: 'COMPLETAR',
+  practico: 'PRACTICO',
+};
+
+const ORIGINS: Record<string, QuestionOrigin> = {
+  test: 'test',
+  examen_anterior: 'examen_anterior',
+  'examen anterior': 'examen_anterior',
+  clase: 'clase',
+  alumno: 'alumno',
+};
+
+const META_KEYS: Record<string, 'topic' | 'difficulty' | 'origin' | 'tags'> = {
+  topic: 'topic', tema: 'topic',
+  difficulty: 'difficulty', dificultad: 'difficulty',
+  origin: 'origin', origen: 'origin',
+  tags: 'tags', etiquetas: 'tags',
+};
+
+const HEADER = /^##(?!#)\s*(?:\[([^\]]*)\])?\s*(.*)$/;
+const OPTION = /^[-*]\s+\[( |x|X)\]\s+(.*)$/;
+const RESULT = /^=\s*(.+?)(?:\s*(?:±|\+-|\+\/-)\s*([\d.,]+)\s*(%)?)?\s*$/;
+const ANSWER_HEADER = /^###\s*respuesta\s*$/i;
+const ID_COMMENT = /^<!--\s*id:\s*([^\s]+)\s*-->$/;
+const META_LINE = /^([A-Za-zÀ-ÿ_]+)\s*:\s*(.*)$/;
+
+interface Meta {
+  topicId: string;
+  difficulty?: DifficultyLevel;
+  origin?: QuestionOrigin;
+  tags?: string[];
+}
+
+function parseNumber(raw: string): number {
+  return parseFloat(raw.replace(',', '.'));
+}
+
+/** `a|b~1` → accepted answers and max edits. A `/regex/` is never split on `|`. */
+function parseBlank(raw: string): Omit<ClozeBlank, 'id'> {
+  const m = /^([\s\S]*?)(?:~(\d+))?$/.exec(raw.trim())!;
+  const body = m[1].trim();
+  const accepted = /^\/.+\/[a-z]*$/s.test(body) ? [body] : body.split('|').map((a) => a.trim()).filter(Boolean);
+  return { accepted, maxEdits: m[2] != null ? parseInt(m[2], 10) : undefined };
+}
+
+/** Blanks written inline (`{{a|b}}`) → clozeText with ids + ClozeBlank list. */
+function parseCloze(text: string): { clozeText: string; blanks: ClozeBlank[] } {
+  const blanks: ClozeBlank[] = [];
+  const used = new Set<string>();
+  const clozeText = text.replace(/\{\{([^}]+)\}\}/g, (_m, raw: string) => {
+    const blank = parseBlank(raw);
+    let id = blank.accepted[0] ?? `hueco${blanks.length + 1}`;
+    for (let k = 2; used.has(id); k++) id = `${blank.accepted[0]}_${k}`;
+    used.add(id);
+    blanks.push({ id, ...blank });
+    return `{{${id}}}`;
+  });
+  return { clozeText, blanks };
+}
+
+function unescapeLine(line: string): string {
+  return line.startsWith('\\') ? line.slice(1) : line;
+}
+
+interface RawQuestion {
+  line: number;
+  typeTag?: string;
+  header: string;
+  body: string[];
+  options: { text: string; correct: boolean; line: number }[];
+  explanation: string[];
+  answer: string[] | null;
+  result?: { value: string; tolerance?: number; relative: boolean; line: number };
+  id?: string;
+  meta: Meta;
+}
+
+function buildQuestion(raw: RawQuestion, errors: BulkError[]): BulkDraft | null {
+  const fail = (message: string, line = raw.line) => { errors.push({ line, message }); return null; };
+
+  let type: QuestionType | undefined;
+  if (raw.typeTag != null) {
+    type = TYPE_TAGS[normalizeText(raw.typeTag)];
+    if (!type) return fail(`Tipo desconocido «${raw.typeTag}» (usa test, desarrollo, completar o practico)`);
+  }
+  const bodyText = raw.body.join('\n').trim();
+  const allText = [raw.header, bodyText].filter(Boolean).join('\n');
+  type ??= raw.options.length > 0 ? 'TEST'
+    : /\{\{[^}]+\}\}/.test(allText) ? 'COMPLETAR'
+    : raw.result ? 'PRACTICO'
+    : 'DESARROLLO';
+
+  if (!raw.meta.topicId) return fail('Falta el tema: añade «topic:» en un bloque de cabecera (---)');
+  if (type !== 'TEST' && raw.options.length > 0) return fail('Solo las preguntas de test llevan opciones', raw.options[0].line);
+  if (type !== 'PRACTICO' && raw.result) return fail('Solo las preguntas prácticas llevan resultado (=)', raw.result.line);
+
+  const data: BulkQuestionData = {
+    type,
+    prompt: allText,
+    explanation: raw.explanation.join('\n').trim() || undefined,
+    difficulty: raw.meta.difficulty,
+    tags: raw.meta.tags,
+    origin: raw.meta.origin,
+    options: undefined,
+    correctOptionIds: undefined,
+    modelAnswer: raw.answer ? raw.answer.join('\n').trim() || undefined : undefined,
+    numericAnswer: undefined,
+    numericAbsTolerance: undefined,
+    numericRelTolerance: undefined,
+    clozeText: undefined,
+    blanks: undefined,
+  };
+
+  if (type === 'TEST') {
+    if (raw.options.length < 2) return fail('Una pregunta de test necesita al menos dos opciones (- [ ] …)');
+    if (!raw.options.some((o) => o.correct)) return fail('Marca al menos una opción correcta con - [x]');
+    // Positional placeholder ids; the editor swaps them for real ones when saving
+    data.options = raw.options.map((o, i) => ({ id: `o${i + 1}`, text: o.text }));
+    data.correctOptionIds = raw.options.flatMap((o, i) => (o.correct ? [`o${i + 1}`] : []));
+    if (!data.prompt) return fail('Falta el enunciado');
+  } else if (type === 'COMPLETAR') {
+    // The blanks live in the body; without a body, in the header line
+    const source = bodyText || raw.header;
+    const { clozeText, blanks } = parseCloze(source);
+    if (blanks.length === 0) return fail('Una pregunta de completar necesita al menos un hueco {{…}}');
+    if (blanks.some((b) => b.accepted.length === 0)) return fail('Hay un hueco vacío {{}}');
+    data.clozeText = clozeText;
+    data.blanks = blanks;
+    data.prompt = (bodyText ? raw.header : '') || DEFAULT_CLOZE_PROMPT;
+  } else if (type === 'PRACTICO') {
+    if (!raw.result && !data.modelAnswer) return fail('Una pregunta práctica necesita un resultado (= …) o una respuesta (### Respuesta)');
+    if (raw.result) {
+      data.numericAnswer = raw.result.value;
+      if (raw.result.tolerance != null) {
+        if (raw.result.relative) data.numericRelTolerance = raw.result.tolerance / 100;
+        else data.numericAbsTolerance = raw.result.tolerance;
+      }
+    }
+    if (!data.prompt) return fail('Falta el enunciado');
+  } else if (!data.prompt) {
+    return fail('Falta el enunciado');
+  }
+
+  return { line: raw.line, id: raw.id, topicId: raw.meta.topicId, data };
+}
+
+export interface BulkParseOptions {
+  topics: Pick<Topic, 'id' | 'title'>[];
+  /** Topic for questions before any `topic:` line. */
+  defaultTopicId?: string;
+}
+
+export function parseBulkText(text: string, options: BulkParseOptions): BulkParseResult {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const drafts: BulkDraft[] = [];
+  const errors: BulkError[] = [];
+  const topicByTitle = new Map(options.topics.map((t) => [normalizeText(t.title), t.id]));
+
+  let meta: Meta = { topicId: options.defaultTopicId ?? '' };
+  let current: RawQuestion | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const draft = buildQuestion(current, errors);
+    if (draft) drafts.push(draft);
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Front matter: `---` followed by `key: value` lines (a plain `---` inside a question is a rule)
+    if (trimmed === '---' && (current === null || META_LINE.test(lines[i + 1]?.trim() ?? ''))) {
+      flush();
+      const next: Meta = { ...meta };
+      let j = i + 1;
+      for (; j < lines.length && lines[j].trim() !== '---'; j++) {
+        const entry = lines[j].trim();
+        if (!entry || entry.startsWith('#')) continue;
+        const m = META_LINE.exec(entry);
+        const key = m ? META_KEYS[normalizeText(m[1])] : undefined;
+        if (!m || !key) { errors.push({ line: j + 1, message: `Clave de cabecera no reconocida: «${entry}»` }); continue; }
+        const value = m[2].trim();
+        if (key === 'topic') {
+          const topicId = topicByTitle.get(normalizeText(value));
+          if (topicId) next.topicId = topicId;
+          else errors.push({ line: j + 1, message: `No existe el tema «${value}» en esta asignatura` });
+        } else if (key === 'difficulty') {
+          const d = parseInt(value, 10);
+          if (!value) next.difficulty = undefined;
+          else if (d >= 1 && d <= 5 && String(d) === value) next.difficulty = d as DifficultyLevel;
+          else errors.push({ line: j + 1, message: `Dificultad no válida «${value}» (1–5)` });
+        } else if (key === 'origin') {
+          const origin = ORIGINS[normalizeText(value)];
+          if (!value) next.origin = undefined;
+          else if (origin) next.origin = origin;
+          else errors.push({ line: j + 1, message: `Origen no válido «${value}» (test, examen_anterior, clase, alumno)` });
+        } else {
+          const tags = value.split(',').map((t) => t.trim()).filter(Boolean);
+          next.tags = tags.length > 0 ? tags : undefined;
+        }
+      }
+      if (j >= lines.length) errors.push({ line: lineNo, message: 'Bloque de cabecera sin cerrar (falta ---)' });
+      meta = next;
+      i = j;
+      continue;
+    }
+
+    const header = HEADER.exec(line);
+    if (header) {
+      flush();
+      current = {
+        line: lineNo,
+        typeTag: header[1]?.trim(),
+        header: header[2].trim(),
+        body: [],
+        options: [],
+        explanation: [],
+        answer: null,
+        meta,
+      };
+      continue;
+    }
+
+    if (!current) {
+      if (trimmed) errors.push({ line: lineNo, message: 'Texto fuera de una pregunta: empieza cada pregunta con «## »' });
+      continue;
+    }
+    const q: RawQuestion = current;
+
+    const id = ID_COMMENT.exec(trimmed);
+    if (id) { q.id = id[1]; continue; }
+
+    if (line.startsWith('>')) {
+      q.explanation.push(line.replace(/^>\s?/, ''));
+      continue;
+    }
+    if (ANSWER_HEADER.test(trimmed)) {
+      if (q.answer) errors.push({ line: lineNo, message: 'Respuesta repetida' });
+      q.answer = [];
+      continue;
+    }
+    if (q.answer) {
+      q.answer.push(unescapeLine(line));
+      continue;
+    }
+
+    const option = OPTION.exec(trimmed);
+    if (option) {
+      q.options.push({ text: option[2].trim(), correct: option[1] !== ' ', line: lineNo });
+      continue;
+    }
+    const result = RESULT.exec(trimmed);
+    if (result) {
+      if (q.result) errors.push({ line: lineNo, message: 'Resultado repetido: separa varios resultados con «;»' });
+      q.result = {
+        value: result[1].trim(),
+        tolerance: result[2] != null ? parseNumber(result[2]) : undefined,
+        relative: result[3] === '%',
+        line: lineNo,
+      };
+      continue;
+    }
+    q.body.push(unescapeLine(line));
+  }
+  flush();
+
+  errors.sort((a, b) => a.line - b.line);
+  return { drafts, errors };
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+const SYNTAX_START = /^(##|>|=|[-*]\s+\[[ xX]\]|<!--|---|\\)/;
+
+function escapeBody(text: string): string[] {
+  return text.split('\n').map((line) => (SYNTAX_START.test(line.trim()) ? `\\${line}` : line));
+}
+
+/** Every key is written, empty when unset: front matter carries over to later blocks. */
+function metaBlock(meta: Meta, topicTitle: string): string[] {
+  return [
+    '---',
+    `topic: ${topicTitle}`,
+    `difficulty: ${meta.difficulty ?? ''}`,
+    `origin: ${meta.origin ?? ''}`,
+    `tags: ${(meta.tags ?? []).join(', ')}`,
+    '---',
+    '',
+  ].map((line) => line.trimEnd());
+}
+
+function sameMeta(a: Meta | null, b: Meta): boolean {
+  return a != null
+    && a.topicId === b.topicId
+    && a.difficulty === b.difficulty
+    && a.origin === b.origin
+    && (a.tags ?? []).join(',') === (b.tags ?? []).join(',');
+}
+
+function blankSource(blank: ClozeBlank): string {
+  return `{{${blank.accepted.join('|')}${blank.maxEdits != null ? `~${blank.maxEdits}` : ''}}}`;
+}
+
+/**
+ * Writes questions in the bulk format, with a front-matter block whenever
+ * topic/difficulty/origin/tags change, and `<!-- id -->` markers so the text
+ * can be parsed back as updates.
+ */
+export function exportBulkText(questions: Question[], topics: Pick<Topic, 'id' | 'title'>[]): string {
+  const titleOf = new Map(topics.map((t) => [t.id, t.title]));
+  const out: string[] = [];
+  let previous: Meta | null = null;
+
+  for (const q of questions) {
+    const meta: Meta = { topicId: q.topicId, difficulty: q.difficulty, origin: q.origin, tags: q.tags };
+    if (!sameMeta(previous, meta)) out.push(...metaBlock(meta, titleOf.get(q.topicId) ?? ''));
+    previous = meta;
+
+    const tag = q.type.toLowerCase();
+    if (q.type === 'COMPLETAR') {
+      const blanks = new Map((q.blanks ?? []).map((b) => [b.id, b]));
+      const cloze = (q.clozeText ?? '').replace(/\{\{([^}]+)\}\}/g, (m, id: string) => {
+        const blank = blanks.get(id);
+        return blank ? blankSource(blank) : m;
+      });
+      out.push(`## [${tag}] ${q.prompt === DEFAULT_CLOZE_PROMPT ? '' : q.prompt.replace(/\n+/g, ' ')}`.trimEnd());
+      out.push(...escapeBody(cloze));
+    } else {
+      const [first, ...rest] = q.prompt.split('\n');
+      out.push(`## [${tag}] ${first}`.trimEnd());
+      if (rest.length > 0) out.push(...escapeBody(rest.join('\n')));
+    }
+    out.push(`<!-- id: ${q.id} -->`);
+
+    if (q.type === 'TEST') {
+      const correct = new Set(q.correctOptionIds ?? []);
+      for (const o of q.options ?? []) out.push(`- [${correct.has(o.id) ? 'x' : ' '}] ${o.text.replace(/\n+/g, ' ')}`);
+    }
+    if (q.type === 'PRACTICO' && q.numericAnswer) {
+      const tolerance = q.numericAbsTolerance != null ? ` ± ${q.numericAbsTolerance}`
+        : q.numericRelTolerance != null ? ` ± ${Math.round(q.numericRelTolerance * 10000) / 100}%`
+        : '';
+      out.push(`= ${q.numericAnswer}${tolerance}`);
+    }
+    if (q.modelAnswer && (q.type === 'DESARROLLO' || q.type === 'PRACTICO')) {
+      out.push('### Respuesta', ...escapeBody(q.modelAnswer));
+    }
+    if (q.explanation) out.push(...q.explanation.split('\n').map((l) => (l ? `> ${l}` : '>')));
+    out.push('');
+  }
+  return out.join('\n');
+}
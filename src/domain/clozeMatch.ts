@@ -0,0 +1,120 @@
+import type { ClozeBlank, Question, UserAnswer } from './models';
+import { normalizeText } from './normalize';
+import { parseNumeric, withinTolerance } from './numeric';
+
+/** Prompt of cloze questions imported without their own statement. */
+export const DEFAULT_CLOZE_PROMPT = 'Completa el texto.';
+
+/**
+ * Damerau–Levenshtein distance (optimal string alignment): insertions,
+ * deletions, substitutions and transpositions of adjacent characters each cost 1.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+const REGEX_FORM = /^\/(.+)\/([a-z]*)$/s;
+/** Longest pattern and answer a regex blank is run on (patterns come from shared packs). */
+const MAX_REGEX_PATTERN = 200;
+const MAX_REGEX_INPUT = 200;
+/** A quantified group that contains a quantifier, e.g. (a+)+ or (\w*){2,}: exponential backtracking. */
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/;
+
+/**
+ * Why an accepted `/pattern/` can't be used safely, or null if it can (or is not a regex):
+ * too long, or with nested quantifiers that can hang the matcher.
+ */
+export function unsafeRegexReason(accepted: string): string | null {
+  const m = REGEX_FORM.exec(accepted.trim());
+  if (!m) return null;
+  if (m[1].length > MAX_REGEX_PATTERN) return `patrón de más de ${MAX_REGEX_PATTERN} caracteres`;
+  if (NESTED_QUANTIFIER.test(m[1])) return 'cuantificadores anidados';
+  return null;
+}
+
+/**
+ * Accepted answers written as `/pattern/flags` are regular expressions.
+ * Unsafe patterns (see unsafeRegexReason) are never compiled and match nothing.
+ */
+export function acceptedRegex(accepted: string): RegExp | null {
+  const m = REGEX_FORM.exec(accepted.trim());
+  if (!m) return null;
+  if (unsafeRegexReason(accepted)) return /(?!)/;
+  try {
+    return new RegExp(`^(?:${m[1]})$`, m[2].replace(/[gy]/g, ''));
+  } catch {
+    return null;
+  }
+}
+
+/** Same number and same unit (if any), e.g. "0,5" = "1/2" = "0.50", "3 cm" = "3cm". */
+function sameNumber(a: string, b: string): boolean {
+  const x = parseNumeric(a);
+  const y = parseNumeric(b);
+  return x != null && y != null && (x.unit ?? '') === (y.unit ?? '') && withinTolerance(x.value, y.value, { rel: 1e-9 });
+}
+
+export type BlankMatch = 'exact' | 'fuzzy' | 'numeric' | 'regex' | 'unanswered';
+
+/**
+ * How `input` matches one of the blank's accepted answers, or null if none does.
+ * An empty input is 'unanswered' (never correct, but not a wrong answer either).
+ * - regex: accepted `/…/flags`, tested against the input as typed and normalized
+ * - numeric: both sides are numbers with the same value ("0,5" = "1/2" = "0.50")
+ * - fuzzy: within `blank.maxEdits` typos of a literal accepted answer
+ */
+export function matchBlank(blank: ClozeBlank, input: string): BlankMatch | null {
+  const normalized = normalizeText(input);
+  if (!normalized) return 'unanswered';
+  const literals: string[] = [];
+
+  for (const accepted of blank.accepted) {
+    const re = acceptedRegex(accepted);
+    if (re) {
+      if (input.length > MAX_REGEX_INPUT) continue;
+      if (re.test(input.trim()) || re.test(normalized)) return 'regex';
+    } else {
+      literals.push(normalizeText(accepted));
+    }
+  }
+  if (literals.includes(normalized)) return 'exact';
+
+  if (literals.some((lit) => sameNumber(normalized, lit))) return 'numeric';
+
+  const maxEdits = blank.maxEdits ?? 0;
+  if (maxEdits > 0) {
+    // Short answers can't absorb typos: "sí" one edit away from "no" is not a typo
+    const close = literals.some((lit) => lit.length > maxEdits * 2 && editDistance(normalized, lit) <= maxEdits);
+    if (close) return 'fuzzy';
+  }
+  return null;
+}
+
+export interface BlankScore {
+  id: string;
+  correct: boolean;
+  match: BlankMatch | null;
+}
+
+/** Per-blank results of a COMPLETAR answer, in the question's blank order. */
+export function scoreBlanks(question: Question, answer: UserAnswer): BlankScore[] {
+  const blankAnswers = answer.blankAnswers ?? {};
+  return (question.blanks ?? []).map((blank) => {
+    const match = matchBlank(blank, blankAnswers[blank.id] ?? '');
+    return { id: blank.id, correct: match != null && match !== 'unanswered', match };
+  });
+}
@@ -0,0 +1,71 @@
+import type { Question } from './models';
+import { daysUntil } from './spacedRepetition';
+
+export interface CramPlanDay {
+  date: string; // ISO YYYY-MM-DD
+  /** Reviews the scheduler already has due that day (overdue ones count today). */
+  scheduled: number;
+}
+
+export interface CramPlan {
+  examDate: string;
+  /** Study days left: today included, exam day excluded. */
+  daysLeft: number;
+  /** Reviews still needed so every question reaches `minReviews` before the exam. */
+  reviewsNeeded: number;
+  /** reviewsNeeded spread evenly over daysLeft. */
+  perDay: number;
+  unseen: number;
+  days: CramPlanDay[];
+}
+
+/**
+ * Reviews a question still needs before the exam:
+ * - unseen or last answer wrong → minReviews
+ * - otherwise minReviews minus its current streak (SM-2 repetitions), at least 1
+ *   so everything gets a last pass before the exam.
+ */
+export function reviewsNeededFor(q: Question, minReviews: number): number {
+  if (q.stats.seen === 0 || q.stats.lastResult !== 'CORRECT') return minReviews;
+  const streak = Math.max(1, q.stats.repetitions ?? 1);
+  return Math.max(1, minReviews - streak);
+}
+
+/**
+ * Cram plan for a bank: how many reviews per day are needed to cover it
+ * `minReviews` times before `examDate`. Returns null if the exam is today or past.
+ */
+export function buildCramPlan(
+  questions: Question[],
+  examDate: string,
+  minReviews: number,
+  now: Date = new Date()
+): CramPlan | null {
+  const daysLeft = daysUntil(examDate, now);
+  if (daysLeft <= 0) return null;
+
+  const reviewsNeeded = questions.reduce((acc, q) => acc + reviewsNeededFor(q, minReviews), 0);
+
+  const days: CramPlanDay[] = [];
+  for (let i = 0; i < daysLeft; i++) {
+    const d = new Date(now);
+    d.setDate(d.getDate() + i);
+    days.push({ date: d.toISOString().split('T')[0], scheduled: 0 });
+  }
+  const today = days[0].date;
+  for (const q of questions) {
+    if (q.stats.seen === 0) continue;
+    const due = !q.stats.nextReviewAt || q.stats.nextReviewAt <= today ? today : q.stats.nextReviewAt;
+    const day = days.find((d) => d.date === due);
+    if (day) day.scheduled++;
+  }
+
+  return {
+    examDate,
+    daysLeft,
+    reviewsNeeded,
+    perDay: Math.ceil(reviewsNeeded / daysLeft),
+    unseen: questions.filter((q) => q.stats.seen === 0).length,
+    days,
+  };
+}
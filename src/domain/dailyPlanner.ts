@@ -0,0 +1,174 @@
+import type { AppSettings, Deliverable, Question, Subject } from './models';
+import { daysUntil, sortByPriority } from './spacedRepetition';
+import { withoutSuspended } from './leech';
+
+/** Cards per day when the user has not set a budget. */
+export const DEFAULT_DAILY_CARDS = 40;
+/** Rough time per card used to turn a minutes budget into cards. */
+export const DEFAULT_SECONDS_PER_CARD = 45;
+
+export interface PlannerSubjectInput {
+  subject: Subject;
+  questions: Question[];
+  /** Next exam (subject.examDate or exam deliverable), ISO YYYY-MM-DD. */
+  examDate?: string;
+  deliverables: Deliverable[];
+}
+
+export interface PlannedSubject {
+  subjectId: string;
+  /** Questions due today (overdue or never scheduled). */
+  due: number;
+  /** Questions of this subject in today's queue. */
+  planned: number;
+  weight: number;
+  examInDays?: number;
+  nextDeliverableInDays?: number;
+}
+
+export interface DailyPlan {
+  budget: number;
+  totalDue: number;
+  /** Question ids in study order, subjects interleaved. */
+  questionIds: string[];
+  subjects: PlannedSubject[];
+}
+
+/**
+ * Daily card budget from settings: the tighter of the cards and minutes budgets.
+ * Minutes are converted with `secondsPerCard`.
+ */
+export function dailyBudget(
+  settings: Pick<AppSettings, 'dailyCardBudget' | 'dailyMinutesBudget'>,
+  secondsPerCard = DEFAULT_SECONDS_PER_CARD
+): number {
+  const limits: number[] = [];
+  if (settings.dailyCardBudget) limits.push(settings.dailyCardBudget);
+  if (settings.dailyMinutesBudget) limits.push(Math.floor((settings.dailyMinutesBudget * 60) / secondsPerCard));
+  return limits.length > 0 ? Math.max(1, Math.min(...limits)) : DEFAULT_DAILY_CARDS;
+}
+
+/** What is left of today's budget after the reviews already done today. */
+export function remainingDailyBudget(
+  settings: Pick<AppSettings, 'dailyCardBudget' | 'dailyMinutesBudget'>,
+  reviewedToday: number
+): number {
+  return Math.max(0, dailyBudget(settings) - reviewedToday);
+}
+
+/** Decays from `max` (due today) to ~0 three weeks out; past dates add nothing. */
+function proximity(daysLeft: number | undefined, max: number): number {
+  if (daysLeft == null || daysLeft < 0) return 0;
+  return max * Math.exp(-daysLeft / 7);
+}
+
+/**
+ * Subject weight for today's queue:
+ * 1 + up to 4 for an exam this week + up to 1.5 for a pending deliverable.
+ */
+export function subjectWeight(examInDays?: number, nextDeliverableInDays?: number): number {
+  return 1 + proximity(examInDays, 4) + proximity(nextDeliverableInDays, 1.5);
+}
+
+/**
+ * Split `budget` among subjects proportionally to weight × due, never giving a
+ * subject more than it has due (largest remainder, leftovers redistributed).
+ */
+function allocate(budget: number, entries: { due: number; weight: number }[]): number[] {
+  const quotas = entries.map(() => 0);
+  let remaining = Math.min(budget, entries.reduce((acc, e) => acc + e.due, 0));
+  while (remaining > 0) {
+    const open = entries.map((e, i) => i).filter((i) => quotas[i] < entries[i].due);
+    const totalShare = open.reduce((acc, i) => acc + entries[i].weight * entries[i].due, 0);
+    const shares = open.map((i) => (remaining * entries[i].weight * entries[i].due) / totalShare);
+    let given = 0;
+    open.forEach((i, k) => {
+      const add = Math.min(Math.floor(shares[k]), entries[i].due - quotas[i]);
+      quotas[i] += add;
+      given += add;
+    });
+    if (given === 0) {
+      // Hand out the remainders one by one, largest first
+      const byRemainder = open
+        .map((i, k) => ({ i, r: shares[k] - Math.floor(shares[k]) }))
+        .sort((a, b) => b.r - a.r);
+      for (const { i } of byRemainder) {
+        if (remaining - given === 0) break;
+        if (quotas[i] < entries[i].due) { quotas[i]++; given++; }
+      }
+    }
+    remaining -= given;
+  }
+  return quotas;
+}
+
+/**
+ * Build today's queue across subjects. Each subject contributes its due (not
+ * suspended) questions in scheduler priority order; the budget is shared by weight (exam and
+ * deliverable proximity) and the result interleaves subjects evenly.
+ */
+export function buildDailyPlan(
+  inputs: PlannerSubjectInput[],
+  budget: number,
+  now: Date = new Date()
+): DailyPlan {
+  const today = now.toISOString().split('T')[0];
+
+  const perSubject = inputs.map(({ subject, questions, examDate, deliverables }) => {
+    const due = sortByPriority(
+      withoutSuspended(questions).filter((q) => !q.stats.nextReviewAt || q.stats.nextReviewAt <= today),
+      subject.scheduler
+    );
+    const examInDays = examDate ? daysUntil(examDate, now) : undefined;
+    const nextDeliverable = deliverables
+      .filter((d) => d.type !== 'exam' && d.dueDate && d.dueDate >= today)
+      .filter((d) => d.status === 'pending' || d.status === 'in_progress')
+      .map((d) => d.dueDate!)
+      .sort()[0];
+    const nextDeliverableInDays = nextDeliverable ? daysUntil(nextDeliverable, now) : undefined;
+    return {
+      subjectId: subject.id,
+      queue: due,
+      weight: subjectWeight(examInDays, nextDeliverableInDays),
+      examInDays,
+      nextDeliverableInDays,
+    };
+  });
+
+  const quotas = allocate(
+    budget,
+    perSubject.map((s) => ({ due: s.queue.length, weight: s.weight }))
+  );
+
+  // Interleave: always take from the subject furthest behind its quota
+  const taken = perSubject.map(() => 0);
+  const questionIds: string[] = [];
+  const total = quotas.reduce((acc, q) => acc + q, 0);
+  while (questionIds.length < total) {
+    let pick = -1;
+    let best = Infinity;
+    perSubject.forEach((_, i) => {
+      if (taken[i] >= quotas[i]) return;
+      const ratio = taken[i] / quotas[i];
+      if (ratio < best) { best = ratio; pick = i; }
+    });
+    questionIds.push(perSubject[pick].queue[taken[pick]].id);
+    taken[pick]++;
+  }
+
+  return {
+    budget,
+    totalDue: perSubject.reduce((acc, s) => acc + s.queue.length, 0),
+    questionIds,
+    subjects: perSubject
+      .map((s, i) => ({
+        subjectId: s.subjectId,
+        due: s.queue.length,
+        planned: quotas[i],
+        weight: s.weight,
+        examInDays: s.examInDays,
+        nextDeliverableInDays: s.nextDeliverableInDays,
+      }))
+      .sort((a, b) => b.weight - a.weight),
+  };
+}
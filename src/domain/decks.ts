@@ -0,0 +1,47 @@
+import type { DeckFilter, Question, SavedDeck } from './models';
+import { normalizeText } from './normalize';
+
+const DAY_MS = 86_400_000;
+
+/** Share of correct answers, or null for a question never answered. */
+export function successRate(q: Pick<Question, 'stats'>): number | null {
+  const answered = q.stats.correct + q.stats.wrong;
+  return answered === 0 ? null : q.stats.correct / answered;
+}
+
+/** Whether `q` passes every criterion of the deck filter. */
+export function matchesDeck(q: Question, filter: DeckFilter, now = new Date()): boolean {
+  const { topicIds, tags, origins, types, difficulties } = filter;
+  if (topicIds?.length && !topicIds.some((id) => q.topicId === id || q.topicIds?.includes(id))) return false;
+  if (tags?.length) {
+    const wanted = new Set(tags.map((t) => normalizeText(t)));
+    if (!(q.tags ?? []).some((t) => wanted.has(normalizeText(t)))) return false;
+  }
+  if (origins?.length && (!q.origin || !origins.includes(q.origin))) return false;
+  if (types?.length && !types.includes(q.type)) return false;
+  // Questions without a difficulty are not excluded, as in the practice filters
+  if (difficulties?.length && q.difficulty && !difficulties.includes(q.difficulty)) return false;
+  if (filter.maxSuccessRate != null) {
+    const rate = successRate(q);
+    if (rate != null && rate >= filter.maxSuccessRate) return false;
+  }
+  if (filter.notSeenDays != null && q.stats.lastSeenAt) {
+    const days = (now.getTime() - new Date(q.stats.lastSeenAt).getTime()) / DAY_MS;
+    if (days < filter.notSeenDays) return false;
+  }
+  if (filter.starredOnly && !q.starred) return false;
+  if (filter.unseenOnly && q.stats.seen > 0) return false;
+  if (filter.excludeSuspended && q.suspended) return false;
+  return true;
+}
+
+/** Every question of the deck's subject matching its filter. */
+export function deckMatches(deck: Pick<SavedDeck, 'subjectId' | 'filter'>, questions: Question[], now = new Date()): Question[] {
+  return questions.filter((q) => q.subjectId === deck.subjectId && matchesDeck(q, deck.filter, now));
+}
+
+/** Shuffled questions for one session of the deck, capped at `deck.count`. */
+export function pickDeckQuestions(deck: SavedDeck, questions: Question[], now = new Date()): Question[] {
+  const pool = deckMatches(deck, questions, now).sort(() => Math.random() - 0.5);
+  return deck.count ? pool.slice(0, deck.count) : pool;
+}
@@ -0,0 +1,187 @@
+import type {
+  DifficultyLevel,
+  ExamBlueprint,
+  ExamBlueprintSection,
+  ExamSessionSection,
+  Question,
+  TestScoringRule,
+  UserAnswer,
+} from './models';
+import { examMark, type ExamMark } from './scoring';
+
+/**
+ * Splits `total` in proportion to `weights` with the largest-remainder method,
+ * so the parts always add up to `total` (10 over {a: 60, b: 40} → {a: 6, b: 4}).
+ * Non-positive weights get nothing.
+ */
+export function apportion<K extends string>(total: number, weights: Record<K, number>): Record<K, number> {
+  const keys = (Object.keys(weights) as K[]).filter((k) => weights[k] > 0);
+  const sum = keys.reduce((acc, k) => acc + weights[k], 0);
+  const out = Object.fromEntries((Object.keys(weights) as K[]).map((k) => [k, 0])) as Record<K, number>;
+  if (sum === 0 || total <= 0) return out;
+
+  const exact = keys.map((k) => ({ k, share: (total * weights[k]) / sum }));
+  let assigned = 0;
+  for (const { k, share } of exact) {
+    out[k] = Math.floor(share);
+    assigned += out[k];
+  }
+  exact
+    .sort((a, b) => (b.share - Math.floor(b.share)) - (a.share - Math.floor(a.share)))
+    .slice(0, total - assigned)
+    .forEach(({ k }) => out[k]++);
+  return out;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+function belongsToTopic(q: Question, topicId: string): boolean {
+  return q.topicId === topicId || (q.topicIds?.includes(topicId) ?? false);
+}
+
+/** Takes up to `n` unused questions from `pool`, marking them as used. */
+function take(pool: Question[], n: number, used: Set<string>): Question[] {
+  const picked: Question[] = [];
+  for (const q of pool) {
+    if (picked.length >= n) break;
+    if (used.has(q.id)) continue;
+    used.add(q.id);
+    picked.push(q);
+  }
+  return picked;
+}
+
+/** `n` questions from a shuffled pool following the difficulty mix, topped up with any difficulty. */
+function takeWithMix(
+  pool: Question[],
+  n: number,
+  mix: ExamBlueprintSection['difficultyMix'],
+  used: Set<string>
+): Question[] {
+  const weights = Object.fromEntries(Object.entries(mix ?? {}).filter(([, w]) => (w ?? 0) > 0)) as Record<string, number>;
+  if (Object.keys(weights).length === 0) return take(pool, n, used);
+  const perLevel = apportion(n, weights);
+  const picked: Question[] = [];
+  for (const [level, count] of Object.entries(perLevel)) {
+    picked.push(...take(pool.filter((q) => q.difficulty === (Number(level) as DifficultyLevel)), count, used));
+  }
+  picked.push(...take(pool, n - picked.length, used));
+  return picked;
+}
+
+function pickSection(
+  section: ExamBlueprintSection,
+  candidates: Question[],
+  used: Set<string>,
+  random: () => number
+): Question[] {
+  const pool = shuffle(candidates.filter((q) => q.type === section.type), random);
+  const topicWeights = Object.fromEntries(Object.entries(section.topicWeights ?? {}).filter(([, w]) => w > 0));
+
+  const picked: Question[] = [];
+  if (Object.keys(topicWeights).length === 0) {
+    picked.push(...takeWithMix(pool, section.count, section.difficultyMix, used));
+  } else {
+    const perTopic = apportion(section.count, topicWeights);
+    for (const [topicId, count] of Object.entries(perTopic)) {
+      const topicPool = pool.filter((q) => belongsToTopic(q, topicId));
+      picked.push(...takeWithMix(topicPool, count, section.difficultyMix, used));
+    }
+  }
+  // A topic or difficulty without enough questions is topped up from the rest of the type
+  picked.push(...take(pool, section.count - picked.length, used));
+  return picked;
+}
+
+export interface GeneratedExam {
+  sections: ExamSessionSection[];
+  questionIds: string[];
+  /** Sections with fewer questions of their type than requested. */
+  shortfalls: { name: string; missing: number }[];
+  minutes: number;
+}
+
+export function blueprintMinutes(blueprint: Pick<ExamBlueprint, 'sections'>): number {
+  return blueprint.sections.reduce((acc, s) => acc + s.minutes, 0);
+}
+
+export function blueprintPoints(blueprint: Pick<ExamBlueprint, 'sections'>): number {
+  return blueprint.sections.reduce((acc, s) => acc + s.points, 0);
+}
+
+/**
+ * Draws a mock exam from the subject's questions: every section in blueprint
+ * order, never repeating a question across sections.
+ */
+export function generateExam(blueprint: ExamBlueprint, questions: Question[], random = Math.random): GeneratedExam {
+  const used = new Set<string>();
+  const sections: ExamSessionSection[] = [];
+  const shortfalls: GeneratedExam['shortfalls'] = [];
+  for (const section of blueprint.sections) {
+    const picked = pickSection(section, questions, used, random);
+    if (picked.length < section.count) shortfalls.push({ name: section.name, missing: section.count - picked.length });
+    sections.push({
+      name: section.name,
+      type: section.type,
+      points: section.points,
+      questionIds: picked.map((q) => q.id),
+    });
+  }
+  return {
+    sections,
+    questionIds: sections.flatMap((s) => s.questionIds),
+    shortfalls,
+    minutes: blueprintMinutes(blueprint),
+  };
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+export interface SectionMark extends ExamMark {
+  name: string;
+  type: ExamSessionSection['type'];
+  /** Section weight in exam points. */
+  sectionPoints: number;
+  /** Exam points earned: mark / 10 × sectionPoints. */
+  earned: number;
+}
+
+export interface ExamReport {
+  sections: SectionMark[];
+  /** 0–10 over the whole exam, weighting each section by its points. */
+  mark: number;
+  earned: number;
+  totalPoints: number;
+  pending: number;
+}
+
+/** Per-section 0–10 marks of a blueprint session (questions deleted since are skipped). */
+export function examReport(
+  sections: ExamSessionSection[],
+  questions: Question[],
+  answers: UserAnswer[],
+  ruleFor: (question: Question) => TestScoringRule
+): ExamReport {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const marks = sections.map((section): SectionMark => {
+    const qs = section.questionIds.map((id) => byId.get(id)).filter((q): q is Question => q != null);
+    const m = examMark(qs, answers, ruleFor);
+    return { ...m, name: section.name, type: section.type, sectionPoints: section.points, earned: (m.mark / 10) * section.points };
+  });
+  const totalPoints = marks.reduce((acc, m) => acc + m.sectionPoints, 0);
+  const earned = marks.reduce((acc, m) => acc + m.earned, 0);
+  return {
+    sections: marks,
+    mark: totalPoints === 0 ? 0 : (earned / totalPoints) * 10,
+    earned,
+    totalPoints,
+    pending: marks.reduce((acc, m) => acc + m.pending, 0),
+  };
+}
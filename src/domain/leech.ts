@@ -0,0 +1,41 @@
+import type { Question, QuestionStats } from './models';
+
+/** Failures in a row (since the last success) that make a question a leech. */
+export const DEFAULT_LEECH_THRESHOLD = 4;
+
+export function lapsesSinceSuccess(stats: QuestionStats): number {
+  return stats.lapsesSinceSuccess ?? 0;
+}
+
+export function isLeech(stats: QuestionStats, threshold = DEFAULT_LEECH_THRESHOLD): boolean {
+  return lapsesSinceSuccess(stats) >= threshold;
+}
+
+/** Lapse counter after a review: WRONG adds one, CORRECT resets it. */
+export function nextLapses(stats: QuestionStats, result: 'CORRECT' | 'WRONG'): number {
+  return result === 'WRONG' ? lapsesSinceSuccess(stats) + 1 : 0;
+}
+
+/**
+ * True when this review turns the question into a leech (crosses the
+ * threshold), so auto-suspension happens once and not on every later failure.
+ */
+export function becomesLeech(before: QuestionStats, after: QuestionStats, threshold = DEFAULT_LEECH_THRESHOLD): boolean {
+  return !isLeech(before, threshold) && isLeech(after, threshold);
+}
+
+/** Suspended questions stay in the bank but are left out of smart/random pools. */
+export function withoutSuspended<T extends Pick<Question, 'suspended'>>(questions: T[]): T[] {
+  return questions.filter((q) => !q.suspended);
+}
+
+/** Leeches and suspended questions, worst first. */
+export function leechList(questions: Question[], threshold = DEFAULT_LEECH_THRESHOLD): Question[] {
+  return questions
+    .filter((q) => q.suspended || isLeech(q.stats, threshold))
+    .sort(
+      (a, b) =>
+        lapsesSinceSuccess(b.stats) - lapsesSinceSuccess(a.stats) ||
+        b.stats.wrong - a.stats.wrong
+    );
+}
@@ -0,0 +1,86 @@
+import type { PracticeSession, Question, SchedulerKind } from './models';
+import { sortByPriority } from './spacedRepetition';
+import { withoutSuspended } from './leech';
+
+/** All subjects a session covers (single-subject sessions only have `subjectId`). */
+export function sessionSubjectIds(session: Pick<PracticeSession, 'subjectId' | 'subjectIds'>): string[] {
+  return session.subjectIds && session.subjectIds.length > 0 ? session.subjectIds : [session.subjectId];
+}
+
+export function isMixedSession(session: Pick<PracticeSession, 'subjectId' | 'subjectIds'>): boolean {
+  return sessionSubjectIds(session).length > 1;
+}
+
+export interface SubjectBreakdown {
+  subjectId: string;
+  total: number;
+  correct: number;
+  wrong: number;
+  /** Answered but waiting for manual correction. */
+  pending: number;
+}
+
+/**
+ * Per-subject results of a session. `subjectOf` maps question id → subject id;
+ * questions missing from it (deleted since) are ignored.
+ */
+export function breakdownBySubject(
+  session: Pick<PracticeSession, 'subjectId' | 'subjectIds' | 'questionIds' | 'answers'>,
+  subjectOf: Record<string, string>
+): SubjectBreakdown[] {
+  const rows = new Map<string, SubjectBreakdown>(
+    sessionSubjectIds(session).map((id) => [id, { subjectId: id, total: 0, correct: 0, wrong: 0, pending: 0 }])
+  );
+  const row = (questionId: string) => {
+    const sid = subjectOf[questionId];
+    if (!sid) return undefined;
+    if (!rows.has(sid)) rows.set(sid, { subjectId: sid, total: 0, correct: 0, wrong: 0, pending: 0 });
+    return rows.get(sid);
+  };
+  for (const qid of session.questionIds) {
+    const r = row(qid);
+    if (r) r.total++;
+  }
+  for (const a of session.answers) {
+    const r = row(a.questionId);
+    if (!r) continue;
+    if (a.result === 'CORRECT') r.correct++;
+    else if (a.result === 'WRONG') r.wrong++;
+    else if (a.result === null) r.pending++;
+  }
+  return [...rows.values()];
+}
+
+/**
+ * Pick `count` questions across several subjects.
+ * - smart: each subject's due questions in scheduler priority order, interleaved
+ *   round-robin so no subject dominates the start of the session
+ * - random: uniform shuffle of the whole pool
+ * Suspended questions are left out of both.
+ */
+export function pickMixedQuestions(
+  pools: { questions: Question[]; scheduler?: SchedulerKind }[],
+  mode: 'smart' | 'random',
+  count: number
+): Question[] {
+  if (mode === 'random') {
+    return withoutSuspended(pools.flatMap((p) => p.questions))
+      .sort(() => Math.random() - 0.5)
+      .slice(0, count);
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const queues = pools.map((p) =>
+    sortByPriority(
+      withoutSuspended(p.questions).filter((q) => !q.stats.nextReviewAt || q.stats.nextReviewAt <= today),
+      p.scheduler
+    )
+  );
+  const picked: Question[] = [];
+  for (let i = 0; picked.length < count && queues.some((q) => i < q.length); i++) {
+    for (const queue of queues) {
+      if (i < queue.length && picked.length < count) picked.push(queue[i]);
+    }
+  }
+  return picked;
+}
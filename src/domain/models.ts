@@ -12,6 +12,13 @@ export type DifficultyLevel = 1 | 2 | 3 | 4 | 5;
  */
 export type QuestionOrigin = 'test' | 'examen_anterior' | 'clase' | 'alumno';
 
+/**
+ * Algoritmo de repaso espaciado de una asignatura.
+ * - sm2: SuperMemo-2 clásico (por defecto)
+ * - fsrs: modelo estabilidad/dificultad/recuperabilidad (FSRS)
+ */
+export type SchedulerKind = 'sm2' | 'fsrs';
+
 // ─── Entities ─────────────────────────────────────────────────────────────────
 
 export interface Subject {
@@ -24,6 +31,8 @@ export interface Subject {
    * desde él. Cada usuario la configura localmente.
    */
   examDate?: string; // ISO YYYY-MM-DD
+  /** Algoritmo de repaso. LOCAL — ausente equivale a 'sm2'. */
+  scheduler?: SchedulerKind;
   createdAt: string;
   updatedAt: string;
 }
@@ -47,20 +56,48 @@ export interface QuestionOption {
 
 export interface ClozeBlank {
   id: string;
-  accepted: string[]; // accepted answers (normalized at check time)
+  /**
+   * Respuestas aceptadas (se normalizan al corregir). Una entrada `/patrón/flags`
+   * se interpreta como expresión regular; los números se comparan por valor.
+   */
+  accepted: string[];
+  /** Erratas toleradas (distancia de Damerau–Levenshtein). Sin valor: coincidencia exacta. */
+  maxEdits?: number;
 }
 
+/**
+ * Calidad de recuerdo SM-2 (0–5). La UI expone cuatro botones:
+ * Otra vez = 1, Difícil = 3, Bien = 4, Fácil = 5. A partir de 3 cuenta como acierto.
+ */
+export type RecallQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
 export interface QuestionStats {
   seen: number;
   correct: number;
   wrong: number;
   lastSeenAt?: string;
   lastResult?: 'CORRECT' | 'WRONG';
+  /** Calidad del último repaso (ausente en estadísticas anteriores a las notas graduadas). */
+  lastQuality?: RecallQuality;
+  /** Fallos seguidos desde el último acierto (detección de sanguijuelas). */
+  lapsesSinceSuccess?: number;
   // Spaced Repetition SM-2
   easeFactor?: number;
   interval?: number;
   nextReviewAt?: string;  // ISO date
   repetitions?: number;
+  // FSRS (solo si la asignatura usa scheduler 'fsrs'; se siembra desde SM-2 al cambiar)
+  fsrs?: FsrsState;
+}
+
+export interface FsrsState {
+  /** Días hasta que la probabilidad de recordar cae al 90%. */
+  stability: number;
+  /** Dificultad intrínseca 1 (fácil) – 10 (difícil). */
+  difficulty: number;
+  /** ISO timestamp del último repaso procesado por FSRS. */
+  lastReviewAt: string;
+  lapses: number;
 }
 
 export interface Question {
@@ -89,8 +126,15 @@ export interface Question {
   // DESARROLLO / PRACTICO
   modelAnswer?: string;
   keywords?: string[];
-  /** ITER3 — Resultado numérico esperado (para preguntas de tipo PRACTICO). */
+  /**
+   * ITER3 — Resultado numérico esperado (para preguntas de tipo PRACTICO).
+   * Varios resultados se separan con ";" (p. ej. "12,5 m; 3/4").
+   */
   numericAnswer?: string;
+  /** Tolerancia absoluta para corregir `numericAnswer` automáticamente. */
+  numericAbsTolerance?: number;
+  /** Tolerancia relativa (0.01 = 1%). Sin ninguna de las dos se usa un 1%. */
+  numericRelTolerance?: number;
 
   // COMPLETAR
   clozeText?: string;
@@ -122,6 +166,12 @@ export interface Question {
    */
   starred?: boolean;
 
+  /**
+   * Suspendida: fuera de los repasos inteligente/aleatorio hasta reactivarla.
+   * Se activa sola con las sanguijuelas (ver `leechAutoSuspend`). LOCAL — nunca se exporta.
+   */
+  suspended?: boolean;
+
   stats: QuestionStats;
   createdAt: string;
   updatedAt: string;
@@ -145,7 +195,7 @@ export interface QuestionImageRecord {
 
 // ─── Sessions ─────────────────────────────────────────────────────────────────
 
-export type SessionMode = 'random' | 'all' | 'failed' | 'topic' | 'smart' | 'exam';
+export type SessionMode = 'random' | 'all' | 'failed' | 'topic' | 'smart' | 'exam' | 'daily' | 'flashcard';
 
 export interface UserAnswer {
   questionId: string;
@@ -155,10 +205,24 @@ export interface UserAnswer {
   freeText?: string;
   // COMPLETAR: map blank id -> answer text
   blankAnswers?: Record<string, string>;
+  // PRACTICO: one entry per expected numeric result
+  numericAnswers?: string[];
   // Manual override for DESARROLLO
   manualResult?: 'CORRECT' | 'WRONG';
   // Auto-computed result (null for DESARROLLO before manual)
   result?: 'CORRECT' | 'WRONG' | null;
+  /**
+   * Calidad de recuerdo elegida por el usuario (Otra vez/Difícil/Bien/Fácil).
+   * Las sesiones antiguas no la tienen: usar `answerQuality()` para derivarla de `result`.
+   */
+  quality?: RecallQuality;
+  /** Tiempo desde que se mostró la pregunta hasta que se respondió (ms). */
+  responseMs?: number;
+  /**
+   * Puntos obtenidos sobre 1 según la regla de puntuación de la asignatura
+   * (puede ser negativo con penalización). Ausente en sesiones antiguas.
+   */
+  score?: number;
   answeredAt: string;
 }
 
@@ -167,12 +231,191 @@ export interface PracticeSession {
   subjectId: string;
   mode: SessionMode;
   topicId?: string; // if mode === 'topic'
+  /**
+   * Sesiones que mezclan asignaturas (p. ej. el plan diario): todas las
+   * asignaturas incluidas. `subjectId` es la primera de ellas.
+   */
+  subjectIds?: string[];
+  /** Mazo guardado desde el que se lanzó la sesión, si lo hay. */
+  deckId?: string;
+  /** Simulacro generado desde una estructura de examen. */
+  blueprintId?: string;
+  /**
+   * Secciones del simulacro tal como se generaron (copia, para que el informe
+   * no cambie si luego se edita la estructura).
+   */
+  examSections?: ExamSessionSection[];
   createdAt: string;
   finishedAt?: string;
   questionIds: string[];
   answers: UserAnswer[];
 }
 
+/** Sección de un simulacro ya generado. */
+export interface ExamSessionSection {
+  name: string;
+  type: QuestionType;
+  /** Puntos de la sección sobre el total del examen. */
+  points: number;
+  questionIds: string[];
+}
+
+// ─── Exam blueprints (LOCAL — never exported) ─────────────────────────────────
+
+/**
+ * Sección de la estructura de examen: N preguntas de un tipo, repartidas entre
+ * temas y dificultades según pesos relativos (sin pesos = sin restricción).
+ */
+export interface ExamBlueprintSection {
+  id: string;
+  name: string;
+  type: QuestionType;
+  count: number;
+  /** topicId → peso relativo (p. ej. temas 1–4 con 60 y el resto con 40). */
+  topicWeights?: Record<string, number>;
+  /** Dificultad → peso relativo. */
+  difficultyMix?: Partial<Record<DifficultyLevel, number>>;
+  /** Puntos de la sección sobre el total del examen. */
+  points: number;
+  /** Tiempo asignado en minutos; la duración del simulacro es la suma. */
+  minutes: number;
+}
+
+/** Estructura fija del examen real de una asignatura, para generar simulacros. */
+export interface ExamBlueprint {
+  id: string;
+  subjectId: string;
+  name: string;
+  sections: ExamBlueprintSection[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ─── Saved decks (LOCAL — never exported) ─────────────────────────────────────
+
+/**
+ * Expresión de filtro de un mazo. Todos los criterios se combinan con AND;
+ * un criterio ausente (o lista vacía) no filtra.
+ */
+export interface DeckFilter {
+  /** La pregunta pertenece a alguno de estos temas (incluye `topicIds`). */
+  topicIds?: string[];
+  /** Tiene alguna de estas etiquetas. */
+  tags?: string[];
+  origins?: QuestionOrigin[];
+  types?: QuestionType[];
+  difficulties?: DifficultyLevel[];
+  /** Tasa de acierto por debajo de este valor (0–1). Las no vistas entran. */
+  maxSuccessRate?: number;
+  /** Sin ver en al menos N días (o nunca vistas). */
+  notSeenDays?: number;
+  starredOnly?: boolean;
+  /** Solo preguntas que nunca se han respondido. */
+  unseenOnly?: boolean;
+  /** Deja fuera las preguntas suspendidas (sanguijuelas). */
+  excludeSuspended?: boolean;
+}
+
+/**
+ * Mazo guardado: un filtro con nombre que se puede lanzar como sesión de
+ * práctica, flashcards o simulacro de examen.
+ */
+export interface SavedDeck {
+  id: string;
+  subjectId: string;
+  name: string;
+  filter: DeckFilter;
+  /** Máximo de preguntas por sesión; sin valor entran todas. */
+  count?: number;
+  /** Duración del simulacro de examen en minutos. */
+  examMinutes?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ─── Question revisions ───────────────────────────────────────────────────────
+
+/** Contenido versionado de una pregunta (sin stats, notas, estrella ni suspensión). */
+export type QuestionContent = Pick<
+  Question,
+  | 'topicId'
+  | 'topicIds'
+  | 'type'
+  | 'prompt'
+  | 'explanation'
+  | 'difficulty'
+  | 'tags'
+  | 'origin'
+  | 'options'
+  | 'correctOptionIds'
+  | 'modelAnswer'
+  | 'keywords'
+  | 'numericAnswer'
+  | 'numericAbsTolerance'
+  | 'numericRelTolerance'
+  | 'clozeText'
+  | 'blanks'
+  | 'imageDataUrls'
+>;
+
+/** Origen de un cambio en el contenido de una pregunta. */
+export type RevisionSource =
+  | { kind: 'create' }
+  | { kind: 'edit' }
+  /** Estado previo al primer cambio registrado (preguntas anteriores al historial). */
+  | { kind: 'initial' }
+  | { kind: 'pack'; packId: string; createdBy: string }
+  | { kind: 'globalBank' }
+  | { kind: 'merge' }
+  /** Deshacer un import que había fusionado preguntas del pack con esta. */
+  | { kind: 'undoImport'; packId: string }
+  | { kind: 'revert'; revisionId: string };
+
+/** Versión del contenido de una pregunta tras un cambio. */
+export interface QuestionRevision {
+  id: string;
+  questionId: string;
+  createdAt: string;
+  /** Alias local de quien hizo el cambio. */
+  author?: string;
+  source: RevisionSource;
+  /** Contenido completo tras el cambio. */
+  content: QuestionContent;
+  /** Campos que cambiaron respecto a la revisión anterior. */
+  changedFields: string[];
+  contentHash?: string;
+}
+
+// ─── Review log (LOCAL — never exported to global bank) ──────────────────────
+
+/**
+ * Un registro por repaso, escrito desde `questionRepo.updateStats`.
+ * Guarda el estado del planificador antes y después para poder analizar
+ * curvas de retención, ajustar el algoritmo o deshacer un repaso.
+ * Los registros reconstruidos desde sesiones antiguas (`backfilled`) no
+ * conocen el intervalo ni la facilidad.
+ */
+export interface ReviewLog {
+  id: string;
+  questionId: string;
+  subjectId: string;
+  sessionId?: string;
+  reviewedAt: string; // ISO timestamp
+  result: 'CORRECT' | 'WRONG';
+  quality: RecallQuality;
+  responseMs?: number;
+  scheduler?: SchedulerKind;
+  intervalBefore?: number;
+  intervalAfter?: number;
+  easeBefore?: number;
+  easeAfter?: number;
+  backfilled?: boolean;
+  /** Estadísticas de la pregunta antes de este repaso, para poder deshacerlo. */
+  statsBefore?: QuestionStats;
+  /** Este repaso suspendió la pregunta por ser sanguijuela (se revierte al deshacer). */
+  autoSuspended?: boolean;
+}
+
 // ─── PDF ──────────────────────────────────────────────────────────────────────
 
 export interface PdfResource {
@@ -249,6 +492,8 @@ export interface ContributionQuestion {
   modelAnswer?: string;
   keywords?: string[];
   numericAnswer?: string; // ITER3 — resultado numérico (PRACTICO)
+  numericAbsTolerance?: number;
+  numericRelTolerance?: number;
   clozeText?: string;
   blanks?: ClozeBlank[];
   explanation?: string;
@@ -283,6 +528,49 @@ export interface ContributionPack {
    * public/question-images/ via dev server.
    */
   questionImages?: Record<string, string>;
+  /** Firma opcional del contribuidor sobre el resto del pack. */
+  signature?: PackSignature;
+}
+
+/**
+ * Firma ECDSA P-256 de un contribution pack. Cubre el JSON canónico del pack
+ * sin este campo, de modo que cualquier cambio posterior la invalida.
+ */
+export interface PackSignature {
+  algorithm: 'ECDSA-P256-SHA256';
+  /** Clave pública del firmante (SPKI en base64). */
+  publicKey: string;
+  /** Huella SHA-256 de la clave pública, legible ("ab12 cd34 …"). */
+  fingerprint: string;
+  /** Firma en base64. */
+  value: string;
+  signedAt: string;
+}
+
+/**
+ * - verified: firma válida de un contribuidor de confianza
+ * - unknown: sin firma, o firma válida de una clave que no está en la lista de confianza
+ * - tampered: la firma no corresponde al contenido (el pack se modificó tras firmarlo)
+ */
+export type PackSignatureStatus = 'verified' | 'unknown' | 'tampered';
+
+/** Contribuidor cuya clave pública ha aceptado el mantenedor. */
+export interface TrustedContributor {
+  fingerprint: string;
+  publicKey: string;
+  alias: string;
+  addedAt: string;
+}
+
+/** Par de claves local para firmar packs. La privada no es exportable. */
+export interface SigningKeyRecord {
+  id: string;
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+  /** SPKI en base64. */
+  publicKeySpki: string;
+  fingerprint: string;
+  createdAt: string;
 }
 
 /**
@@ -295,6 +583,31 @@ export interface ImportHistoryEntry {
   importedAt: string;   // ISO timestamp
   questionCount: number;
   subjectNames: string[];
+  /** Decisiones de la cola de revisión (solo si el pack se revisó pregunta a pregunta). */
+  review?: ImportReviewRecord[];
+  /** Estado de la firma del pack al importarlo. */
+  signatureStatus?: PackSignatureStatus;
+  /** Huella de la clave que firmó el pack. */
+  signerFingerprint?: string;
+  /** Se aplicaron correcciones al pack después de verificar su firma. */
+  signatureModifiedLocally?: boolean;
+}
+
+/** Qué hizo el mantenedor con una pregunta nueva del pack antes de importarlo. */
+export type ImportReviewDecision = 'accepted' | 'rejected' | 'edited' | 'reassigned' | 'merged';
+
+export interface ImportReviewRecord {
+  /** Id de la pregunta dentro del pack. */
+  questionId: string;
+  decision: ImportReviewDecision;
+  /** Tema final (slug) si se reasignó o editó. */
+  topicKey?: string;
+  /** Id local de la pregunta creada, o de aquella con la que se fusionó (no existe si se rechazó). */
+  localId?: string;
+  /** Etiquetas que la fusión añadió a la pregunta local (se quitan al deshacer el import). */
+  addedTags?: string[];
+  /** Temas que la fusión añadió a la pregunta local (se quitan al deshacer el import). */
+  addedTopicIds?: string[];
 }
 
 // ─── Settings ─────────────────────────────────────────────────────────────────
@@ -311,6 +624,21 @@ export interface AppSettings {
    * Permite hacer undo de un import concreto eliminando sus preguntas.
    */
   importHistory?: ImportHistoryEntry[];
+  /**
+   * Repasos mínimos de cada pregunta antes del examen. El scheduler comprime
+   * los intervalos para cumplirlo (por defecto 3).
+   */
+  examMinReviews?: number;
+  /** Presupuesto del plan diario: máximo de tarjetas al día. */
+  dailyCardBudget?: number;
+  /** Presupuesto del plan diario en minutos (se convierte a tarjetas). */
+  dailyMinutesBudget?: number;
+  /** Fallos seguidos a partir de los cuales una pregunta es "sanguijuela" (leech). */
+  leechThreshold?: number;
+  /** Suspender automáticamente las sanguijuelas (por defecto sí). */
+  leechAutoSuspend?: boolean;
+  /** Contribuidores de confianza: sus packs firmados se muestran como verificados. */
+  trustedContributors?: TrustedContributor[];
 }
 
 // ─── Deliverables & Grading (LOCAL — never exported to global bank) ───────────
@@ -349,6 +677,21 @@ export interface Deliverable {
 }
 
 
+/**
+ * Cómo puntúa una pregunta TEST en simulacros de examen (sobre 1 punto).
+ * - all_or_nothing: 1 si la selección es exacta, 0 si no
+ * - proportional: aciertos/correctas − errores/incorrectas, mínimo 0
+ * - negative: 1 si es exacta, −wrongPenalty si no (por defecto 1/(n−1), n = nº de opciones)
+ * `blankAllowed`: dejarla en blanco puntúa 0; si no, cuenta como fallo.
+ */
+export type TestScoringMode = 'all_or_nothing' | 'proportional' | 'negative';
+
+export interface TestScoringRule {
+  mode: TestScoringMode;
+  wrongPenalty?: number;
+  blankAllowed: boolean;
+}
+
 /**
  * Per-subject grading configuration. LOCAL data only.
  * id === subjectId for easy lookup.
@@ -364,4 +707,6 @@ export interface SubjectGradingConfig {
   testContinuousPoints: number;
   /** Exam grade (0-10) once taken. */
   examGrade?: number;
+  /** TEST scoring in exam sessions. Absent = all-or-nothing, blanks allowed. */
+  testScoring?: TestScoringRule;
 }
\ No newline at end of file
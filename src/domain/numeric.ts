@@ -0,0 +1,143 @@
+import type { Question, UserAnswer } from './models';
+
+/** Relative tolerance used when the question does not set one (1%). */
+export const DEFAULT_REL_TOLERANCE = 0.01;
+
+export interface ParsedNumber {
+  value: number;
+  /** Trailing unit as written, spaces removed (e.g. "m/s", "%", "kJ"). */
+  unit?: string;
+}
+
+// 1.2e-3 · 1,2E3 · 1.2·10^3 · 1.2x10^-3 · 1.2×10⁻³ (superscripts normalised first)
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-', '⁺': '+',
+};
+const NUMBER = String.raw`[+-]?(?:\d[\d.,\s]*\d|\d)`;
+const SCI = new RegExp(String.raw`^(${NUMBER})\s*(?:[eE]\s*([+-]?\d+)|(?:[x×·*]\s*10\s*\^?\s*\(?([+-]?\d+)\)?))`);
+const FRACTION = new RegExp(String.raw`^(${NUMBER})\s*\/\s*(${NUMBER})(?![\d.,])`);
+const PLAIN = new RegExp(String.raw`^(${NUMBER})`);
+
+/**
+ * Decimal separator heuristics:
+ * - both "," and "." → the last one is the decimal mark, the other groups thousands
+ * - only "," → decimal comma, unless it groups thousands ("1,234,567")
+ * - spaces inside the number are thousands separators
+ */
+function parseDecimal(raw: string): number | null {
+  let s = raw.replace(/\s+/g, '');
+  const lastComma = s.lastIndexOf(',');
+  const lastDot = s.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const group = decimal === ',' ? '.' : ',';
+    s = s.split(group).join('').replace(decimal, '.');
+  } else if (lastComma >= 0) {
+    s = /^[+-]?\d{1,3}(,\d{3}){2,}$/.test(s) ? s.replace(/,/g, '') : s.replace(',', '.');
+  }
+  if (!/^[+-]?\d+(\.\d+)?$/.test(s)) return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Parse a single numeric result as a student would type it. Null if there is no number. */
+export function parseNumeric(input: string): ParsedNumber | null {
+  const text = input
+    .trim()
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻⁺]/g, (c) => SUPERSCRIPTS[c])
+    .replace(/−/g, '-');
+  if (!text) return null;
+
+  let value: number | null = null;
+  let rest = '';
+
+  const sci = SCI.exec(text);
+  const frac = sci ? null : FRACTION.exec(text);
+  if (sci) {
+    const mantissa = parseDecimal(sci[1]);
+    const exp = Number(sci[2] ?? sci[3]);
+    if (mantissa != null) value = mantissa * Math.pow(10, exp);
+    rest = text.slice(sci[0].length);
+  } else if (frac) {
+    const num = parseDecimal(frac[1]);
+    const den = parseDecimal(frac[2]);
+    if (num != null && den != null && den !== 0) value = num / den;
+    rest = text.slice(frac[0].length);
+  } else {
+    const plain = PLAIN.exec(text);
+    if (plain) {
+      value = parseDecimal(plain[1]);
+      rest = text.slice(plain[0].length);
+    }
+  }
+  if (value == null) return null;
+
+  const unit = rest.replace(/\s+/g, '');
+  return unit ? { value, unit } : { value };
+}
+
+/**
+ * Expected sub-results of a PRACTICO question: `numericAnswer` may hold several
+ * separated by ";" or new lines. Null if any of them is not a number.
+ */
+export function parseExpectedResults(numericAnswer?: string): ParsedNumber[] | null {
+  if (!numericAnswer?.trim()) return null;
+  const parts = numericAnswer.split(/[;\n]/).map((p) => p.trim()).filter(Boolean);
+  const parsed = parts.map(parseNumeric);
+  return parsed.every(Boolean) ? (parsed as ParsedNumber[]) : null;
+}
+
+/** True if `given` is within tolerance of `expected`: |g − e| ≤ max(abs, rel·|e|). */
+export function withinTolerance(
+  given: number,
+  expected: number,
+  tolerance: { abs?: number; rel?: number }
+): boolean {
+  const abs = tolerance.abs ?? 0;
+  const rel = tolerance.abs == null && tolerance.rel == null ? DEFAULT_REL_TOLERANCE : tolerance.rel ?? 0;
+  const allowed = Math.max(abs, rel * Math.abs(expected), Number.EPSILON * 8);
+  return Math.abs(given - expected) <= allowed;
+}
+
+const normUnit = (u?: string) => u?.replace(/\s+/g, '');
+
+/**
+ * Compare one answer to one expected result. A missing unit is accepted; a
+ * different unit is not. Percentages also match their fraction (85.7% ≈ 0.857).
+ */
+export function matchesExpected(
+  given: ParsedNumber,
+  expected: ParsedNumber,
+  tolerance: { abs?: number; rel?: number }
+): boolean {
+  if (given.unit && expected.unit && normUnit(given.unit) !== normUnit(expected.unit)) return false;
+  if (withinTolerance(given.value, expected.value, tolerance)) return true;
+  if (expected.unit === '%' && !given.unit) return withinTolerance(given.value * 100, expected.value, tolerance);
+  if (given.unit === '%' && !expected.unit) return withinTolerance(given.value / 100, expected.value, tolerance);
+  return false;
+}
+
+export interface NumericScore {
+  result: 'CORRECT' | 'WRONG';
+  /** One entry per expected sub-result. */
+  matched: boolean[];
+}
+
+/**
+ * Auto-grade a PRACTICO answer against `numericAnswer`.
+ * Returns null — manual correction — when the question has no parseable
+ * expected result or the user did not type any parseable number.
+ */
+export function scoreNumeric(question: Question, answer: UserAnswer): NumericScore | null {
+  const expected = parseExpectedResults(question.numericAnswer);
+  if (!expected) return null;
+  const given = (answer.numericAnswers ?? []).map((g) => parseNumeric(g));
+  if (!given.some(Boolean)) return null;
+
+  const tolerance = { abs: question.numericAbsTolerance, rel: question.numericRelTolerance };
+  const matched = expected.map((e, i) => {
+    const g = given[i];
+    return g != null && matchesExpected(g, e, tolerance);
+  });
+  return { result: matched.every(Boolean) ? 'CORRECT' : 'WRONG', matched };
+}
@@ -0,0 +1,108 @@
+import type { QuestionType, RecallQuality } from './models';
+
+/**
+ * Time a question of each type should take in a timed exam. A correct answer
+ * slower than this is "slow but correct" and scheduled as a weaker recall.
+ */
+export const TARGET_RESPONSE_MS: Record<QuestionType, number> = {
+  TEST: 45_000,
+  COMPLETAR: 60_000,
+  DESARROLLO: 300_000,
+  PRACTICO: 600_000,
+};
+
+/** Anything longer is treated as the user walking away, not thinking. */
+export const MAX_RESPONSE_MS = 30 * 60_000;
+
+/** Elapsed ms since `shownAt`, or undefined if the measurement is not usable. */
+export function measureResponse(shownAt: number | null, at: number = Date.now()): number | undefined {
+  if (shownAt == null) return undefined;
+  const ms = at - shownAt;
+  return ms > 0 && ms <= MAX_RESPONSE_MS ? ms : undefined;
+}
+
+export function isSlow(type: QuestionType, responseMs: number): boolean {
+  return responseMs > TARGET_RESPONSE_MS[type];
+}
+
+/**
+ * Slow-but-correct answers count one step lower (Fácil → Bien, Bien → Difícil).
+ * Wrong and already "Difícil" answers are left as they are.
+ */
+export function timeAdjustedQuality(
+  quality: RecallQuality,
+  type: QuestionType,
+  responseMs?: number
+): RecallQuality {
+  if (responseMs == null || quality < 4 || !isSlow(type, responseMs)) return quality;
+  return (quality - 1) as RecallQuality;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** "42s", "3:05" */
+export function formatDuration(ms: number): string {
+  const secs = Math.round(ms / 1000);
+  if (secs < 60) return `${secs}s`;
+  const m = Math.floor(secs / 60);
+  const s = secs % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+export interface ResponseTimeRow {
+  key: string;
+  medianMs: number;
+  samples: number;
+}
+
+export interface ResponseTimeSummary {
+  byTopic: ResponseTimeRow[];
+  byType: ResponseTimeRow[];
+  /** Slowest questions relative to their type's target, slowest first. */
+  slowest: (ResponseTimeRow & { ratio: number })[];
+}
+
+/**
+ * Median response times from timed reviews, grouped by topic (primary topicId),
+ * question type and question.
+ */
+export function summarizeResponseTimes(
+  reviews: { questionId: string; responseMs?: number }[],
+  questions: { id: string; topicId: string; type: QuestionType }[],
+  slowestLimit = 10
+): ResponseTimeSummary {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const topic = new Map<string, number[]>();
+  const type = new Map<string, number[]>();
+  const question = new Map<string, number[]>();
+  const push = (m: Map<string, number[]>, key: string, ms: number) => {
+    const list = m.get(key);
+    if (list) list.push(ms);
+    else m.set(key, [ms]);
+  };
+  for (const r of reviews) {
+    const q = byId.get(r.questionId);
+    if (!q || r.responseMs == null) continue;
+    push(topic, q.topicId, r.responseMs);
+    push(type, q.type, r.responseMs);
+    push(question, q.id, r.responseMs);
+  }
+  const rows = (m: Map<string, number[]>) =>
+    [...m.entries()]
+      .map(([key, values]) => ({ key, medianMs: median(values)!, samples: values.length }))
+      .sort((a, b) => b.medianMs - a.medianMs);
+
+  return {
+    byTopic: rows(topic),
+    byType: rows(type),
+    slowest: rows(question)
+      .map((r) => ({ ...r, ratio: r.medianMs / TARGET_RESPONSE_MS[byId.get(r.key)!.type] }))
+      .sort((a, b) => b.ratio - a.ratio)
+      .slice(0, slowestLimit),
+  };
+}
@@ -0,0 +1,126 @@
+import type { Question, QuestionContent } from './models';
+
+/**
+ * Fields that make up a question's content and are versioned. Local state
+ * (stats, notes, starred, suspended) is deliberately excluded: reverting a
+ * revision never touches it.
+ */
+export const REVISION_FIELDS = [
+  'topicId',
+  'topicIds',
+  'type',
+  'prompt',
+  'explanation',
+  'difficulty',
+  'tags',
+  'origin',
+  'options',
+  'correctOptionIds',
+  'modelAnswer',
+  'keywords',
+  'numericAnswer',
+  'numericAbsTolerance',
+  'numericRelTolerance',
+  'clozeText',
+  'blanks',
+  'imageDataUrls',
+] as const satisfies readonly (keyof QuestionContent)[];
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  topicId: 'Tema',
+  topicIds: 'Temas',
+  type: 'Tipo',
+  prompt: 'Enunciado',
+  explanation: 'Explicación',
+  difficulty: 'Dificultad',
+  tags: 'Etiquetas',
+  origin: 'Origen',
+  options: 'Opciones',
+  correctOptionIds: 'Correctas',
+  modelAnswer: 'Respuesta modelo',
+  keywords: 'Palabras clave',
+  numericAnswer: 'Resultado',
+  numericAbsTolerance: 'Tolerancia absoluta',
+  numericRelTolerance: 'Tolerancia relativa',
+  clozeText: 'Texto con huecos',
+  blanks: 'Huecos',
+  imageDataUrls: 'Imágenes adjuntas',
+};
+
+export function questionContent(q: Partial<Question>): QuestionContent {
+  const content: Partial<QuestionContent> = {};
+  for (const field of REVISION_FIELDS) {
+    if (q[field] !== undefined) (content as Record<string, unknown>)[field] = q[field];
+  }
+  return content as QuestionContent;
+}
+
+/** Empty arrays and missing values are the same thing for comparison purposes. */
+function comparable(value: unknown): string {
+  if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) return '';
+  return JSON.stringify(value);
+}
+
+/** Fields whose value differs between two versions of a question. */
+export function changedFields(before: Partial<Question>, after: Partial<Question>): RevisionField[] {
+  return REVISION_FIELDS.filter((f) => comparable(before[f]) !== comparable(after[f]));
+}
+
+/**
+ * Human-readable text of a field, used by the diff view. Options list their
+ * text with ✓ on the correct ones; blanks list their accepted answers.
+ */
+export function fieldText(content: Partial<Question>, field: RevisionField): string {
+  const value = content[field];
+  if (value === undefined || value === null) return '';
+  if (field === 'options') {
+    const correct = new Set(content.correctOptionIds ?? []);
+    return (content.options ?? []).map((o) => `${correct.has(o.id) ? '✓' : '·'} ${o.text}`).join('\n');
+  }
+  if (field === 'correctOptionIds') {
+    const options = content.options ?? [];
+    return (content.correctOptionIds ?? []).map((id) => options.find((o) => o.id === id)?.text ?? id).join('\n');
+  }
+  if (field === 'blanks') {
+    return (content.blanks ?? []).map((b) => `${b.id}: ${b.accepted.join(' | ')}`).join('\n');
+  }
+  if (field === 'numericRelTolerance' && typeof value === 'number') return `${value * 100}%`;
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
+export interface DiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** Word-level diff (LCS over whitespace-separated tokens, keeping the whitespace). */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push('removed', a[i++]);
+    else push('added', b[j++]);
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
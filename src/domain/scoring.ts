@@ -1,5 +1,7 @@
-import type { Question, UserAnswer } from './models';
+import type { Question, TestScoringRule, UserAnswer } from './models';
 import { normalizeText } from './normalize';
+import { scoreNumeric } from './numeric';
+import { scoreBlanks } from './clozeMatch';
 
 /**
  * Auto-score a TEST question.
@@ -17,23 +19,16 @@ export function scoreTest(question: Question, answer: UserAnswer): 'CORRECT' | '
 
 /**
  * Auto-score a COMPLETAR question.
- * Each blank must match one of its accepted answers (after normalization).
+ * Each blank must match one of its accepted answers (see `matchBlank`).
  */
 export function scoreCompletar(question: Question, answer: UserAnswer): 'CORRECT' | 'WRONG' {
-  const blanks = question.blanks ?? [];
-  const blankAnswers = answer.blankAnswers ?? {};
-
-  for (const blank of blanks) {
-    const userInput = normalizeText(blankAnswers[blank.id] ?? '');
-    const accepted = blank.accepted.map((a) => normalizeText(a));
-    if (!accepted.includes(userInput)) return 'WRONG';
-  }
-  return 'CORRECT';
+  return scoreBlanks(question, answer).every((b) => b.correct) ? 'CORRECT' : 'WRONG';
 }
 
 /**
  * Main scoring entry point.
- * Returns null for DESARROLLO (manual correction required).
+ * Returns null for DESARROLLO, and for PRACTICO without a gradable numeric
+ * result (manual correction required).
  */
 export function scoreAnswer(question: Question, answer: UserAnswer): 'CORRECT' | 'WRONG' | null {
   switch (question.type) {
@@ -41,15 +36,114 @@ export function scoreAnswer(question: Question, answer: UserAnswer): 'CORRECT' |
       return scoreTest(question, answer);
     case 'COMPLETAR':
       return scoreCompletar(question, answer);
-    case 'DESARROLLO':
     case 'PRACTICO':
-      // Manual correction only (PRACTICO is similar to DESARROLLO)
+      return answer.manualResult ?? scoreNumeric(question, answer)?.result ?? null;
+    case 'DESARROLLO':
       return answer.manualResult ?? null;
     default:
       return null;
   }
 }
 
+// ─── Points (exam marks) ──────────────────────────────────────────────────────
+
+export const DEFAULT_TEST_SCORING: TestScoringRule = { mode: 'all_or_nothing', blankAllowed: true };
+
+/** Penalty per wrong TEST answer: the configured one or 1/(n−1). */
+export function wrongPenalty(question: Question, rule: TestScoringRule): number {
+  if (rule.wrongPenalty != null) return rule.wrongPenalty;
+  const n = question.options?.length ?? 0;
+  return n > 1 ? 1 / (n - 1) : 0;
+}
+
+/** Points for a blank (or unanswered) TEST question: 0, or a wrong answer when blanks are not allowed. */
+export function blankTestPoints(question: Question, rule: TestScoringRule): number {
+  if (rule.blankAllowed) return 0;
+  return rule.mode === 'negative' ? -wrongPenalty(question, rule) : 0;
+}
+
+/**
+ * Points (out of 1) for a TEST answer under `rule`.
+ * proportional: hits/|correct| − misses/|incorrect|, floored at 0.
+ */
+export function scoreTestPoints(question: Question, answer: UserAnswer, rule: TestScoringRule): number {
+  const selected = answer.selectedOptionIds ?? [];
+  if (selected.length === 0) return blankTestPoints(question, rule);
+
+  const exact = scoreTest(question, answer) === 'CORRECT';
+  switch (rule.mode) {
+    case 'all_or_nothing':
+      return exact ? 1 : 0;
+    case 'negative':
+      return exact ? 1 : -wrongPenalty(question, rule);
+    case 'proportional': {
+      const correct = new Set(question.correctOptionIds ?? []);
+      const incorrectCount = (question.options?.length ?? 0) - correct.size;
+      const hits = selected.filter((id) => correct.has(id)).length;
+      const misses = selected.length - hits;
+      const points = (correct.size ? hits / correct.size : 0) - (incorrectCount > 0 ? misses / incorrectCount : 0);
+      return Math.max(0, points);
+    }
+  }
+}
+
+/**
+ * Points (out of 1) for any answer. TEST uses the scoring rule; COMPLETAR and
+ * auto-graded PRACTICO get partial credit per blank / sub-result; the rest score
+ * 1/0 from their result. Null while pending manual correction.
+ */
+export function answerPoints(question: Question, answer: UserAnswer, rule: TestScoringRule): number | null {
+  if (question.type === 'TEST') return scoreTestPoints(question, answer, rule);
+  if (answer.result == null) return null;
+  if (question.type === 'COMPLETAR' && !answer.manualResult) {
+    const blanks = scoreBlanks(question, answer);
+    if (blanks.length > 0) return blanks.filter((b) => b.correct).length / blanks.length;
+  }
+  if (question.type === 'PRACTICO' && !answer.manualResult) {
+    // Partial credit per numeric sub-result
+    const numeric = scoreNumeric(question, answer);
+    if (numeric) return numeric.matched.filter(Boolean).length / numeric.matched.length;
+  }
+  return answer.result === 'CORRECT' ? 1 : 0;
+}
+
+export interface ExamMark {
+  points: number;
+  maxPoints: number;
+  /** 0–10, clamped (negative marking can push points below 0). */
+  mark: number;
+  /** Answers still waiting for manual correction (counted as 0). */
+  pending: number;
+}
+
+/**
+ * Exam mark for a session: every question is worth 1 point, unanswered ones 0
+ * except TEST questions, which score as a blank under their rule (a wrong answer
+ * when blanks are not allowed).
+ * Uses the stored `answer.score` when present so later rule changes don't rewrite history.
+ */
+export function examMark(
+  questions: Question[],
+  answers: UserAnswer[],
+  ruleFor: (question: Question) => TestScoringRule
+): ExamMark {
+  let points = 0;
+  let pending = 0;
+  for (const q of questions) {
+    const a = answers.find((x) => x.questionId === q.id);
+    if (!a) {
+      if (q.type === 'TEST') points += blankTestPoints(q, ruleFor(q));
+      continue;
+    }
+    const p = a.score ?? answerPoints(q, a, ruleFor(q));
+    if (p == null) pending++;
+    else points += p;
+  }
+  const maxPoints = questions.length;
+  const mark = maxPoints === 0 ? 0 : Math.min(10, Math.max(0, (points / maxPoints) * 10));
+  return { points, maxPoints, mark, pending };
+}
+
 /**
  * Check how many keyword hints match the user's free text (for DESARROLLO indicator).
  */
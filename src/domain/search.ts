@@ -0,0 +1,279 @@
+import type { Question, QuestionOrigin, QuestionType } from './models';
+import { normalizeText } from './normalize';
+
+export type SearchField = 'prompt' | 'options' | 'cloze' | 'modelAnswer' | 'explanation' | 'notes' | 'tags' | 'pdf';
+
+/** Weight of a hit in each field; the prompt matters most. */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  prompt: 3,
+  tags: 2,
+  options: 1.5,
+  cloze: 1.5,
+  modelAnswer: 1,
+  explanation: 1,
+  notes: 1,
+  pdf: 0.5,
+};
+
+/** `pdfText`: text of the PDF page each question is anchored to (question id → text). */
+export function fieldText(question: Question, field: SearchField, pdfText?: Map<string, string>): string {
+  switch (field) {
+    case 'prompt':
+      return question.prompt;
+    case 'options':
+      return (question.options ?? []).map((o) => o.text).join('\n');
+    case 'cloze':
+      return question.clozeText ?? '';
+    case 'modelAnswer':
+      return question.modelAnswer ?? '';
+    case 'explanation':
+      return question.explanation ?? '';
+    case 'notes':
+      return question.notes ?? '';
+    case 'tags':
+      return (question.tags ?? []).join(' ');
+    case 'pdf':
+      return pdfText?.get(question.id) ?? '';
+  }
+}
+
+/** Diacritic- and case-insensitive words ("Tokenización," → "tokenizacion"). */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+export interface SearchIndex {
+  /** token → question id → fields where it appears */
+  postings: Map<string, Map<string, Set<SearchField>>>;
+  /** Keys of `postings`, sorted, for prefix lookups. */
+  tokens: string[];
+  questions: Map<string, Question>;
+  pdfText: Map<string, string>;
+}
+
+export function buildSearchIndex(questions: Question[], pdfText = new Map<string, string>()): SearchIndex {
+  const postings: SearchIndex['postings'] = new Map();
+  for (const q of questions) {
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const token of tokenize(fieldText(q, field, pdfText))) {
+        let docs = postings.get(token);
+        if (!docs) postings.set(token, (docs = new Map()));
+        let fields = docs.get(q.id);
+        if (!fields) docs.set(q.id, (fields = new Set()));
+        fields.add(field);
+      }
+    }
+  }
+  return {
+    postings,
+    tokens: [...postings.keys()].sort(),
+    questions: new Map(questions.map((q) => [q.id, q])),
+    pdfText,
+  };
+}
+
+/** Indexed tokens starting with `prefix` (binary search over the sorted token list). */
+function tokensWithPrefix(index: SearchIndex, prefix: string): string[] {
+  const { tokens } = index;
+  let lo = 0;
+  let hi = tokens.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (tokens[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const found: string[] = [];
+  for (let i = lo; i < tokens.length && tokens[i].startsWith(prefix); i++) found.push(tokens[i]);
+  return found;
+}
+
+// ─── Query ────────────────────────────────────────────────────────────────────
+
+export interface SearchFilters {
+  type?: QuestionType;
+  origin?: QuestionOrigin;
+  /** Inclusive range; `difficulty:3` is [3, 3]. */
+  difficulty?: [number, number];
+  tag?: string;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  filters: SearchFilters;
+  /** Filters that could not be understood, shown back to the user. */
+  invalid: string[];
+}
+
+const TYPES: QuestionType[] = ['TEST', 'DESARROLLO', 'COMPLETAR', 'PRACTICO'];
+const ORIGINS: QuestionOrigin[] = ['test', 'examen_anterior', 'clase', 'alumno'];
+const FILTER_ALIASES: Record<string, keyof SearchFilters> = {
+  type: 'type',
+  tipo: 'type',
+  origin: 'origin',
+  origen: 'origin',
+  difficulty: 'difficulty',
+  dificultad: 'difficulty',
+  tag: 'tag',
+};
+
+/**
+ * `tokenizacion type:test difficulty:2-4 tag:"deep learning"` → terms + filters.
+ * Filter values are accent/case-insensitive; quoted values may contain spaces.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const terms: string[] = [];
+  const filters: SearchFilters = {};
+  const invalid: string[] = [];
+
+  for (const m of input.matchAll(/(\p{L}+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gu)) {
+    const [raw, key, quoted, bare, phrase, word] = m;
+    const filter = key ? FILTER_ALIASES[normalizeText(key)] : undefined;
+    if (!filter) {
+      terms.push(...tokenize(phrase ?? word ?? raw));
+      continue;
+    }
+    const value = normalizeText(quoted ?? bare ?? '');
+    if (filter === 'type') {
+      const type = TYPES.find((t) => t.toLowerCase() === value);
+      if (type) filters.type = type;
+      else invalid.push(raw);
+    } else if (filter === 'origin') {
+      const origin = ORIGINS.find((o) => o === value.replace(/\s+/g, '_'));
+      if (origin) filters.origin = origin;
+      else invalid.push(raw);
+    } else if (filter === 'difficulty') {
+      const range = /^([1-5])(?:-([1-5]))?$/.exec(value);
+      if (range) filters.difficulty = [Number(range[1]), Number(range[2] ?? range[1])];
+      else invalid.push(raw);
+    } else if (value) {
+      filters.tag = value;
+    }
+  }
+  return { terms, filters, invalid };
+}
+
+function matchesFilters(q: Question, f: SearchFilters): boolean {
+  if (f.type && q.type !== f.type) return false;
+  if (f.origin && q.origin !== f.origin) return false;
+  if (f.difficulty && (!q.difficulty || q.difficulty < f.difficulty[0] || q.difficulty > f.difficulty[1])) return false;
+  if (f.tag && !(q.tags ?? []).some((t) => normalizeText(t) === f.tag)) return false;
+  return true;
+}
+
+export interface SearchHit {
+  question: Question;
+  score: number;
+  /** Fields where some term matched, best first. */
+  fields: SearchField[];
+}
+
+type TermScores = Map<string, { score: number; fields: Set<SearchField> }>;
+
+/**
+ * Every term must match (as a word prefix, so results update while typing);
+ * whole-word hits and hits in heavier fields rank higher. With filters only,
+ * every question that passes them is returned.
+ */
+export function search(index: SearchIndex, query: ParsedQuery, limit = 100): SearchHit[] {
+  const { terms, filters } = query;
+  let scores: TermScores | null = null;
+
+  for (const term of terms) {
+    const termScores: TermScores = new Map();
+    for (const token of tokensWithPrefix(index, term)) {
+      const docs = index.postings.get(token)!;
+      const exact = token === term ? 1 : 0.5;
+      for (const [id, fields] of docs) {
+        const entry = termScores.get(id) ?? { score: 0, fields: new Set<SearchField>() };
+        let best = 0;
+        for (const f of fields) {
+          best = Math.max(best, FIELD_WEIGHTS[f]);
+          entry.fields.add(f);
+        }
+        entry.score = Math.max(entry.score, best * exact);
+        termScores.set(id, entry);
+      }
+    }
+    const merged: TermScores = scores === null ? termScores : new Map();
+    if (scores !== null) {
+      for (const [id, prev] of scores) {
+        const cur = termScores.get(id);
+        if (cur) merged.set(id, { score: prev.score + cur.score, fields: new Set([...prev.fields, ...cur.fields]) });
+      }
+    }
+    if (merged.size === 0) return [];
+    scores = merged;
+  }
+
+  const candidates: SearchHit[] = scores
+    ? [...scores].map(([id, s]) => ({
+        question: index.questions.get(id)!,
+        score: s.score,
+        fields: [...s.fields].sort((a, b) => FIELD_WEIGHTS[b] - FIELD_WEIGHTS[a]),
+      }))
+    : [...index.questions.values()].map((question) => ({ question, score: 0, fields: [] }));
+
+  return candidates
+    .filter((h) => matchesFilters(h.question, filters))
+    .sort((a, b) => b.score - a.score || a.question.prompt.localeCompare(b.question.prompt))
+    .slice(0, limit);
+}
+
+// ─── Snippets ─────────────────────────────────────────────────────────────────
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/** Lowercase, accent-free copy of `text` with a map back to original offsets. */
+function fold(text: string): { folded: string; origin: number[] } {
+  let folded = '';
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const f = text[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (let j = 0; j < f.length; j++) origin.push(i);
+    folded += f;
+  }
+  origin.push(text.length);
+  return { folded, origin };
+}
+
+/**
+ * A window of `text` around the first matching term, split into plain and
+ * highlighted parts (terms match at word starts, accent-insensitive).
+ */
+export function snippet(text: string, terms: string[], radius = 70): SnippetPart[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return [];
+  const { folded, origin } = fold(clean);
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    const re = new RegExp(`(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gu');
+    for (const m of folded.matchAll(re)) {
+      ranges.push([origin[m.index!], origin[m.index! + m[0].length]]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const first = ranges[0]?.[0] ?? 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(clean.length, (ranges[0]?.[1] ?? 0) + radius * 2);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+  let pos = start;
+  for (const [a, b] of ranges) {
+    if (b <= pos || a >= end) continue;
+    const from = Math.max(a, pos);
+    if (from > pos) parts.push({ text: clean.slice(pos, from), match: false });
+    parts.push({ text: clean.slice(from, Math.min(b, end)), match: true });
+    pos = Math.min(b, end);
+  }
+  if (pos < end) parts.push({ text: clean.slice(pos, end), match: false });
+  if (end < clean.length) parts.push({ text: '…', match: false });
+  return parts;
+}
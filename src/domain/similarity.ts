@@ -0,0 +1,182 @@
+import type { Question } from './models';
+import { normalizeText } from './normalize';
+
+/**
+ * Near-duplicate detection. `computeContentHash` only matches identical
+ * normalized content; here questions are compared as sets of word shingles
+ * (unigrams + bigrams over prompt and answers), so reordered options,
+ * punctuation changes or a reworded clause still score high.
+ *
+ * Candidate pairs come from MinHash + LSH banding, then the exact Jaccard
+ * similarity of the shingle sets is the reported score.
+ */
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.7;
+
+const NUM_HASHES = 64;
+const BANDS = 16;
+const ROWS = NUM_HASHES / BANDS;
+
+export type SimilarityInput = Pick<
+  Question,
+  'type' | 'prompt' | 'options' | 'modelAnswer' | 'numericAnswer' | 'clozeText' | 'blanks'
+>;
+
+export interface SimilarPair {
+  a: string;
+  b: string;
+  /** Jaccard similarity of the shingle sets, 0–1. */
+  score: number;
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/[^a-z0-9ñ\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/** Word unigrams and bigrams of the question's prompt and answers. */
+export function questionShingles(q: SimilarityInput): Set<string> {
+  const parts = [q.type === 'COMPLETAR' ? q.clozeText ?? q.prompt : q.prompt];
+  if (q.type === 'TEST') parts.push(...(q.options ?? []).map((o) => o.text));
+  if (q.type === 'DESARROLLO' || q.type === 'PRACTICO') parts.push(q.modelAnswer ?? '', q.numericAnswer ?? '');
+  if (q.type === 'COMPLETAR') parts.push(...(q.blanks ?? []).map((b) => b.accepted[0] ?? ''));
+
+  const shingles = new Set<string>();
+  for (const part of parts) {
+    const tokens = tokenize(part);
+    tokens.forEach((t, i) => {
+      shingles.add(t);
+      if (i > 0) shingles.add(`${tokens[i - 1]} ${t}`);
+    });
+  }
+  return shingles;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let inter = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const s of small) if (large.has(s)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+/** 32-bit FNV-1a. */
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Fixed seeds so signatures are stable across runs
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fnv1a(`minhash-${i}`) | 1);
+
+export function minHashSignature(shingles: Set<string>): Uint32Array {
+  const sig = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const s of shingles) {
+    const h = fnv1a(s);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const v = (Math.imul(h ^ SEEDS[i], 0x9e3779b1) ^ SEEDS[i]) >>> 0;
+      if (v < sig[i]) sig[i] = v;
+    }
+  }
+  return sig;
+}
+
+interface Indexed {
+  id: string;
+  type: Question['type'];
+  shingles: Set<string>;
+  signature: Uint32Array;
+}
+
+function index(id: string, q: SimilarityInput): Indexed {
+  const shingles = questionShingles(q);
+  return { id, type: q.type, shingles, signature: minHashSignature(shingles) };
+}
+
+/** LSH band keys; the type is part of the key so only same-type questions collide. */
+function bandKeys(item: Indexed): string[] {
+  const keys: string[] = [];
+  for (let b = 0; b < BANDS; b++) {
+    keys.push(`${item.type}|${b}:${item.signature.slice(b * ROWS, (b + 1) * ROWS).join(',')}`);
+  }
+  return keys;
+}
+
+function lshBuckets(items: Indexed[]): Map<string, number[]> {
+  const buckets = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    // Nothing to compare (e.g. image-only prompts): never reported as a duplicate
+    if (item.shingles.size === 0) return;
+    for (const key of bandKeys(item)) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+  });
+  return buckets;
+}
+
+/**
+ * All pairs of questions in `questions` whose similarity reaches `threshold`.
+ * Only questions of the same type are compared. Pairs are sorted by score, highest first.
+ */
+export function findSimilarPairs(
+  questions: (SimilarityInput & { id: string })[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): SimilarPair[] {
+  const items = questions.map((q) => index(q.id, q));
+  const buckets = lshBuckets(items);
+
+  const seen = new Set<string>();
+  const pairs: SimilarPair[] = [];
+  for (const bucket of buckets.values()) {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) {
+        const key = `${bucket[x]}-${bucket[y]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const score = jaccard(items[bucket[x]].shingles, items[bucket[y]].shingles);
+        if (score >= threshold) pairs.push({ a: items[bucket[x]].id, b: items[bucket[y]].id, score });
+      }
+    }
+  }
+  return pairs.sort((p, q) => q.score - p.score);
+}
+
+/**
+ * For each candidate, the most similar question of `pool` above `threshold`
+ * (candidate ids that match nothing are absent from the result).
+ */
+export function findBestMatches(
+  candidates: (SimilarityInput & { id: string })[],
+  pool: (SimilarityInput & { id: string })[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): Map<string, { id: string; score: number }> {
+  const poolItems = pool.map((q) => index(q.id, q));
+  const buckets = lshBuckets(poolItems);
+
+  const result = new Map<string, { id: string; score: number }>();
+  for (const candidate of candidates) {
+    const item = index(candidate.id, candidate);
+    if (item.shingles.size === 0) continue;
+    const tried = new Set<number>();
+    let best: { id: string; score: number } | undefined;
+    for (const key of bandKeys(item)) {
+      for (const i of buckets.get(key) ?? []) {
+        if (tried.has(i) || poolItems[i].id === candidate.id) continue;
+        tried.add(i);
+        const score = jaccard(item.shingles, poolItems[i].shingles);
+        if (score >= threshold && (!best || score > best.score)) best = { id: poolItems[i].id, score };
+      }
+    }
+    if (best) result.set(candidate.id, best);
+  }
+  return result;
+}
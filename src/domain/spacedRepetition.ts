@@ -1,4 +1,4 @@
-import type { Question } from './models';
+import type { FsrsState, Question, QuestionStats, RecallQuality, SchedulerKind, UserAnswer } from './models';
 
 export interface SM2Stats {
   easeFactor: number;
@@ -6,13 +6,46 @@ export interface SM2Stats {
   repetitions: number;
 }
 
+/** Grades offered in the UI, in button order (keys 1-4). */
+export const RECALL_GRADES: { quality: RecallQuality; label: string }[] = [
+  { quality: 1, label: 'Otra vez' },
+  { quality: 3, label: 'Difícil' },
+  { quality: 4, label: 'Bien' },
+  { quality: 5, label: 'Fácil' },
+];
+
+/** Default grade for a correct answer the user did not grade explicitly. */
+export const DEFAULT_CORRECT_QUALITY: RecallQuality = 4;
+
+/**
+ * Map a binary result to a recall quality.
+ * Used for legacy answers (before graded quality existed) and auto-scored answers
+ * the user did not grade: CORRECT → Good (4), WRONG → Again (1).
+ */
+export function qualityFromResult(result: 'CORRECT' | 'WRONG'): RecallQuality {
+  return result === 'CORRECT' ? DEFAULT_CORRECT_QUALITY : 1;
+}
+
+export function resultFromQuality(quality: RecallQuality): 'CORRECT' | 'WRONG' {
+  return quality >= 3 ? 'CORRECT' : 'WRONG';
+}
+
+/**
+ * Effective quality of an answer: the stored grade, or one derived from its result.
+ * Returns null while the answer is still pending manual correction.
+ */
+export function answerQuality(answer: Pick<UserAnswer, 'quality' | 'result'>): RecallQuality | null {
+  if (answer.quality != null) return answer.quality;
+  return answer.result ? qualityFromResult(answer.result) : null;
+}
+
 export function calcNextReview(
   current: Partial<SM2Stats>,
-  result: 'CORRECT' | 'WRONG'
+  grade: RecallQuality | 'CORRECT' | 'WRONG'
 ): SM2Stats & { nextReviewAt: string } {
   const ef = current.easeFactor ?? 2.5;
   const reps = current.repetitions ?? 0;
-  const q = result === 'CORRECT' ? 5 : 0;
+  const q = typeof grade === 'number' ? grade : qualityFromResult(grade);
 
   let newEf = ef + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
   newEf = Math.max(1.3, newEf);
@@ -27,7 +60,8 @@ export function calcNextReview(
     newReps = reps + 1;
     if (reps === 0) newInterval = 1;
     else if (reps === 1) newInterval = 6;
-    else newInterval = Math.round((current.interval ?? 1) * newEf);
+    // A 0-day interval (exam-eve compression) grows again from 1
+    else newInterval = Math.round((current.interval || 1) * newEf);
   }
 
   const nextDate = new Date();
@@ -41,8 +75,213 @@ export function calcNextReview(
   };
 }
 
-export function sortByPriority(questions: Question[]): Question[] {
+// ─── FSRS ─────────────────────────────────────────────────────────────────────
+//
+// Free Spaced Repetition Scheduler (v4.5 default parameters). Models each card
+// with a stability S (days until recall probability drops to 90%) and a
+// difficulty D (1–10); the retrievability R = (1 + FACTOR·t/S)^DECAY decays
+// with elapsed days t. Intervals target FSRS_DESIRED_RETENTION.
+
+export const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+export const FSRS_DESIRED_RETENTION = 0.9;
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MAX_INTERVAL_DAYS = 3650;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** FSRS rating: 1 Again, 2 Hard, 3 Good, 4 Easy. */
+type FsrsRating = 1 | 2 | 3 | 4;
+
+function fsrsRating(quality: RecallQuality): FsrsRating {
+  if (quality < 3) return 1;
+  if (quality === 3) return 2;
+  if (quality === 4) return 3;
+  return 4;
+}
+
+const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+
+function initDifficulty(g: FsrsRating): number {
+  const w = FSRS_WEIGHTS;
+  return clampDifficulty(w[4] - (g - 3) * w[5]);
+}
+
+function nextDifficulty(d: number, g: FsrsRating): number {
+  const w = FSRS_WEIGHTS;
+  const next = d - w[6] * (g - 3);
+  // Mean reversion towards the initial difficulty of a "Good" answer
+  return clampDifficulty(w[7] * initDifficulty(3) + (1 - w[7]) * next);
+}
+
+function recallStability(d: number, s: number, r: number, g: FsrsRating): number {
+  const w = FSRS_WEIGHTS;
+  const hardPenalty = g === 2 ? w[15] : 1;
+  const easyBonus = g === 4 ? w[16] : 1;
+  return s * (1 + Math.exp(w[8]) * (11 - d) * Math.pow(s, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+}
+
+function forgetStability(d: number, s: number, r: number): number {
+  const w = FSRS_WEIGHTS;
+  const next = w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r));
+  return Math.min(next, s);
+}
+
+function fsrsInterval(stability: number): number {
+  const days = (stability / FACTOR) * (Math.pow(FSRS_DESIRED_RETENTION, 1 / DECAY) - 1);
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+}
+
+/** Probability (0–1) of recalling the card at `at`. */
+export function retrievability(state: FsrsState, at: Date = new Date()): number {
+  const elapsed = Math.max(0, (at.getTime() - new Date(state.lastReviewAt).getTime()) / DAY_MS);
+  return Math.pow(1 + (FACTOR * elapsed) / state.stability, DECAY);
+}
+
+/**
+ * FSRS state for a card, seeding it from its SM-2 history when it has none yet.
+ * - stability ≈ the SM-2 interval already earned (or the initial stability of the last grade)
+ * - difficulty from the ease factor: EF 2.5 → D 5, each −0.2 EF ≈ +1 D
+ * Returns undefined for cards never reviewed.
+ */
+export function seedFsrsState(stats: QuestionStats): FsrsState | undefined {
+  if (stats.fsrs) return stats.fsrs;
+  if (stats.seen === 0) return undefined;
+  const ef = stats.easeFactor ?? 2.5;
+  const lastGrade = fsrsRating(stats.lastQuality ?? qualityFromResult(stats.lastResult ?? 'WRONG'));
+  const stability = stats.repetitions && stats.interval ? stats.interval : FSRS_WEIGHTS[lastGrade - 1];
+  return {
+    stability,
+    difficulty: clampDifficulty(5 + (2.5 - ef) * 5),
+    lastReviewAt: stats.lastSeenAt ?? new Date().toISOString(),
+    lapses: stats.wrong,
+  };
+}
+
+export function calcNextReviewFsrs(
+  stats: QuestionStats,
+  quality: RecallQuality,
+  now: Date = new Date()
+): { fsrs: FsrsState; interval: number; nextReviewAt: string } {
+  const g = fsrsRating(quality);
+  const prev = seedFsrsState(stats);
+
+  let stability: number;
+  let difficulty: number;
+  if (!prev) {
+    stability = FSRS_WEIGHTS[g - 1];
+    difficulty = initDifficulty(g);
+  } else {
+    const r = retrievability(prev, now);
+    stability = g === 1
+      ? forgetStability(prev.difficulty, prev.stability, r)
+      : recallStability(prev.difficulty, prev.stability, r, g);
+    difficulty = nextDifficulty(prev.difficulty, g);
+  }
+
+  const interval = fsrsInterval(stability);
+  const nextDate = new Date(now);
+  nextDate.setDate(nextDate.getDate() + interval);
+
+  return {
+    fsrs: {
+      stability,
+      difficulty,
+      lastReviewAt: now.toISOString(),
+      lapses: (prev?.lapses ?? 0) + (g === 1 && prev ? 1 : 0),
+    },
+    interval,
+    nextReviewAt: nextDate.toISOString().split('T')[0],
+  };
+}
+
+// ─── Exam-aware compression ───────────────────────────────────────────────────
+
+/** Default minimum number of reviews every card should get before the exam. */
+export const DEFAULT_EXAM_MIN_REVIEWS = 3;
+
+export interface ExamConstraint {
+  /** ISO YYYY-MM-DD. */
+  examDate: string;
+  /** Reviews each card should still get before the exam. */
+  minReviews: number;
+}
+
+/** Whole days from `from` (local day) until `isoDate`. */
+export function daysUntil(isoDate: string, from: Date = new Date()): number {
+  const start = new Date(from);
+  start.setHours(0, 0, 0, 0);
+  const target = new Date(isoDate + 'T00:00:00');
+  return Math.round((target.getTime() - start.getTime()) / DAY_MS);
+}
+
+/**
+ * Cap an interval so the card still fits `minReviews` reviews before the exam:
+ * interval ≤ floor(daysLeft / minReviews), and never later than the day before
+ * the exam. Recomputed at every review, so intervals shrink as the exam nears.
+ * With the exam tomorrow the only day left is today (interval 0).
+ * Past exams leave the interval untouched.
+ */
+export function compressForExam(
+  interval: number,
+  exam: ExamConstraint,
+  now: Date = new Date()
+): { interval: number; nextReviewAt: string } | null {
+  const daysLeft = daysUntil(exam.examDate, now);
+  if (daysLeft <= 0) return null;
+  const cap = daysLeft === 1 ? 0 : Math.max(1, Math.min(daysLeft - 1, Math.floor(daysLeft / Math.max(1, exam.minReviews))));
+  if (interval <= cap) return null;
+  const nextDate = new Date(now);
+  nextDate.setDate(nextDate.getDate() + cap);
+  return { interval: cap, nextReviewAt: nextDate.toISOString().split('T')[0] };
+}
+
+/**
+ * SM-2 fields kept in step with an FSRS review, so switching the subject back to
+ * SM-2 resumes from the FSRS interval instead of stale values. Inverse of the
+ * difficulty mapping in seedFsrsState.
+ */
+function sm2FromFsrs(stats: QuestionStats, quality: RecallQuality, fsrs: FsrsState): Pick<SM2Stats, 'easeFactor' | 'repetitions'> {
+  return {
+    easeFactor: Math.max(1.3, 2.5 - (fsrs.difficulty - 5) / 5),
+    repetitions: quality < 3 ? 0 : (stats.repetitions ?? 0) + 1,
+  };
+}
+
+/**
+ * Scheduler-agnostic entry point: returns the stats fields to merge after a review.
+ * With an exam constraint the resulting interval is compressed to fit before the exam.
+ */
+export function scheduleReview(
+  stats: QuestionStats,
+  quality: RecallQuality,
+  scheduler: SchedulerKind = 'sm2',
+  exam?: ExamConstraint
+): Partial<QuestionStats> {
+  let next: Partial<QuestionStats> & { interval: number };
+  if (scheduler === 'fsrs') {
+    const fsrs = calcNextReviewFsrs(stats, quality);
+    next = { ...fsrs, ...sm2FromFsrs(stats, quality, fsrs.fsrs) };
+  } else {
+    next = calcNextReview(stats, quality);
+  }
+  const compressed = exam ? compressForExam(next.interval, exam) : null;
+  return compressed ? { ...next, ...compressed } : next;
+}
+
+// ─── Priority ─────────────────────────────────────────────────────────────────
+
+/**
+ * Overdue (or never scheduled) questions first, then upcoming by date.
+ * With FSRS, overdue questions are ordered by retrievability (most forgotten first)
+ * instead of by due date.
+ */
+export function sortByPriority(questions: Question[], scheduler: SchedulerKind = 'sm2'): Question[] {
   const today = new Date().toISOString().split('T')[0];
+  const now = new Date();
+  const recall = (q: Question) => (q.stats.fsrs ? retrievability(q.stats.fsrs, now) : 0);
   return [...questions].sort((a, b) => {
     const aDate = a.stats.nextReviewAt ?? '0000-00-00';
     const bDate = b.stats.nextReviewAt ?? '0000-00-00';
@@ -50,6 +289,7 @@ export function sortByPriority(questions: Question[]): Question[] {
     const bOverdue = bDate <= today;
     if (aOverdue && !bOverdue) return -1;
     if (!aOverdue && bOverdue) return 1;
+    if (scheduler === 'fsrs' && aOverdue && bOverdue) return recall(a) - recall(b);
     return aDate.localeCompare(bDate);
   });
 }
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import {
+  commitInterop,
+  exportAnkiPackage,
+  exportDelimited,
+  parseAnkiPackage,
+  parseDelimited,
+  previewInterop,
+  type InteropPreview,
+} from '@/data/ankiInterop';
+import { slugify } from '@/domain/normalize';
+import type { Question, Topic } from '@/domain/models';
+import { Badge, Button, Modal, Select, TypeBadge } from './index';
+
+const PREVIEW_ROWS = 30;
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+interface AnkiInteropModalProps {
+  open: boolean;
+  onClose: () => void;
+  subjectName: string;
+  topics: Topic[];
+  /** Preguntas a exportar (la selección o todas las de la asignatura). */
+  exportQuestions: Question[];
+  onImported: (count: number) => void;
+}
+
+export function AnkiInteropModal({ open, onClose, subjectName, topics, exportQuestions, onImported }: AnkiInteropModalProps) {
+  const [topicId, setTopicId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<InteropPreview | null>(null);
+  const [keepReviewState, setKeepReviewState] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setPreview(null);
+    setError('');
+    setTopicId((prev) => (topics.some((t) => t.id === prev) ? prev : topics[0]?.id ?? ''));
+  }, [open, topics]);
+
+  // Recalcula la vista previa al cambiar fichero o tema (los duplicados dependen del tema)
+  useEffect(() => {
+    const topic = topics.find((t) => t.id === topicId);
+    if (!file || !topic) { setPreview(null); return; }
+    let cancelled = false;
+    setBusy(true);
+    setError('');
+    (async () => {
+      try {
+        const parsed = file.name.toLowerCase().endsWith('.apkg')
+          ? await parseAnkiPackage(file)
+          : parseDelimited(await file.text(), file.name);
+        const result = await previewInterop(parsed, topic);
+        if (!cancelled) setPreview(result);
+      } catch (err) {
+        if (!cancelled) { setPreview(null); setError(err instanceof Error ? err.message : String(err)); }
+      } finally {
+        if (!cancelled) setBusy(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file, topicId, topics]);
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setBusy(true);
+    try {
+      const { imported } = await commitInterop(preview, keepReviewState);
+      onImported(imported);
+    } catch (err) {
+      setError('Error al importar: ' + String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async (format: 'apkg' | 'csv' | 'tsv') => {
+    const base = slugify(subjectName) || 'preguntas';
+    setBusy(true);
+    try {
+      if (format === 'apkg') {
+        downloadBlob(await exportAnkiPackage(exportQuestions, subjectName), `${base}.apkg`);
+      } else {
+        const text = exportDelimited(exportQuestions, format === 'tsv' ? '\t' : ',');
+        downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `${base}.${format}`);
+      }
+    } catch (err) {
+      alert('Error al exportar: ' + String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const hasReviewState = preview?.rows.some((r) => r.question.stats.seen > 0) ?? false;
+
+  return (
+    <Modal open={open} onClose={onClose} title="Anki / CSV" size="lg">
+      <div className="flex flex-col gap-6">
+        <section className="flex flex-col gap-3">
+          <h3 className="text-xs font-medium text-ink-400 uppercase tracking-widest">Importar</h3>
+          <p className="text-xs text-ink-500">
+            Paquetes .apkg de Anki (exportados como «Compatible con versiones antiguas») o texto CSV/TSV:
+            anverso, reverso y etiquetas, o columnas tipo · pregunta · respuesta · opciones · correctas · explicacion · etiquetas.
+          </p>
+          {topics.length === 0 ? (
+            <p className="text-sm text-rose-400">Crea un tema antes de importar.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input
+                type="file"
+                accept=".apkg,.csv,.tsv,.txt"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="text-sm text-ink-300 file:mr-3 file:rounded-lg file:border-0 file:bg-ink-700 file:px-3 file:py-1.5 file:text-ink-100"
+              />
+              <Select value={topicId} onChange={(e) => setTopicId(e.target.value)}>
+                {topics.map((t) => <option key={t.id} value={t.id}>{t.title}</option>)}
+              </Select>
+            </div>
+          )}
+          {error && <p className="text-sm text-rose-400">{error}</p>}
+          {busy && !preview && file && <p className="text-sm text-ink-500">⏳ Leyendo {file.name}…</p>}
+
+          {preview && (
+            <div className="flex flex-col gap-2">
+              <p className="text-sm text-ink-300">
+                <span className="text-sage-400">{preview.newCount} nuevas</span>
+                {preview.duplicateCount > 0 && <> · <span className="text-amber-400">{preview.duplicateCount} duplicadas</span> (se omiten)</>}
+                {preview.parsed.warnings.length > 0 && <> · <span className="text-rose-400">{preview.parsed.warnings.length} sin convertir</span></>}
+              </p>
+              <ul className="max-h-64 overflow-y-auto border border-ink-700 rounded-lg divide-y divide-ink-800">
+                {preview.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <li key={i} className={`flex items-center gap-2 px-3 py-1.5 text-xs ${row.duplicate ? 'opacity-50' : ''}`}>
+                    <TypeBadge type={row.question.type} />
+                    <span className="flex-1 truncate text-ink-200">{row.question.clozeText ?? row.question.prompt}</span>
+                    {row.question.stats.nextReviewAt && <span className="text-ink-500">↻ {row.question.stats.nextReviewAt}</span>}
+                    {row.duplicate && <Badge color="amber">duplicada</Badge>}
+                  </li>
+                ))}
+                {preview.rows.length > PREVIEW_ROWS && (
+                  <li className="px-3 py-1.5 text-xs text-ink-500">… y {preview.rows.length - PREVIEW_ROWS} más</li>
+                )}
+              </ul>
+              {preview.parsed.warnings.length > 0 && (
+                <details className="text-xs text-ink-500">
+                  <summary className="cursor-pointer">Ver avisos</summary>
+                  <ul className="mt-1 list-disc pl-5">
+                    {preview.parsed.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                  </ul>
+                </details>
+              )}
+              {hasReviewState && (
+                <label className="flex items-center gap-2 text-sm text-ink-300 cursor-pointer">
+                  <input type="checkbox" checked={keepReviewState} onChange={(e) => setKeepReviewState(e.target.checked)} className="accent-amber-500 w-3.5 h-3.5" />
+                  Conservar el estado de repaso de Anki (intervalos y próximas revisiones)
+                </label>
+              )}
+              <div className="flex justify-end">
+                <Button onClick={handleImport} disabled={busy || preview.newCount === 0}>
+                  Importar {preview.newCount} pregunta{preview.newCount !== 1 ? 's' : ''}
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-3 border-t border-ink-700 pt-4">
+          <h3 className="text-xs font-medium text-ink-400 uppercase tracking-widest">Exportar</h3>
+          <p className="text-xs text-ink-500">
+            {exportQuestions.length} pregunta{exportQuestions.length !== 1 ? 's' : ''}. El .apkg incluye imágenes, etiquetas y el estado de repaso.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="ghost" onClick={() => handleExport('apkg')} disabled={busy || exportQuestions.length === 0}>⬇ Anki (.apkg)</Button>
+            <Button variant="ghost" onClick={() => handleExport('csv')} disabled={busy || exportQuestions.length === 0}>⬇ CSV</Button>
+            <Button variant="ghost" onClick={() => handleExport('tsv')} disabled={busy || exportQuestions.length === 0}>⬇ TSV</Button>
+          </div>
+        </section>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { Question, Topic } from '@/domain/models';
+import { parseBulkText, type BulkDraft, type BulkQuestionData } from '@/domain/bulkFormat';
+import { normalizeText } from '@/domain/normalize';
+import { QuestionPreviewContent } from './QuestionPreview';
+import { Badge, Button, Modal, TypeBadge } from './index';
+
+const TEMPLATE = `---
+topic: {{tema}}
+difficulty: 2
+tags:
+---
+
+## [test] ¿Enunciado de la pregunta?
+- [x] Opción correcta
+- [ ] Opción incorrecta
+> Explicación opcional.
+
+## [completar]
+El texto con un {{hueco|alternativa}} que rellenar.
+
+## [desarrollo] Pregunta abierta
+### Respuesta
+Respuesta modelo.
+
+## [practico] Problema con resultado numérico
+= 9,8 m/s² ± 0,1
+`;
+
+export type BulkQuestionInput = Omit<Question, 'id' | 'stats' | 'createdAt' | 'updatedAt' | 'contentHash'>;
+
+export interface BulkSavePlan {
+  create: BulkQuestionInput[];
+  update: { id: string; data: Partial<Question> }[];
+}
+
+/**
+ * Replaces the parser's placeholder option ids: an option whose text already
+ * exists in the question keeps its id (so past answers still match), the rest get new ones.
+ */
+function withOptionIds(data: BulkQuestionData, existing?: Question): BulkQuestionData {
+  if (!data.options) return data;
+  const free = [...(existing?.options ?? [])];
+  const idMap = new Map<string, string>();
+  const options = data.options.map((o) => {
+    const idx = free.findIndex((e) => normalizeText(e.text) === normalizeText(o.text));
+    const id = idx >= 0 ? free.splice(idx, 1)[0].id : uuidv4();
+    idMap.set(o.id, id);
+    return { id, text: o.text };
+  });
+  return { ...data, options, correctOptionIds: (data.correctOptionIds ?? []).map((id) => idMap.get(id)!) };
+}
+
+/**
+ * The parser derives blank ids from the first accepted answer; blanks of an
+ * existing question keep their ids by position instead (so past `blankAnswers`
+ * still match and an unchanged question is not a new revision).
+ */
+function withBlankIds(data: BulkQuestionData, existing?: Question): BulkQuestionData {
+  if (!data.blanks || !data.clozeText || !existing?.blanks?.length) return data;
+  const kept = existing.blanks.slice(0, data.blanks.length).map((b) => b.id);
+  const used = new Set(kept);
+  const blanks = data.blanks.map((blank, i) => {
+    if (i < kept.length) return { ...blank, id: kept[i] };
+    let id = blank.id;
+    for (let k = 2; used.has(id); k++) id = `${blank.id}_${k}`;
+    used.add(id);
+    return { ...blank, id };
+  });
+  // parseCloze writes one marker per blank, in order
+  let next = 0;
+  const clozeText = data.clozeText.replace(/\{\{[^}]+\}\}/g, (m) => (next < blanks.length ? `{{${blanks[next++].id}}}` : m));
+  return { ...data, blanks, clozeText };
+}
+
+function draftQuestion(draft: BulkDraft, subjectId: string): Question {
+  return {
+    ...draft.data,
+    id: draft.id ?? `draft-${draft.line}`,
+    subjectId,
+    topicId: draft.topicId,
+    stats: { seen: 0, correct: 0, wrong: 0 },
+    createdAt: '',
+    updatedAt: '',
+  };
+}
+
+interface BulkEditorProps {
+  open: boolean;
+  subjectId: string;
+  topics: Topic[];
+  /** Preguntas de la asignatura, para actualizar las que traen `<!-- id -->`. */
+  questions: Question[];
+  /** Texto inicial (p. ej. la selección exportada); vacío = plantilla. */
+  initialText?: string;
+  defaultTopicId?: string;
+  onClose: () => void;
+  onSave: (plan: BulkSavePlan) => Promise<void>;
+}
+
+export function BulkEditor({ open, subjectId, topics, questions, initialText, defaultTopicId, onClose, onSave }: BulkEditorProps) {
+  const [text, setText] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const topicTitle = topics.find((t) => t.id === defaultTopicId)?.title ?? topics[0]?.title ?? '';
+    setText(initialText || TEMPLATE.replace('{{tema}}', topicTitle));
+    setExpanded(null);
+  }, [open, initialText, defaultTopicId, topics]);
+
+  const { drafts, errors } = useMemo(
+    () => parseBulkText(text, { topics, defaultTopicId }),
+    [text, topics, defaultTopicId]
+  );
+  const byId = useMemo(() => new Map(questions.map((q) => [q.id, q])), [questions]);
+  const updates = drafts.filter((d) => d.id && byId.has(d.id)).length;
+  const creates = drafts.length - updates;
+
+  const goToLine = (line: number) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const lines = text.split('\n');
+    const start = lines.slice(0, line - 1).reduce((acc, l) => acc + l.length + 1, 0);
+    el.focus();
+    el.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    const lineHeight = el.scrollHeight / Math.max(1, lines.length);
+    el.scrollTop = Math.max(0, (line - 5) * lineHeight);
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0 || drafts.length === 0) return;
+    const plan: BulkSavePlan = { create: [], update: [] };
+    for (const draft of drafts) {
+      const existing = draft.id ? byId.get(draft.id) : undefined;
+      const data = withBlankIds(withOptionIds(draft.data, existing), existing);
+      if (existing) plan.update.push({ id: existing.id, data: { ...data, topicId: draft.topicId } });
+      else plan.create.push({ ...data, subjectId, topicId: draft.topicId });
+    }
+    setSaving(true);
+    try {
+      await onSave(plan);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const topicTitle = (id: string) => topics.find((t) => t.id === id)?.title ?? '—';
+
+  return (
+    <Modal open={open} onClose={onClose} title="Edición masiva" size="xl">
+      <div className="flex flex-col gap-3">
+        <p className="text-xs text-ink-500">
+          Una pregunta por bloque <code className="text-amber-400">## [tipo] enunciado</code>: opciones{' '}
+          <code className="text-amber-400">- [x]</code>, huecos <code className="text-amber-400">{'{{respuesta|alternativa}}'}</code>,
+          resultado <code className="text-amber-400">= 9,8 ± 0,1</code>, <code className="text-amber-400">### Respuesta</code> y
+          explicación <code className="text-amber-400">&gt; …</code>. Un bloque <code className="text-amber-400">---</code> con
+          topic/difficulty/origin/tags se aplica a las preguntas que le siguen.
+        </p>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <textarea
+            ref={textareaRef}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            spellCheck={false}
+            className="w-full h-[60vh] bg-ink-900 border border-ink-700 rounded-xl px-3 py-2 font-mono text-xs leading-5 text-ink-100 focus:outline-none focus:border-amber-500 resize-none"
+          />
+          <div className="h-[60vh] overflow-y-auto flex flex-col gap-3">
+            {errors.length > 0 && (
+              <ul className="flex flex-col gap-1 bg-rose-500/10 border border-rose-500/20 rounded-lg p-3">
+                {errors.map((err, i) => (
+                  <li key={i}>
+                    <button onClick={() => goToLine(err.line)} className="text-left text-xs text-rose-400 hover:text-rose-300">
+                      <span className="font-mono">Línea {err.line}:</span> {err.message}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {drafts.length === 0 && errors.length === 0 && (
+              <p className="text-sm text-ink-500">Escribe o pega preguntas para verlas aquí.</p>
+            )}
+            {drafts.map((draft, i) => {
+              const isUpdate = !!draft.id && byId.has(draft.id);
+              return (
+                <div key={`${draft.line}-${i}`} className="border border-ink-700 rounded-lg">
+                  <button
+                    onClick={() => setExpanded(expanded === i ? null : i)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-left"
+                  >
+                    <TypeBadge type={draft.data.type} />
+                    <span className="flex-1 truncate text-xs text-ink-200">{draft.data.clozeText ?? draft.data.prompt}</span>
+                    <span className="text-xs text-ink-500 truncate max-w-[8rem]">{topicTitle(draft.topicId)}</span>
+                    <Badge color={isUpdate ? 'amber' : 'sage'}>{isUpdate ? 'actualiza' : 'nueva'}</Badge>
+                  </button>
+                  {expanded === i && (
+                    <div className="border-t border-ink-800 p-3">
+                      <QuestionPreviewContent question={draftQuestion(draft, subjectId)} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2 border-t border-ink-700 pt-3">
+          <span className="text-xs text-ink-500">
+            {creates} nueva{creates !== 1 ? 's' : ''} · {updates} actualizada{updates !== 1 ? 's' : ''}
+            {errors.length > 0 && <span className="text-rose-400"> · {errors.length} error{errors.length !== 1 ? 'es' : ''}</span>}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                const blob = new Blob([text], { type: 'text/markdown;charset=utf-8' });
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = url;
+                a.download = 'preguntas.md';
+                a.click();
+                URL.revokeObjectURL(url);
+              }}
+            >
+              ⬇ Descargar .md
+            </Button>
+            <Button variant="ghost" onClick={onClose}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={saving || errors.length > 0 || drafts.length === 0}>
+              {saving ? 'Guardando…' : 'Guardar'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import type { ContributionPackPreview, ContributionReview, ContributionReviewItem } from '@/data/contributionImport';
+import type { ImportReviewDecision, Question, Topic } from '@/domain/models';
+import { QuestionForm } from './QuestionForm';
+import { Badge, Modal, TypeBadge } from './index';
+
+const DECISION_LABELS: Record<ImportReviewDecision, { label: string; color: 'sage' | 'rose' | 'amber' | 'blue' | 'ink' }> = {
+  accepted: { label: 'aceptada', color: 'sage' },
+  rejected: { label: 'rechazada', color: 'rose' },
+  edited: { label: 'editada', color: 'amber' },
+  reassigned: { label: 'otro tema', color: 'blue' },
+  merged: { label: 'fusionada', color: 'ink' },
+};
+
+/** Pregunta de la vista previa con las ediciones y el tema de la revisión aplicados. */
+export function reviewedQuestion(q: Question, item?: ContributionReviewItem): Question {
+  if (!item) return q;
+  return { ...q, ...item.edits, topicId: item.topic?.topicKey ?? q.topicId };
+}
+
+/** Número de preguntas que se importarán como nuevas (sin las rechazadas ni las fusionadas). */
+export function acceptedCount(preview: ContributionPackPreview, review: ContributionReview): number {
+  return preview.questionsSampleFull.filter((q) => {
+    const decision = review[q.id]?.decision;
+    return decision !== 'rejected' && decision !== 'merged';
+  }).length;
+}
+
+/** Número de preguntas que se fusionarán con una existente. */
+export function mergedCount(preview: ContributionPackPreview, review: ContributionReview): number {
+  return preview.questionsSampleFull.filter((q) => review[q.id]?.decision === 'merged').length;
+}
+
+interface ContributionReviewQueueProps {
+  preview: ContributionPackPreview;
+  review: ContributionReview;
+  onChange: (review: ContributionReview) => void;
+  onPreview: (question: Question) => void;
+}
+
+/**
+ * Cola de revisión de un contribution pack: cada pregunta nueva se puede
+ * aceptar, rechazar, editar o mover a otro tema antes de importar, y las
+ * casi duplicadas de una local se pueden fusionar con ella.
+ */
+export function ContributionReviewQueue({ preview, review, onChange, onPreview }: ContributionReviewQueueProps) {
+  const [editing, setEditing] = useState<Question | null>(null);
+  const questions = preview.questionsSampleFull;
+
+  const set = (id: string, item: ContributionReviewItem) => onChange({ ...review, [id]: item });
+  // «Aceptar todas» solo recupera las rechazadas; las ediciones y cambios de tema se conservan
+  const setAll = (decision: 'accepted' | 'rejected') => {
+    const next: ContributionReview = {};
+    for (const q of questions) {
+      const item = review[q.id];
+      next[q.id] = decision === 'accepted' && item && item.decision !== 'rejected' ? item : { decision };
+    }
+    onChange(next);
+  };
+
+  const choicesFor = (q: Question) => preview.topicChoices[q.subjectId] ?? [];
+
+  const handleTopic = (q: Question, topicKey: string) => {
+    const item = review[q.id];
+    const topic = topicKey === q.topicId ? undefined : choicesFor(q).find((c) => c.topicKey === topicKey);
+    if (item?.decision === 'edited') set(q.id, { ...item, topic });
+    else set(q.id, topic ? { decision: 'reassigned', topic } : { decision: 'accepted' });
+  };
+
+  const formTopics = (q: Question): Topic[] =>
+    choicesFor(q).map((c, i) => ({ id: c.topicKey, subjectId: q.subjectId, title: c.topicTitle, order: i, createdAt: '', updatedAt: '' }));
+
+  const incoming = acceptedCount(preview, review);
+  const similar = questions.filter((q) => preview.nearDuplicates[q.id]).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-ink-500 uppercase tracking-widest">
+          Revisión ({incoming}/{questions.length})
+          {similar > 0 && <span className="normal-case tracking-normal text-amber-400"> · {similar} casi duplicada{similar !== 1 ? 's' : ''}</span>}
+        </p>
+        <div className="flex gap-3 text-xs">
+          <button onClick={() => setAll('accepted')} className="text-sage-400 hover:text-sage-300">Aceptar todas</button>
+          <button onClick={() => setAll('rejected')} className="text-rose-400 hover:text-rose-300">Rechazar todas</button>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 max-h-80 overflow-y-auto pr-1">
+        {questions.map((original) => {
+          const item = review[original.id];
+          const q = reviewedQuestion(original, item);
+          const decision = item?.decision ?? 'accepted';
+          const isRejected = decision === 'rejected' || decision === 'merged';
+          const near = preview.nearDuplicates[original.id];
+          return (
+            <div
+              key={original.id}
+              className={`flex flex-col gap-2 p-3 bg-ink-800 rounded-lg border border-ink-700 ${isRejected ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-start gap-3">
+                <TypeBadge type={q.type} />
+                <button
+                  onClick={() => onPreview(q)}
+                  className={`text-left text-xs text-ink-300 hover:text-ink-100 transition-colors line-clamp-2 flex-1 ${isRejected ? 'line-through' : ''}`}
+                >
+                  {q.prompt.replace(/[#*`]/g, '').trim()}
+                </button>
+                <Badge color={DECISION_LABELS[decision].color}>{DECISION_LABELS[decision].label}</Badge>
+              </div>
+              {near && (
+                <div className="flex items-center gap-2 text-xs bg-amber-500/10 border border-amber-500/20 rounded px-2 py-1">
+                  <span className="text-amber-400 flex-shrink-0">≈ {Math.round(near.score * 100)}%</span>
+                  <button
+                    onClick={() => onPreview(near.question)}
+                    className="text-left text-ink-400 hover:text-ink-200 truncate flex-1"
+                    title="Ver la pregunta local parecida"
+                  >
+                    {near.question.prompt.replace(/[#*`]/g, '').trim()}
+                  </button>
+                  <button
+                    onClick={() => set(original.id, { decision: 'merged', mergeInto: near.question.id })}
+                    className="text-amber-400 hover:text-amber-300 flex-shrink-0"
+                    title="No importar: añadir sus etiquetas y tema a la pregunta local"
+                  >
+                    ⇄ Fusionar
+                  </button>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <select
+                  value={q.topicId}
+                  disabled={isRejected}
+                  onChange={(e) => handleTopic(original, e.target.value)}
+                  className="flex-1 min-w-0 bg-ink-900 border border-ink-700 rounded px-2 py-1 text-xs text-ink-200"
+                >
+                  {choicesFor(original).map((c) => (
+                    <option key={c.topicKey} value={c.topicKey}>{c.topicTitle}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => set(original.id, { decision: 'accepted' })}
+                  className="text-xs px-2 py-1 rounded border border-ink-600 text-sage-400 hover:border-sage-500"
+                  title="Aceptar tal cual (descarta ediciones)"
+                >
+                  ✓
+                </button>
+                <button
+                  onClick={() => setEditing(q)}
+                  className="text-xs px-2 py-1 rounded border border-ink-600 text-amber-400 hover:border-amber-500"
+                  title="Editar antes de importar"
+                >
+                  ✎
+                </button>
+                <button
+                  onClick={() => set(original.id, { decision: 'rejected' })}
+                  className="text-xs px-2 py-1 rounded border border-ink-600 text-rose-400 hover:border-rose-500"
+                  title="Rechazar"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Modal open={editing !== null} onClose={() => setEditing(null)} title="Editar pregunta del pack" size="lg">
+        {editing && (
+          <QuestionForm
+            topics={formTopics(editing)}
+            initial={editing}
+            subjectId={editing.subjectId}
+            onCancel={() => setEditing(null)}
+            onSave={(data) => {
+              const original = questions.find((q) => q.id === editing.id)!;
+              const topic = data.topicId !== original.topicId
+                ? choicesFor(original).find((c) => c.topicKey === data.topicId)
+                : undefined;
+              set(original.id, {
+                decision: 'edited',
+                topic,
+                edits: {
+                  type: data.type,
+                  prompt: data.prompt,
+                  explanation: data.explanation,
+                  difficulty: data.difficulty,
+                  tags: data.tags,
+                  origin: data.origin,
+                  options: data.options,
+                  correctOptionIds: data.correctOptionIds,
+                  modelAnswer: data.modelAnswer,
+                  keywords: data.keywords,
+                  numericAnswer: data.numericAnswer,
+                  numericAbsTolerance: data.numericAbsTolerance,
+                  numericRelTolerance: data.numericRelTolerance,
+                  clozeText: data.clozeText,
+                  blanks: data.blanks,
+                },
+              });
+              setEditing(null);
+            }}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type {
+  DeckFilter, DifficultyLevel, Question, QuestionOrigin, QuestionType, SavedDeck, Topic,
+} from '@/domain/models';
+import { deckMatches, pickDeckQuestions } from '@/domain/decks';
+import { deckRepo, questionRepo, sessionRepo } from '@/data/repos';
+import { Button, Card, Input, Modal } from './index';
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  TEST: 'Test',
+  DESARROLLO: 'Desarrollo',
+  COMPLETAR: 'Completar',
+  PRACTICO: 'Práctico',
+};
+
+const ORIGIN_LABELS: Record<QuestionOrigin, string> = {
+  test: 'Test',
+  examen_anterior: 'Examen ant.',
+  clase: 'Clase',
+  alumno: 'Alumno',
+};
+
+const DIFFICULTIES: DifficultyLevel[] = [1, 2, 3, 4, 5];
+
+export type DeckLaunchKind = 'practice' | 'flashcard' | 'exam';
+
+/**
+ * Crea la sesión del mazo y devuelve la ruta a la que navegar,
+ * o null si el filtro no deja ninguna pregunta.
+ */
+export async function launchDeck(deck: SavedDeck, kind: DeckLaunchKind): Promise<string | null> {
+  const questions = await questionRepo.getBySubject(deck.subjectId);
+  const pool = pickDeckQuestions(deck, questions);
+  if (pool.length === 0) return null;
+  const session = await sessionRepo.create({
+    subjectId: deck.subjectId,
+    mode: kind === 'flashcard' ? 'flashcard' : kind === 'exam' ? 'exam' : 'random',
+    deckId: deck.id,
+    questionIds: pool.map((q) => q.id),
+  });
+  if (kind === 'flashcard') return `/flashcard/session/${session.id}`;
+  if (kind === 'exam') return `/practice/${session.id}?examMode=true&duration=${deck.examMinutes ?? 60}`;
+  return `/practice/${session.id}`;
+}
+
+/** Resumen legible del filtro ("Tema 1, Tema 2 · Test · acierto < 60%"). */
+export function describeDeckFilter(filter: DeckFilter, topics: Topic[]): string {
+  const parts: string[] = [];
+  if (filter.topicIds?.length) {
+    parts.push(filter.topicIds.map((id) => topics.find((t) => t.id === id)?.title ?? '?').join(', '));
+  }
+  if (filter.types?.length) parts.push(filter.types.map((t) => TYPE_LABELS[t]).join('/'));
+  if (filter.origins?.length) parts.push(filter.origins.map((o) => ORIGIN_LABELS[o]).join('/'));
+  if (filter.difficulties?.length) parts.push(filter.difficulties.map((d) => '★'.repeat(d)).join(' '));
+  if (filter.tags?.length) parts.push(filter.tags.map((t) => `#${t}`).join(' '));
+  if (filter.maxSuccessRate != null) parts.push(`acierto < ${Math.round(filter.maxSuccessRate * 100)}%`);
+  if (filter.notSeenDays != null) parts.push(`sin ver en ${filter.notSeenDays} días`);
+  if (filter.starredOnly) parts.push('★ difíciles');
+  if (filter.unseenOnly) parts.push('no vistas');
+  if (filter.excludeSuspended) parts.push('sin suspendidas');
+  return parts.length > 0 ? parts.join(' · ') : 'Todas las preguntas';
+}
+
+// ─── Deck list ────────────────────────────────────────────────────────────────
+
+interface DeckListProps {
+  decks: SavedDeck[];
+  topics: Topic[];
+  /** Si se pasan, cada mazo muestra cuántas preguntas coinciden ahora. */
+  questions?: Question[];
+  /** Nombre de la asignatura junto a cada mazo (listados globales). */
+  subjectName?: (subjectId: string) => string;
+  onEdit?: (deck: SavedDeck) => void;
+  onDelete?: (deck: SavedDeck) => void;
+}
+
+export function DeckList({ decks, topics, questions, subjectName, onEdit, onDelete }: DeckListProps) {
+  const navigate = useNavigate();
+  const [launching, setLaunching] = useState<string | null>(null);
+
+  const handleLaunch = async (deck: SavedDeck, kind: DeckLaunchKind) => {
+    setLaunching(deck.id);
+    const path = await launchDeck(deck, kind);
+    setLaunching(null);
+    if (path) navigate(path);
+    else alert(`El mazo "${deck.name}" no tiene preguntas que cumplan el filtro.`);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {decks.map((deck) => {
+        const matching = questions ? deckMatches(deck, questions).length : undefined;
+        const busy = launching === deck.id;
+        return (
+          <Card key={deck.id} className="flex flex-col gap-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm text-ink-100 font-medium truncate">
+                  🗂 {deck.name}
+                  {subjectName && <span className="text-xs text-ink-500 font-normal"> · {subjectName(deck.subjectId)}</span>}
+                </p>
+                <p className="text-xs text-ink-500 mt-0.5">
+                  {describeDeckFilter(deck.filter, topics)}
+                  {matching != null && ` · ${matching} pregunta${matching !== 1 ? 's' : ''}`}
+                  {deck.count && ` · máx. ${deck.count} por sesión`}
+                </p>
+              </div>
+              {(onEdit || onDelete) && (
+                <div className="flex gap-1 flex-shrink-0">
+                  {onEdit && (
+                    <button onClick={() => onEdit(deck)} className="text-xs text-ink-500 hover:text-ink-200 px-1" title="Editar mazo">
+                      ✎
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button onClick={() => onDelete(deck)} className="text-xs text-ink-500 hover:text-rose-400 px-1" title="Eliminar mazo">
+                      ✕
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <Button size="sm" disabled={busy || matching === 0} onClick={() => handleLaunch(deck, 'practice')}>
+                ▶ Practicar
+              </Button>
+              <Button size="sm" variant="secondary" disabled={busy || matching === 0} onClick={() => handleLaunch(deck, 'flashcard')}>
+                🃏 Flashcards
+              </Button>
+              <Button size="sm" variant="ghost" disabled={busy || matching === 0} onClick={() => handleLaunch(deck, 'exam')}>
+                🎓 Simulacro
+              </Button>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+// ─── Deck editor ──────────────────────────────────────────────────────────────
+
+function toggle<T>(list: T[] | undefined, value: T): T[] {
+  const current = list ?? [];
+  return current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`px-2 py-1 rounded text-xs font-medium transition-all border ${
+        active ? 'bg-amber-500/20 border-amber-500/40 text-amber-300' : 'bg-ink-800 border-ink-700 text-ink-500'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+interface DeckEditorProps {
+  open: boolean;
+  subjectId: string;
+  topics: Topic[];
+  questions: Question[];
+  /** Mazo a editar, o valores iniciales de uno nuevo (sin `id`). */
+  initial?: Partial<SavedDeck>;
+  onClose: () => void;
+  onSaved: (deck: SavedDeck) => void;
+}
+
+export function DeckEditor({ open, subjectId, topics, questions, initial, onClose, onSaved }: DeckEditorProps) {
+  const [name, setName] = useState('');
+  const [filter, setFilter] = useState<DeckFilter>({});
+  const [tagsInput, setTagsInput] = useState('');
+  const [successPct, setSuccessPct] = useState('');
+  const [notSeenDays, setNotSeenDays] = useState('');
+  const [count, setCount] = useState('');
+  const [examMinutes, setExamMinutes] = useState('60');
+
+  useEffect(() => {
+    if (!open) return;
+    const f = initial?.filter ?? {};
+    setName(initial?.name ?? '');
+    setFilter(f);
+    setTagsInput((f.tags ?? []).join(', '));
+    setSuccessPct(f.maxSuccessRate != null ? String(Math.round(f.maxSuccessRate * 100)) : '');
+    setNotSeenDays(f.notSeenDays != null ? String(f.notSeenDays) : '');
+    setCount(initial?.count ? String(initial.count) : '');
+    setExamMinutes(String(initial?.examMinutes ?? 60));
+  }, [open, initial]);
+
+  const positive = (raw: string) => {
+    const n = parseFloat(raw);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+
+  const fullFilter = (): DeckFilter => {
+    const tags = tagsInput.split(',').map((t) => t.trim()).filter(Boolean);
+    const pct = positive(successPct);
+    const days = positive(notSeenDays);
+    const clean: DeckFilter = {
+      ...filter,
+      tags: tags.length > 0 ? tags : undefined,
+      maxSuccessRate: pct != null ? Math.min(pct, 100) / 100 : undefined,
+      notSeenDays: days != null ? Math.round(days) : undefined,
+    };
+    for (const key of ['topicIds', 'origins', 'types', 'difficulties'] as const) {
+      if (!clean[key]?.length) delete clean[key];
+    }
+    for (const key of Object.keys(clean) as (keyof DeckFilter)[]) {
+      if (clean[key] === undefined || clean[key] === false) delete clean[key];
+    }
+    return clean;
+  };
+
+  const matching = deckMatches({ subjectId, filter: fullFilter() }, questions).length;
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    const n = positive(count);
+    const data = {
+      subjectId,
+      name: name.trim(),
+      filter: fullFilter(),
+      count: n != null ? Math.round(n) : undefined,
+      examMinutes: positive(examMinutes) ?? 60,
+    };
+    if (initial?.id) {
+      await deckRepo.update(initial.id, data);
+      onSaved({ ...(initial as SavedDeck), ...data });
+    } else {
+      onSaved(await deckRepo.create(data));
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title={initial?.id ? 'Editar mazo' : 'Nuevo mazo'} size="lg">
+      <div className="flex flex-col gap-4">
+        <Input label="Nombre" value={name} onChange={(e) => setName(e.target.value)} placeholder="p. ej. Repaso tema 3 – fallos" autoFocus />
+
+        <div>
+          <p className="text-xs font-medium text-ink-400 uppercase tracking-widest mb-2">Temas</p>
+          <div className="flex flex-wrap gap-1.5">
+            {topics.map((t) => (
+              <Chip key={t.id} active={!!filter.topicIds?.includes(t.id)} onClick={() => setFilter({ ...filter, topicIds: toggle(filter.topicIds, t.id) })}>
+                {t.title}
+              </Chip>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <p className="text-xs font-medium text-ink-400 uppercase tracking-widest mb-2">Tipos</p>
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(TYPE_LABELS) as QuestionType[]).map((t) => (
+                <Chip key={t} active={!!filter.types?.includes(t)} onClick={() => setFilter({ ...filter, types: toggle(filter.types, t) })}>
+                  {TYPE_LABELS[t]}
+                </Chip>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-ink-400 uppercase tracking-widest mb-2">Origen</p>
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(ORIGIN_LABELS) as QuestionOrigin[]).map((o) => (
+                <Chip key={o} active={!!filter.origins?.includes(o)} onClick={() => setFilter({ ...filter, origins: toggle(filter.origins, o) })}>
+                  {ORIGIN_LABELS[o]}
+                </Chip>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-ink-400 uppercase tracking-widest mb-2">Dificultad</p>
+            <div className="flex flex-wrap gap-1.5">
+              {DIFFICULTIES.map((d) => (
+                <Chip key={d} active={!!filter.difficulties?.includes(d)} onClick={() => setFilter({ ...filter, difficulties: toggle(filter.difficulties, d) })}>
+                  {'★'.repeat(d)}
+                </Chip>
+              ))}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-ink-600 -mt-2">Sin nada marcado, el criterio no filtra.</p>
+
+        <Input label="Etiquetas" value={tagsInput} onChange={(e) => setTagsInput(e.target.value)} placeholder="separadas por comas" hint="Basta con que tenga una de ellas." />
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input label="Acierto por debajo de (%)" type="number" min="1" max="100" value={successPct} onChange={(e) => setSuccessPct(e.target.value)} hint="Las no respondidas también entran." />
+          <Input label="Sin ver en (días)" type="number" min="1" value={notSeenDays} onChange={(e) => setNotSeenDays(e.target.value)} hint="Incluye las nunca vistas." />
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          {([
+            ['starredOnly', '★ Solo difíciles'],
+            ['unseenOnly', 'Solo no vistas'],
+            ['excludeSuspended', 'Excluir suspendidas'],
+          ] as const).map(([key, label]) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-ink-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!filter[key]}
+                onChange={(e) => setFilter({ ...filter, [key]: e.target.checked })}
+                className="accent-amber-500 w-3.5 h-3.5"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 border-t border-ink-700 pt-3">
+          <Input label="Máx. preguntas por sesión" type="number" min="1" value={count} onChange={(e) => setCount(e.target.value)} hint="Vacío = todas." />
+          <Input label="Duración del simulacro (min)" type="number" min="5" max="300" value={examMinutes} onChange={(e) => setExamMinutes(e.target.value)} />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-ink-500">{matching} pregunta{matching !== 1 ? 's' : ''} coinciden ahora</span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={!name.trim()}>Guardar mazo</Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
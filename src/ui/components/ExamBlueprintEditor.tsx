@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { DifficultyLevel, ExamBlueprint, ExamBlueprintSection, Question, QuestionType, Topic } from '@/domain/models';
+import { blueprintMinutes, blueprintPoints } from '@/domain/examBlueprint';
+import { blueprintRepo } from '@/data/repos';
+import { Button, Input, Modal, Select } from './index';
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  TEST: 'Test',
+  DESARROLLO: 'Desarrollo',
+  COMPLETAR: 'Completar',
+  PRACTICO: 'Práctico',
+};
+
+const DIFFICULTIES: DifficultyLevel[] = [1, 2, 3, 4, 5];
+
+function newSection(type: QuestionType = 'TEST'): ExamBlueprintSection {
+  return { id: uuidv4(), name: TYPE_LABELS[type], type, count: 10, points: 5, minutes: 30 };
+}
+
+/** Número ≥ 0 de un input; vacío o inválido = 0. */
+function num(raw: string): number {
+  const n = parseFloat(raw.replace(',', '.'));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+interface ExamBlueprintEditorProps {
+  open: boolean;
+  subjectId: string;
+  topics: Topic[];
+  questions: Question[];
+  /** Estructura a editar; sin ella se crea una nueva. */
+  initial?: ExamBlueprint;
+  onClose: () => void;
+  onSaved: (blueprint: ExamBlueprint) => void;
+}
+
+export function ExamBlueprintEditor({ open, subjectId, topics, questions, initial, onClose, onSaved }: ExamBlueprintEditorProps) {
+  const [name, setName] = useState('');
+  const [sections, setSections] = useState<ExamBlueprintSection[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name ?? '');
+    setSections(initial?.sections ?? [newSection('TEST'), { ...newSection('DESARROLLO'), count: 2 }]);
+  }, [open, initial]);
+
+  const patch = (id: string, data: Partial<ExamBlueprintSection>) =>
+    setSections((prev) => prev.map((s) => (s.id === id ? { ...s, ...data } : s)));
+
+  const setTopicWeight = (section: ExamBlueprintSection, topicId: string, weight: number) => {
+    const weights = { ...section.topicWeights };
+    if (weight > 0) weights[topicId] = weight;
+    else delete weights[topicId];
+    patch(section.id, { topicWeights: Object.keys(weights).length > 0 ? weights : undefined });
+  };
+
+  const setDifficultyWeight = (section: ExamBlueprintSection, level: DifficultyLevel, weight: number) => {
+    const mix = { ...section.difficultyMix };
+    if (weight > 0) mix[level] = weight;
+    else delete mix[level];
+    patch(section.id, { difficultyMix: Object.keys(mix).length > 0 ? mix : undefined });
+  };
+
+  const valid = name.trim() !== '' && sections.length > 0 && sections.every((s) => s.count > 0 && s.points > 0);
+
+  const handleSave = async () => {
+    if (!valid) return;
+    const data = { subjectId, name: name.trim(), sections };
+    if (initial) {
+      await blueprintRepo.update(initial.id, data);
+      onSaved({ ...initial, ...data });
+    } else {
+      onSaved(await blueprintRepo.create(data));
+    }
+  };
+
+  const totalCount = sections.reduce((acc, s) => acc + s.count, 0);
+
+  return (
+    <Modal open={open} onClose={onClose} title={initial ? 'Editar estructura de examen' : 'Nueva estructura de examen'} size="xl">
+      <div className="flex flex-col gap-4">
+        <Input label="Nombre" value={name} onChange={(e) => setName(e.target.value)} placeholder="p. ej. Examen final (junio)" autoFocus />
+
+        {sections.map((section, idx) => {
+          const available = questions.filter((q) => q.type === section.type).length;
+          return (
+            <div key={section.id} className="border border-ink-700 rounded-xl p-4 flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-ink-400 uppercase tracking-widest">Sección {idx + 1}</p>
+                <button
+                  onClick={() => setSections((prev) => prev.filter((s) => s.id !== section.id))}
+                  className="text-xs text-ink-500 hover:text-rose-400"
+                  title="Quitar sección"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                <Input label="Nombre" value={section.name} onChange={(e) => patch(section.id, { name: e.target.value })} />
+                <Select label="Tipo" value={section.type} onChange={(e) => patch(section.id, { type: e.target.value as QuestionType })}>
+                  {(Object.keys(TYPE_LABELS) as QuestionType[]).map((t) => (
+                    <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                  ))}
+                </Select>
+                <Input
+                  label="Preguntas"
+                  type="number"
+                  min="1"
+                  value={section.count || ''}
+                  onChange={(e) => patch(section.id, { count: Math.round(num(e.target.value)) })}
+                  hint={`${available} disponibles`}
+                />
+                <Input label="Puntos" type="number" min="0" step="0.5" value={section.points || ''} onChange={(e) => patch(section.id, { points: num(e.target.value) })} />
+                <Input label="Minutos" type="number" min="0" value={section.minutes || ''} onChange={(e) => patch(section.id, { minutes: Math.round(num(e.target.value)) })} />
+              </div>
+
+              {topics.length > 0 && (
+                <div>
+                  <p className="text-xs text-ink-500 mb-1.5">Peso por tema (vacío = cualquier tema)</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1">
+                    {topics.map((t) => (
+                      <label key={t.id} className="flex items-center gap-2 text-xs text-ink-300">
+                        <input
+                          type="number"
+                          min="0"
+                          value={section.topicWeights?.[t.id] ?? ''}
+                          onChange={(e) => setTopicWeight(section, t.id, num(e.target.value))}
+                          className="w-14 bg-ink-900 border border-ink-700 rounded px-1.5 py-0.5 text-ink-100"
+                        />
+                        <span className="truncate">{t.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <p className="text-xs text-ink-500 mb-1.5">Mezcla de dificultad (vacío = cualquiera)</p>
+                <div className="flex flex-wrap gap-3">
+                  {DIFFICULTIES.map((d) => (
+                    <label key={d} className="flex items-center gap-1.5 text-xs text-amber-400">
+                      {'★'.repeat(d)}
+                      <input
+                        type="number"
+                        min="0"
+                        value={section.difficultyMix?.[d] ?? ''}
+                        onChange={(e) => setDifficultyWeight(section, d, num(e.target.value))}
+                        className="w-12 bg-ink-900 border border-ink-700 rounded px-1.5 py-0.5 text-ink-100"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <Button variant="ghost" size="sm" onClick={() => setSections((prev) => [...prev, newSection()])}>
+          + Añadir sección
+        </Button>
+
+        <div className="flex items-center justify-between gap-2 border-t border-ink-700 pt-3">
+          <span className="text-xs text-ink-500">
+            {totalCount} preguntas · {blueprintPoints({ sections })} puntos · {blueprintMinutes({ sections })} min
+          </span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={!valid}>Guardar estructura</Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
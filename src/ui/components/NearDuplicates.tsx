@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { findNearDuplicates, mergeQuestions, type NearDuplicatePair } from '@/data/nearDuplicates';
+import { DEFAULT_SIMILARITY_THRESHOLD } from '@/domain/similarity';
+import type { Question, Subject } from '@/domain/models';
+import { QuestionPreviewContent } from './QuestionPreview';
+import { Badge, Button, Modal, Select, TypeBadge } from './index';
+
+const THRESHOLDS = [0.9, 0.8, DEFAULT_SIMILARITY_THRESHOLD, 0.6, 0.5];
+
+function usage(q: Question): number {
+  return q.stats.seen + q.stats.correct + q.stats.wrong;
+}
+
+interface NearDuplicateCleanupProps {
+  subjects: Subject[];
+  onMerged: () => void;
+}
+
+/** Busca preguntas casi duplicadas en el banco y permite fusionarlas por pares. */
+export function NearDuplicateCleanup({ subjects, onMerged }: NearDuplicateCleanupProps) {
+  const [subjectId, setSubjectId] = useState('');
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [pairs, setPairs] = useState<NearDuplicatePair[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState('');
+  const [preview, setPreview] = useState<Question | null>(null);
+
+  const handleSearch = async () => {
+    setBusy(true);
+    setMsg('');
+    try {
+      setPairs(await findNearDuplicates(threshold, subjectId || undefined));
+    } catch (err) {
+      setMsg('Error: ' + String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMerge = async (keep: Question, drop: Question) => {
+    setBusy(true);
+    try {
+      await mergeQuestions(keep.id, [drop.id]);
+      setPairs((prev) => prev?.filter((p) => p.a.id !== drop.id && p.b.id !== drop.id) ?? null);
+      setMsg(`✓ Fusionadas: se conserva «${keep.prompt.slice(0, 40)}…»`);
+      onMerged();
+    } catch (err) {
+      setMsg('Error: ' + String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const dismiss = (pair: NearDuplicatePair) => setPairs((prev) => prev?.filter((p) => p !== pair) ?? null);
+
+  const subjectName = (id: string) => subjects.find((s) => s.id === id)?.name ?? '';
+
+  const renderSide = (q: Question, other: Question) => (
+    <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+      <button
+        onClick={() => setPreview(q)}
+        className="text-left text-xs text-ink-300 hover:text-ink-100 transition-colors line-clamp-3"
+      >
+        {q.prompt.replace(/[#*`]/g, '').trim()}
+      </button>
+      <div className="flex items-center gap-2 text-xs text-ink-500">
+        <span>{q.stats.seen} repasos</span>
+        {q.starred && <span className="text-amber-400">★</span>}
+        {q.notes && <span title={q.notes}>📝</span>}
+      </div>
+      <Button size="sm" variant="ghost" onClick={() => handleMerge(q, other)} disabled={busy}>
+        Conservar esta
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      {msg && (
+        <p className={`text-sm ${msg.startsWith('Error') ? 'text-rose-400' : 'text-sage-400'}`}>{msg}</p>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <Select label="Asignatura" value={subjectId} onChange={(e) => setSubjectId(e.target.value)}>
+          <option value="">Todas</option>
+          {subjects.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </Select>
+        <Select label="Similitud mínima" value={String(threshold)} onChange={(e) => setThreshold(Number(e.target.value))}>
+          {THRESHOLDS.map((t) => (
+            <option key={t} value={t}>{Math.round(t * 100)}%</option>
+          ))}
+        </Select>
+      </div>
+      <div className="flex justify-end">
+        <Button size="sm" variant="secondary" onClick={handleSearch} loading={busy}>
+          Buscar casi duplicadas
+        </Button>
+      </div>
+
+      {pairs && pairs.length === 0 && (
+        <p className="text-sm text-ink-500">No hay preguntas con una similitud de al menos {Math.round(threshold * 100)}%.</p>
+      )}
+      {pairs && pairs.length > 0 && (
+        <div className="flex flex-col gap-2 max-h-96 overflow-y-auto pr-1">
+          {pairs.map((pair) => {
+            // La más usada primero: es la opción natural para conservar
+            const [first, second] = usage(pair.b) > usage(pair.a) ? [pair.b, pair.a] : [pair.a, pair.b];
+            return (
+              <div key={`${pair.a.id}-${pair.b.id}`} className="flex flex-col gap-2 p-3 bg-ink-800 rounded-lg border border-ink-700">
+                <div className="flex items-center gap-2">
+                  <TypeBadge type={pair.a.type} />
+                  <Badge color={pair.score >= 0.9 ? 'rose' : 'amber'}>{Math.round(pair.score * 100)}% similares</Badge>
+                  {!subjectId && <span className="text-xs text-ink-500 truncate">{subjectName(pair.a.subjectId)}</span>}
+                  <button onClick={() => dismiss(pair)} className="ml-auto text-xs text-ink-500 hover:text-ink-300">
+                    Ignorar
+                  </button>
+                </div>
+                <div className="flex gap-3">
+                  {renderSide(first, second)}
+                  {renderSide(second, first)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Modal open={preview !== null} onClose={() => setPreview(null)} title="Vista previa" size="lg">
+        {preview && <QuestionPreviewContent question={preview} />}
+      </Modal>
+    </div>
+  );
+}
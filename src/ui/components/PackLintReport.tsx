@@ -0,0 +1,48 @@
+import type { PackFix, PackLintIssue } from '@/data/packLint';
+import { Badge } from './index';
+
+interface PackLintReportProps {
+  issues: PackLintIssue[];
+  onFix: (fixes: PackFix[]) => void;
+}
+
+/** Informe de validación de un contribution pack con sus correcciones automáticas. */
+export function PackLintReport({ issues, onFix }: PackLintReportProps) {
+  if (issues.length === 0) {
+    return <p className="text-xs text-sage-400">✓ El pack ha pasado la validación.</p>;
+  }
+  const errors = issues.filter((i) => i.severity === 'error').length;
+  const fixes = issues.flatMap((i) => (i.fix ? [i.fix] : []));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-ink-500 uppercase tracking-widest">
+          Validación
+          {errors > 0 && <span className="normal-case tracking-normal text-rose-400"> · {errors} error{errors !== 1 ? 'es' : ''}</span>}
+          {issues.length - errors > 0 && (
+            <span className="normal-case tracking-normal text-amber-400"> · {issues.length - errors} aviso{issues.length - errors !== 1 ? 's' : ''}</span>
+          )}
+        </p>
+        {fixes.length > 0 && (
+          <button onClick={() => onFix(fixes)} className="text-xs text-sage-400 hover:text-sage-300">
+            Corregir automáticamente ({fixes.length})
+          </button>
+        )}
+      </div>
+      <ul className="flex flex-col gap-1.5 max-h-48 overflow-y-auto pr-1">
+        {issues.map((issue, i) => (
+          <li key={i} className="flex items-start gap-2 text-xs">
+            <Badge color={issue.severity === 'error' ? 'rose' : 'amber'}>{issue.severity === 'error' ? 'error' : 'aviso'}</Badge>
+            <span className="flex-1 text-ink-300">{issue.message}</span>
+            {issue.fix && (
+              <button onClick={() => onFix([issue.fix!])} className="text-sage-400 hover:text-sage-300 flex-shrink-0">
+                Corregir
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
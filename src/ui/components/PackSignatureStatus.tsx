@@ -0,0 +1,60 @@
+import type { PackVerification } from '@/data/packSigning';
+import { Button } from './index';
+
+interface PackSignatureStatusProps {
+  verification: PackVerification;
+  createdBy: string;
+  onTrust: () => void;
+}
+
+/** Aviso de la firma de un contribution pack en la vista previa de importación. */
+export function PackSignatureStatus({ verification, createdBy, onTrust }: PackSignatureStatusProps) {
+  const { status, signed, fingerprint, trustedAlias, modifiedLocally } = verification;
+  const modifiedNote = signed && modifiedLocally && (
+    <p className="text-xs text-amber-400 mt-1">
+      Modificado localmente con las correcciones del lint: el estado es el del fichero original.
+    </p>
+  );
+
+  if (status === 'tampered') {
+    return (
+      <div className="bg-rose-500/10 border border-rose-500/20 rounded-lg p-3">
+        <p className="text-sm text-rose-400">
+          ⚠ Firma no válida: el pack se modificó después de firmarlo o la firma está dañada.
+        </p>
+        {fingerprint && <p className="text-xs text-ink-500 mt-1 font-mono">Clave {fingerprint}</p>}
+        {modifiedNote}
+      </div>
+    );
+  }
+
+  if (status === 'verified') {
+    return (
+      <div className="bg-sage-600/10 border border-sage-600/20 rounded-lg p-3">
+        <p className="text-sm text-sage-400">
+          ✓ Firma verificada de <strong>{trustedAlias}</strong>
+          {trustedAlias !== createdBy && <span className="text-amber-400"> (el pack dice «{createdBy}»)</span>}
+        </p>
+        <p className="text-xs text-ink-500 mt-1 font-mono">Clave {fingerprint}</p>
+        {modifiedNote}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 bg-ink-800 border border-ink-700 rounded-lg p-3">
+      <div className="min-w-0">
+        <p className="text-sm text-ink-300">
+          {signed ? '? Firmado con una clave desconocida' : '? Pack sin firmar: no se puede comprobar quién lo creó'}
+        </p>
+        {fingerprint && <p className="text-xs text-ink-500 mt-1 font-mono">Clave {fingerprint}</p>}
+        {modifiedNote}
+      </div>
+      {signed && (
+        <Button size="sm" variant="ghost" onClick={onTrust}>
+          Confiar en {createdBy}
+        </Button>
+      )}
+    </div>
+  );
+}
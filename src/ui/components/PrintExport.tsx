@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { buildPrintableHtml, downloadHtml, printHtml, type PrintOptions, type PrintSection } from '@/data/printExport';
+import { slugify } from '@/domain/normalize';
+import { Button, Input, Modal } from './index';
+
+interface PrintExportModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Preguntas a imprimir, agrupadas en secciones (una sola sin nombre si no hay estructura). */
+  sections: PrintSection[];
+  defaultTitle: string;
+  defaultSubtitle?: string;
+}
+
+export function PrintExportModal({ open, onClose, sections, defaultTitle, defaultSubtitle }: PrintExportModalProps) {
+  const [title, setTitle] = useState('');
+  const [subtitle, setSubtitle] = useState('');
+  const [copies, setCopies] = useState('1');
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [answerKey, setAnswerKey] = useState(true);
+  const [explanations, setExplanations] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(defaultTitle);
+    setSubtitle(defaultSubtitle ?? '');
+  }, [open, defaultTitle, defaultSubtitle]);
+
+  const total = sections.reduce((acc, s) => acc + s.questions.length, 0);
+  const options = (): PrintOptions => ({
+    title: title.trim() || defaultTitle,
+    subtitle: subtitle.trim() || undefined,
+    copies: parseInt(copies) || 1,
+    shuffleOptions,
+    answerKey,
+    explanations: answerKey && explanations,
+  });
+
+  const handlePrint = async () => {
+    // Open synchronously inside the click so it isn't blocked as a popup
+    const win = window.open('', '_blank');
+    if (!win) { alert('El navegador ha bloqueado la ventana de impresión.'); return; }
+    setBusy(true);
+    try {
+      printHtml(win, await buildPrintableHtml(sections, options()));
+    } catch (err) {
+      win.close();
+      alert('Error al generar el documento: ' + String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setBusy(true);
+    try {
+      const opts = options();
+      downloadHtml(await buildPrintableHtml(sections, opts), `${slugify(opts.title) || 'preguntas'}.html`);
+    } catch (err) {
+      alert('Error al generar el documento: ' + String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Imprimir preguntas">
+      <div className="flex flex-col gap-4">
+        <p className="text-xs text-ink-500">
+          {total} pregunta{total !== 1 ? 's' : ''}
+          {sections.length > 1 && ` en ${sections.length} secciones`}. Para PDF, elige «Guardar como PDF» en el diálogo de impresión.
+        </p>
+        <Input label="Título" value={title} onChange={(e) => setTitle(e.target.value)} />
+        <Input label="Subtítulo" value={subtitle} onChange={(e) => setSubtitle(e.target.value)} placeholder="p. ej. Grupo de estudio · 3 de mayo" />
+        <Input
+          label="Copias"
+          type="number"
+          min="1"
+          max="10"
+          value={copies}
+          onChange={(e) => setCopies(e.target.value)}
+          hint="Cada copia lleva su letra (A, B…) y su propio solucionario."
+        />
+        <div className="flex flex-col gap-1.5">
+          <label className="flex items-center gap-2 text-sm text-ink-300 cursor-pointer">
+            <input type="checkbox" checked={shuffleOptions} onChange={(e) => setShuffleOptions(e.target.checked)} className="accent-amber-500 w-3.5 h-3.5" />
+            Barajar las opciones de test en cada copia
+          </label>
+          <label className="flex items-center gap-2 text-sm text-ink-300 cursor-pointer">
+            <input type="checkbox" checked={answerKey} onChange={(e) => setAnswerKey(e.target.checked)} className="accent-amber-500 w-3.5 h-3.5" />
+            Añadir solucionario al final
+          </label>
+          <label className={`flex items-center gap-2 text-sm cursor-pointer ${answerKey ? 'text-ink-300' : 'text-ink-600'}`}>
+            <input
+              type="checkbox"
+              checked={explanations}
+              disabled={!answerKey}
+              onChange={(e) => setExplanations(e.target.checked)}
+              className="accent-amber-500 w-3.5 h-3.5"
+            />
+            Incluir explicaciones en el solucionario
+          </label>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={handleDownload} disabled={busy || total === 0}>⬇ Descargar HTML</Button>
+          <Button onClick={handlePrint} disabled={busy || total === 0}>{busy ? '⏳ Generando…' : '🖨 Imprimir / PDF'}</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,9 +1,11 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import type { Question, Topic, QuestionType, QuestionOption, ClozeBlank, QuestionOrigin } from '@/domain/models';
-import { Button, Input, Textarea, Select } from './index';
+import { Button, Input, Textarea, Select, Modal } from './index';
+import { QuestionHistory } from './QuestionHistory';
 import { MdContent } from '@/ui/components/MdContent';
 import { saveQuestionImage } from '@/data/questionImageStorage';
+import { DEFAULT_REL_TOLERANCE } from '@/domain/numeric';
 
 interface QuestionFormProps {
   topics: Topic[];
@@ -11,6 +13,8 @@ interface QuestionFormProps {
   onSave: (data: Omit<Question, 'id' | 'stats' | 'createdAt' | 'updatedAt' | 'contentHash'>) => void;
   onCancel: () => void;
   subjectId: string;
+  /** Llamado tras restaurar una revisión desde el historial (la pregunta ya está guardada). */
+  onReverted?: (question: Question) => void;
 }
 
 const ORIGIN_LABELS: Record<QuestionOrigin, string> = {
@@ -20,6 +24,17 @@ const ORIGIN_LABELS: Record<QuestionOrigin, string> = {
   alumno: 'Alumno',
 };
 
+/** Empty → undefined; `scale` converts percentages back to fractions. */
+function parseTolerance(raw: string, scale = 1): number | undefined {
+  const n = parseFloat(raw.replace(',', '.'));
+  return Number.isFinite(n) && n >= 0 ? n / scale : undefined;
+}
+
+/** Split a comma-separated list of accepted answers, keeping `/regex/` entries whole. */
+function splitAccepted(raw: string): string[] {
+  return (raw.match(/\s*\/(?:\\.|[^/])+\/[a-z]*\s*(?=,|$)|[^,]+/g) ?? []).map((s) => s.trim()).filter(Boolean);
+}
+
 // ─── Expandable Textarea with MD preview + drag & drop images ─────────────────
 
 interface ExpandableTextareaProps {
@@ -322,7 +337,8 @@ function MultiTopicSelector({ topics, selectedIds, onChange }: MultiTopicSelecto
 
 // ─── Main form ────────────────────────────────────────────────────────────────
 
-export function QuestionForm({ topics, initial, onSave, onCancel, subjectId }: QuestionFormProps) {
+export function QuestionForm({ topics, initial, onSave, onCancel, subjectId, onReverted }: QuestionFormProps) {
+  const [historyOpen, setHistoryOpen] = useState(false);
   const [type, setType] = useState<QuestionType>(initial?.type ?? 'TEST');
 
   // Multi-topic support
@@ -354,6 +370,12 @@ export function QuestionForm({ topics, initial, onSave, onCancel, subjectId }: Q
   const [modelAnswer, setModelAnswer] = useState(initial?.modelAnswer ?? '');
   const [keywords, setKeywords] = useState(initial?.keywords?.join(', ') ?? '');
   const [numericAnswer, setNumericAnswer] = useState(initial?.numericAnswer ?? '');
+  const [numericAbsTolerance, setNumericAbsTolerance] = useState(
+    initial?.numericAbsTolerance != null ? String(initial.numericAbsTolerance) : ''
+  );
+  const [numericRelTolerance, setNumericRelTolerance] = useState(
+    initial?.numericRelTolerance != null ? String(initial.numericRelTolerance * 100) : ''
+  );
 
   // COMPLETAR
   const [clozeText, setClozeText] = useState(initial?.clozeText ?? '');
@@ -410,6 +432,12 @@ export function QuestionForm({ topics, initial, onSave, onCancel, subjectId }: Q
       modelAnswer: (type === 'DESARROLLO' || type === 'PRACTICO') ? modelAnswer : undefined,
       keywords: (type === 'DESARROLLO' || type === 'PRACTICO') && parsedKeywords.length > 0 ? parsedKeywords : undefined,
       numericAnswer: type === 'PRACTICO' && numericAnswer ? numericAnswer : undefined,
+      numericAbsTolerance:
+        type === 'PRACTICO' && numericAnswer ? parseTolerance(numericAbsTolerance) : undefined,
+      numericRelTolerance:
+        type === 'PRACTICO' && numericAnswer
+          ? parseTolerance(numericRelTolerance, 100)
+          : undefined,
       clozeText: type === 'COMPLETAR' ? clozeText : undefined,
       blanks: type === 'COMPLETAR' ? blanks : undefined,
       // Keep legacy imageDataUrls from initial (backward compat) but don't add new ones —
@@ -423,222 +451,280 @@ export function QuestionForm({ topics, initial, onSave, onCancel, subjectId }: Q
   };
 
   return (
-    <form onSubmit={handleSubmit} className="flex flex-col gap-5">
-      {/* Row 1: type + origin */}
-      <div className="grid grid-cols-2 gap-4">
-        <Select
-          label="Tipo"
-          value={type}
-          onChange={(e) => setType(e.target.value as QuestionType)}
-        >
-          <option value="TEST">Test</option>
-          <option value="DESARROLLO">Desarrollo</option>
-          <option value="COMPLETAR">Completar</option>
-          <option value="PRACTICO">Práctico</option>
-        </Select>
+    <>
+      <form onSubmit={handleSubmit} className="flex flex-col gap-5">
+        {/* Row 1: type + origin */}
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            label="Tipo"
+            value={type}
+            onChange={(e) => setType(e.target.value as QuestionType)}
+          >
+            <option value="TEST">Test</option>
+            <option value="DESARROLLO">Desarrollo</option>
+            <option value="COMPLETAR">Completar</option>
+            <option value="PRACTICO">Práctico</option>
+          </Select>
+          <Select
+            label="Origen"
+            value={origin}
+            onChange={(e) => setOrigin(e.target.value as QuestionOrigin | '')}
+          >
+            <option value="">Sin especificar</option>
+            {(Object.keys(ORIGIN_LABELS) as QuestionOrigin[]).map((key) => (
+              <option key={key} value={key}>{ORIGIN_LABELS[key]}</option>
+            ))}
+          </Select>
+        </div>
+
+        {/* Multi-topic selector */}
+        <MultiTopicSelector
+          topics={topics}
+          selectedIds={selectedTopicIds}
+          onChange={setSelectedTopicIds}
+        />
+
+        {/* Difficulty */}
         <Select
-          label="Origen"
-          value={origin}
-          onChange={(e) => setOrigin(e.target.value as QuestionOrigin | '')}
+          label="Dificultad"
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value)}
         >
           <option value="">Sin especificar</option>
-          {(Object.keys(ORIGIN_LABELS) as QuestionOrigin[]).map((key) => (
-            <option key={key} value={key}>{ORIGIN_LABELS[key]}</option>
-          ))}
+          <option value="1">★ Muy fácil</option>
+          <option value="2">★★ Fácil</option>
+          <option value="3">★★★ Media</option>
+          <option value="4">★★★★ Difícil</option>
+          <option value="5">★★★★★ Muy difícil</option>
         </Select>
-      </div>
 
-      {/* Multi-topic selector */}
-      <MultiTopicSelector
-        topics={topics}
-        selectedIds={selectedTopicIds}
-        onChange={setSelectedTopicIds}
-      />
-
-      {/* Difficulty */}
-      <Select
-        label="Dificultad"
-        value={difficulty}
-        onChange={(e) => setDifficulty(e.target.value)}
-      >
-        <option value="">Sin especificar</option>
-        <option value="1">★ Muy fácil</option>
-        <option value="2">★★ Fácil</option>
-        <option value="3">★★★ Media</option>
-        <option value="4">★★★★ Difícil</option>
-        <option value="5">★★★★★ Muy difícil</option>
-      </Select>
-
-      {/* Prompt — drag & drop + paste images enabled */}
-      <ExpandableTextarea
-        label="Enunciado"
-        value={prompt}
-        onChange={setPrompt}
-        required
-        rows={3}
-        placeholder="Escribe la pregunta aquí… Arrastra o pega imágenes para insertarlas."
-        supportsMd
-      />
-
-      {/* TEST options */}
-      {type === 'TEST' && (
-        <div className="flex flex-col gap-3">
-          <p className="text-xs font-medium text-ink-400 uppercase tracking-widest">Opciones (marca las correctas)</p>
-          {options.map((opt, i) => (
-            <div key={opt.id} className="flex items-center gap-2">
-              <button
-                type="button"
-                onClick={() => toggleCorrect(opt.id)}
-                className={`w-5 h-5 rounded flex-shrink-0 border-2 transition-colors ${
-                  correctOptionIds.includes(opt.id)
-                    ? 'bg-sage-600 border-sage-600'
-                    : 'bg-transparent border-ink-500 hover:border-sage-600'
-                }`}
-                title="Marcar como correcta"
-              />
-              <input
-                type="text"
-                value={opt.text}
-                onChange={(e) => updateOption(opt.id, e.target.value)}
-                placeholder={`Opción ${String.fromCharCode(65 + i)}`}
-                className="flex-1 bg-ink-800 border border-ink-600 text-ink-100 rounded-lg px-3 py-2 text-sm font-body focus:outline-none focus:ring-2 focus:ring-amber-500"
-              />
-              {options.length > 2 && (
+        {/* Prompt — drag & drop + paste images enabled */}
+        <ExpandableTextarea
+          label="Enunciado"
+          value={prompt}
+          onChange={setPrompt}
+          required
+          rows={3}
+          placeholder="Escribe la pregunta aquí… Arrastra o pega imágenes para insertarlas."
+          supportsMd
+        />
+
+        {/* TEST options */}
+        {type === 'TEST' && (
+          <div className="flex flex-col gap-3">
+            <p className="text-xs font-medium text-ink-400 uppercase tracking-widest">Opciones (marca las correctas)</p>
+            {options.map((opt, i) => (
+              <div key={opt.id} className="flex items-center gap-2">
                 <button
                   type="button"
-                  onClick={() => removeOption(opt.id)}
-                  className="text-ink-600 hover:text-rose-400 transition-colors text-sm"
-                >
-                  ✕
-                </button>
-              )}
-            </div>
-          ))}
-          <button
-            type="button"
-            onClick={addOption}
-            className="self-start text-xs text-ink-500 hover:text-ink-300 transition-colors"
-          >
-            + Añadir opción
-          </button>
-        </div>
-      )}
-
-      {/* DESARROLLO / PRACTICO */}
-      {(type === 'DESARROLLO' || type === 'PRACTICO') && (
-        <div className="flex flex-col gap-3">
-          <ExpandableTextarea
-            label="Respuesta modelo (opcional)"
-            value={modelAnswer}
-            onChange={setModelAnswer}
-            rows={3}
-            placeholder="Respuesta esperada o criterios de corrección…"
-            supportsMd
-          />
-          <Input
-            label="Palabras clave esperadas (separadas por coma)"
-            value={keywords}
-            onChange={(e) => setKeywords(e.target.value)}
-            placeholder="ej: gradiente, función de pérdida, backprop"
-          />
-          {type === 'PRACTICO' && (
-            <Input
-              label="Resultado numérico esperado (opcional)"
-              value={numericAnswer}
-              onChange={(e) => setNumericAnswer(e.target.value)}
-              placeholder="ej: 0.857 o 85.7%"
-            />
-          )}
-        </div>
-      )}
+                  onClick={() => toggleCorrect(opt.id)}
+                  className={`w-5 h-5 rounded flex-shrink-0 border-2 transition-colors ${
+                    correctOptionIds.includes(opt.id)
+                      ? 'bg-sage-600 border-sage-600'
+                      : 'bg-transparent border-ink-500 hover:border-sage-600'
+                  }`}
+                  title="Marcar como correcta"
+                />
+                <input
+                  type="text"
+                  value={opt.text}
+                  onChange={(e) => updateOption(opt.id, e.target.value)}
+                  placeholder={`Opción ${String.fromCharCode(65 + i)}`}
+                  className="flex-1 bg-ink-800 border border-ink-600 text-ink-100 rounded-lg px-3 py-2 text-sm font-body focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+                {options.length > 2 && (
+                  <button
+                    type="button"
+                    onClick={() => removeOption(opt.id)}
+                    className="text-ink-600 hover:text-rose-400 transition-colors text-sm"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addOption}
+              className="self-start text-xs text-ink-500 hover:text-ink-300 transition-colors"
+            >
+              + Añadir opción
+            </button>
+          </div>
+        )}
 
-      {/* COMPLETAR */}
-      {type === 'COMPLETAR' && (
-        <div className="flex flex-col gap-3">
-          <div className="flex flex-col gap-1">
+        {/* DESARROLLO / PRACTICO */}
+        {(type === 'DESARROLLO' || type === 'PRACTICO') && (
+          <div className="flex flex-col gap-3">
             <ExpandableTextarea
-              label="Texto con huecos (usa {{respuesta}} para cada hueco)"
-              value={clozeText}
-              onChange={setClozeText}
+              label="Respuesta modelo (opcional)"
+              value={modelAnswer}
+              onChange={setModelAnswer}
               rows={3}
-              placeholder="El proceso de {{tokenización}} divide el texto en unidades mínimas."
+              placeholder="Respuesta esperada o criterios de corrección…"
               supportsMd
             />
-            <button
-              type="button"
-              onClick={parseCloze}
-              className="mt-2 text-xs text-amber-400 hover:text-amber-300 transition-colors"
-            >
-              ↻ Detectar huecos
-            </button>
+            <Input
+              label="Palabras clave esperadas (separadas por coma)"
+              value={keywords}
+              onChange={(e) => setKeywords(e.target.value)}
+              placeholder="ej: gradiente, función de pérdida, backprop"
+            />
+            {type === 'PRACTICO' && (
+              <>
+                <Input
+                  label="Resultado numérico esperado (opcional)"
+                  value={numericAnswer}
+                  onChange={(e) => setNumericAnswer(e.target.value)}
+                  placeholder="ej: 0.857 o 85.7%"
+                  hint="Si hay varios resultados, sepáralos con ; (ej: 12,5 m; 3/4). Se corrige automáticamente."
+                />
+                {numericAnswer.trim() && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      label="Tolerancia absoluta"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={numericAbsTolerance}
+                      onChange={(e) => setNumericAbsTolerance(e.target.value)}
+                      placeholder="ej: 0.01"
+                    />
+                    <Input
+                      label="Tolerancia relativa (%)"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={numericRelTolerance}
+                      onChange={(e) => setNumericRelTolerance(e.target.value)}
+                      placeholder={`${DEFAULT_REL_TOLERANCE * 100}`}
+                      hint="Sin tolerancias se acepta un 1% de error."
+                    />
+                  </div>
+                )}
+              </>
+            )}
           </div>
-          {blanks.length > 0 && (
-            <div className="flex flex-col gap-2">
-              <p className="text-xs font-medium text-ink-400 uppercase tracking-widest">
-                Respuestas aceptadas por hueco
-              </p>
-              {blanks.map((b) => (
-                <div key={b.id} className="flex items-center gap-3">
-                  <span className="text-xs text-ink-500 font-mono w-28 truncate">{'{{'}{b.id}{'}}'}</span>
-                  <input
-                    type="text"
-                    value={b.accepted.join(', ')}
-                    onChange={(e) =>
-                      setBlanks(
-                        blanks.map((bl) =>
-                          bl.id === b.id
-                            ? { ...bl, accepted: e.target.value.split(',').map((s) => s.trim()).filter(Boolean) }
-                            : bl
-                        )
-                      )
-                    }
-                    className="flex-1 bg-ink-800 border border-ink-600 text-ink-100 rounded-lg px-3 py-1.5 text-xs font-body focus:outline-none focus:ring-2 focus:ring-amber-500"
-                    placeholder="respuesta1, resp alternativa…"
-                  />
-                </div>
-              ))}
+        )}
+
+        {/* COMPLETAR */}
+        {type === 'COMPLETAR' && (
+          <div className="flex flex-col gap-3">
+            <div className="flex flex-col gap-1">
+              <ExpandableTextarea
+                label="Texto con huecos (usa {{respuesta}} para cada hueco)"
+                value={clozeText}
+                onChange={setClozeText}
+                rows={3}
+                placeholder="El proceso de {{tokenización}} divide el texto en unidades mínimas."
+                supportsMd
+              />
+              <button
+                type="button"
+                onClick={parseCloze}
+                className="mt-2 text-xs text-amber-400 hover:text-amber-300 transition-colors"
+              >
+                ↻ Detectar huecos
+              </button>
             </div>
-          )}
-        </div>
-      )}
+            {blanks.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <p className="text-xs font-medium text-ink-400 uppercase tracking-widest">
+                  Respuestas aceptadas por hueco
+                </p>
+                {blanks.map((b) => (
+                  <div key={b.id} className="flex items-center gap-3">
+                    <span className="text-xs text-ink-500 font-mono w-28 truncate">{'{{'}{b.id}{'}}'}</span>
+                    <input
+                      type="text"
+                      value={b.accepted.join(', ')}
+                      onChange={(e) =>
+                        setBlanks(
+                          blanks.map((bl) =>
+                            bl.id === b.id ? { ...bl, accepted: splitAccepted(e.target.value) } : bl
+                          )
+                        )
+                      }
+                      className="flex-1 bg-ink-800 border border-ink-600 text-ink-100 rounded-lg px-3 py-1.5 text-xs font-body focus:outline-none focus:ring-2 focus:ring-amber-500"
+                      placeholder="respuesta1, resp alternativa, /patr[oó]n/…"
+                    />
+                    <select
+                      value={b.maxEdits ?? 0}
+                      onChange={(e) => {
+                        const maxEdits = parseInt(e.target.value);
+                        setBlanks(
+                          blanks.map((bl) =>
+                            bl.id === b.id ? { ...bl, maxEdits: maxEdits > 0 ? maxEdits : undefined } : bl
+                          )
+                        );
+                      }}
+                      title="Erratas toleradas"
+                      className="bg-ink-800 border border-ink-600 text-ink-300 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    >
+                      <option value={0}>Exacta</option>
+                      <option value={1}>1 errata</option>
+                      <option value={2}>2 erratas</option>
+                    </select>
+                  </div>
+                ))}
+                <p className="text-xs text-ink-500">
+                  Separa las alternativas con comas. Los números se comparan por valor (0,5 = 1/2) y
+                  /patrón/ acepta una expresión regular.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
 
-      {/* Explanation + tags */}
-      <ExpandableTextarea
-        label="Explicación / feedback (opcional)"
-        value={explanation}
-        onChange={setExplanation}
-        rows={2}
-        placeholder="Se muestra al revisar resultados…"
-        supportsMd
-      />
-      <Input
-        label="Tags (separados por coma)"
-        value={tags}
-        onChange={(e) => setTags(e.target.value)}
-        placeholder="ej: busqueda, heuristica, A*"
-      />
-
-      {/* A4: Notas personales — LOCAL, nunca exportadas */}
-      <div className="flex flex-col gap-1">
-        <label className="text-xs font-medium text-ink-400 uppercase tracking-widest">
-          Mis notas (privadas) <span className="text-ink-600 normal-case font-normal">· solo visibles por ti</span>
-        </label>
-        <textarea
-          value={notes}
-          onChange={(e) => setNotes(e.target.value)}
+        {/* Explanation + tags */}
+        <ExpandableTextarea
+          label="Explicación / feedback (opcional)"
+          value={explanation}
+          onChange={setExplanation}
           rows={2}
-          placeholder="Apunta algo que quieras recordar…"
-          className="w-full bg-ink-800 border border-ink-700 text-ink-100 rounded-lg px-3 py-2 text-sm font-body placeholder:text-ink-600 focus:outline-none focus:ring-2 focus:ring-amber-500 resize-none"
+          placeholder="Se muestra al revisar resultados…"
+          supportsMd
+        />
+        <Input
+          label="Tags (separados por coma)"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="ej: busqueda, heuristica, A*"
         />
-      </div>
 
-      {/* Actions */}
-      <div className="flex gap-3 justify-end pt-1">
-        <Button type="button" variant="ghost" onClick={onCancel}>Cancelar</Button>
-        <Button type="submit" disabled={!prompt.trim() || selectedTopicIds.length === 0}>
-          {initial?.id ? 'Guardar cambios' : 'Crear pregunta'}
-        </Button>
-      </div>
-    </form>
+        {/* A4: Notas personales — LOCAL, nunca exportadas */}
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-ink-400 uppercase tracking-widest">
+            Mis notas (privadas) <span className="text-ink-600 normal-case font-normal">· solo visibles por ti</span>
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            placeholder="Apunta algo que quieras recordar…"
+            className="w-full bg-ink-800 border border-ink-700 text-ink-100 rounded-lg px-3 py-2 text-sm font-body placeholder:text-ink-600 focus:outline-none focus:ring-2 focus:ring-amber-500 resize-none"
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 justify-end pt-1">
+          {initial?.id && onReverted && (
+            <Button type="button" variant="ghost" className="mr-auto" onClick={() => setHistoryOpen(true)}>
+              Historial
+            </Button>
+          )}
+          <Button type="button" variant="ghost" onClick={onCancel}>Cancelar</Button>
+          <Button type="submit" disabled={!prompt.trim() || selectedTopicIds.length === 0}>
+            {initial?.id ? 'Guardar cambios' : 'Crear pregunta'}
+          </Button>
+        </div>
+      </form>
+
+      {initial?.id && onReverted && (
+        <Modal open={historyOpen} onClose={() => setHistoryOpen(false)} title="Historial de la pregunta" size="lg">
+          <QuestionHistory questionId={initial.id} topics={topics} onReverted={onReverted} />
+        </Modal>
+      )}
+    </>
   );
 }
\ No newline at end of file
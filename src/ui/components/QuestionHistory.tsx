@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { questionRepo, revisionRepo } from '@/data/repos';
+import {
+  REVISION_FIELD_LABELS,
+  changedFields,
+  diffWords,
+  fieldText,
+  type RevisionField,
+} from '@/domain/revisions';
+import type { Question, QuestionContent, QuestionRevision, RevisionSource, Topic } from '@/domain/models';
+import { Badge, Button } from './index';
+
+function sourceLabel(source: RevisionSource): string {
+  switch (source.kind) {
+    case 'create': return 'Creada';
+    case 'edit': return 'Editada';
+    case 'initial': return 'Versión inicial';
+    case 'pack': return `Pack de ${source.createdBy || 'anónimo'}`;
+    case 'globalBank': return 'Banco global';
+    case 'merge': return 'Fusión';
+    case 'undoImport': return 'Import deshecho';
+    case 'revert': return 'Restaurada';
+  }
+}
+
+const SOURCE_COLORS: Record<RevisionSource['kind'], 'amber' | 'sage' | 'rose' | 'ink' | 'blue'> = {
+  create: 'sage',
+  edit: 'ink',
+  initial: 'ink',
+  pack: 'blue',
+  globalBank: 'blue',
+  merge: 'amber',
+  undoImport: 'rose',
+  revert: 'rose',
+};
+
+interface QuestionHistoryProps {
+  questionId: string;
+  topics: Topic[];
+  onReverted: (question: Question) => void;
+}
+
+/** Historial de revisiones de una pregunta con diff por campo y restauración. */
+export function QuestionHistory({ questionId, topics, onReverted }: QuestionHistoryProps) {
+  const [revisions, setRevisions] = useState<QuestionRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState('');
+
+  useEffect(() => {
+    revisionRepo.getByQuestion(questionId).then((list) => {
+      setRevisions(list);
+      setSelectedId(list[0]?.id ?? null);
+    });
+  }, [questionId]);
+
+  if (!revisions) return <p className="text-sm text-ink-500">Cargando historial…</p>;
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-ink-500">
+        Esta pregunta no tiene cambios registrados. El historial empieza con la próxima edición.
+      </p>
+    );
+  }
+
+  const index = revisions.findIndex((r) => r.id === selectedId);
+  const selected = revisions[index];
+  // La lista va de la más reciente a la más antigua
+  const previous = revisions[index + 1];
+
+  const topicTitle = (id: string) => topics.find((t) => t.id === id)?.title ?? id;
+  const text = (content: Partial<QuestionContent>, field: RevisionField): string => {
+    if (field === 'topicId') return content.topicId ? topicTitle(content.topicId) : '';
+    if (field === 'topicIds') return (content.topicIds ?? []).map(topicTitle).join(', ');
+    return fieldText(content, field);
+  };
+
+  const handleRevert = async (revision: QuestionRevision) => {
+    if (!confirm('¿Restaurar esta versión? Tus estadísticas, notas y estrella se conservan.')) return;
+    setBusy(true);
+    setMsg('');
+    try {
+      const question = await questionRepo.revert(questionId, revision.id);
+      if (question) onReverted(question);
+    } catch (err) {
+      setMsg('Error: ' + String(err));
+      setBusy(false);
+    }
+  };
+
+  const fields = selected ? changedFields(previous?.content ?? {}, selected.content) : [];
+
+  return (
+    <div className="flex flex-col gap-4">
+      {msg && <p className="text-sm text-rose-400">{msg}</p>}
+
+      <div className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+        {revisions.map((r) => (
+          <button
+            key={r.id}
+            onClick={() => setSelectedId(r.id)}
+            className={`flex items-center gap-2 text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+              r.id === selectedId ? 'bg-ink-700 text-ink-100' : 'text-ink-300 hover:bg-ink-700/50'
+            }`}
+          >
+            <Badge color={SOURCE_COLORS[r.source.kind]}>{sourceLabel(r.source)}</Badge>
+            <span className="text-xs text-ink-500 shrink-0">
+              {new Date(r.createdAt).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })}
+            </span>
+            {r.author && <span className="text-xs text-ink-400 truncate">· {r.author}</span>}
+            <span className="text-xs text-ink-500 truncate ml-auto">
+              {r.changedFields.map((f) => REVISION_FIELD_LABELS[f as RevisionField] ?? f).join(', ')}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="flex flex-col gap-3 border-t border-ink-700 pt-3">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-ink-500">
+              {previous ? 'Cambios respecto a la versión anterior' : 'Contenido de la primera versión registrada'}
+              {(selected.source.kind === 'pack' || selected.source.kind === 'undoImport') && (
+                <span className="font-mono"> · pack {selected.source.packId}</span>
+              )}
+            </p>
+            {index > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => handleRevert(selected)} loading={busy}>
+                Restaurar esta versión
+              </Button>
+            )}
+          </div>
+
+          {fields.length === 0 && <p className="text-sm text-ink-500">Sin cambios de contenido.</p>}
+          {fields.map((field) => (
+            <div key={field} className="flex flex-col gap-1">
+              <p className="text-xs font-medium text-ink-400 uppercase tracking-widest">
+                {REVISION_FIELD_LABELS[field]}
+              </p>
+              <p className="text-sm text-ink-300 whitespace-pre-wrap bg-ink-900 rounded-lg px-3 py-2">
+                {diffWords(text(previous?.content ?? {}, field), text(selected.content, field)).map((part, i) => (
+                  <span
+                    key={i}
+                    className={
+                      part.kind === 'added'
+                        ? 'bg-sage-600/20 text-sage-400'
+                        : part.kind === 'removed'
+                        ? 'bg-rose-500/10 text-rose-400 line-through'
+                        : undefined
+                    }
+                  >
+                    {part.text}
+                  </span>
+                ))}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import React from 'react';
+import type { RecallQuality, Subject } from '@/domain/models';
+import type { SubjectBreakdown } from '@/domain/mixedSession';
+import { RECALL_GRADES } from '@/domain/spacedRepetition';
 
 // ─── Button ───────────────────────────────────────────────────────────────────
 
@@ -376,3 +379,68 @@ export function StatsSummary({ seen, correct, wrong }: StatsProps) {
     </div>
   );
 }
+
+// ─── Recall quality buttons ──────────────────────────────────────────────────
+
+interface QualityButtonsProps {
+  onSelect: (quality: RecallQuality) => void;
+  /** Hide grades below this quality (e.g. 3 when the answer is already known to be correct). */
+  minQuality?: RecallQuality;
+  /** Show the keyboard shortcut [1-4] next to each label. */
+  showKeys?: boolean;
+}
+
+export function QualityButtons({ onSelect, minQuality = 0, showKeys = false }: QualityButtonsProps) {
+  const colors: Record<number, string> = {
+    1: 'border-rose-500/30 bg-rose-500/10 text-rose-400 hover:bg-rose-500/20',
+    3: 'border-amber-500/30 bg-amber-500/10 text-amber-400 hover:bg-amber-500/20',
+    4: 'border-sage-500/30 bg-sage-500/10 text-sage-400 hover:bg-sage-500/20',
+    5: 'border-blue-500/30 bg-blue-500/10 text-blue-300 hover:bg-blue-500/20',
+  };
+  return (
+    <div className="flex gap-2">
+      {RECALL_GRADES.map(({ quality, label }, i) =>
+        quality < minQuality ? null : (
+          <button
+            key={quality}
+            onClick={(e) => { e.stopPropagation(); onSelect(quality); }}
+            className={`flex-1 py-2.5 rounded-xl border text-sm font-medium transition-colors ${colors[quality]}`}
+          >
+            {label}
+            {showKeys && <span className="text-xs opacity-60 ml-1">[{i + 1}]</span>}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+// ─── Per-subject breakdown (mixed sessions) ──────────────────────────────────
+
+interface SubjectBreakdownListProps {
+  rows: SubjectBreakdown[];
+  subjects: Subject[];
+}
+
+export function SubjectBreakdownList({ rows, subjects }: SubjectBreakdownListProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      {rows.map((r) => {
+        const s = subjects.find((x) => x.id === r.subjectId);
+        const graded = r.correct + r.wrong;
+        const pct = graded === 0 ? 0 : Math.round((r.correct / graded) * 100);
+        return (
+          <div key={r.subjectId} className="flex flex-col gap-1">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: s?.color ?? '#f59e0b' }} />
+              <span className="text-ink-200 flex-1 truncate text-left">{s?.name ?? 'Asignatura eliminada'}</span>
+              <StatsSummary seen={graded} correct={r.correct} wrong={r.wrong} />
+              {r.pending > 0 && <span className="text-xs text-amber-400">{r.pending} sin corregir</span>}
+            </div>
+            <Progress value={r.correct} max={Math.max(1, r.total)} color={pct >= 70 ? 'sage' : pct >= 40 ? 'amber' : 'rose'} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
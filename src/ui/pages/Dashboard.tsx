@@ -5,10 +5,13 @@ import { Button, Card, Modal, Input, Countdown, Progress, EmptyState } from '@/u
 import { exportBank, exportGlobalBank, importBank, parseImportFile, downloadJSON, removeDuplicateQuestions, commitAndCleanContributions } from '@/data/exportImport';
 import { loadSubjectExtraInfo } from '@/data/resourceLoader';
 import { importResourceZip } from '@/data/resourceImporter';
-import type { Subject, SubjectExtraInfo, ExternalLink } from '@/domain/models';
+import type { Subject, SubjectExtraInfo, ExternalLink, SavedDeck, Topic } from '@/domain/models';
 import { db } from '@/data/db';
 import { CalendarWidget } from '@/ui/components/CalendarWidget';
 import { deliverableRepo } from '@/data/deliverableRepo';
+import { subjectRepo, sessionRepo, deckRepo, reviewLogRepo } from '@/data/repos';
+import { DeckList } from '@/ui/components/Decks';
+import { buildDailyPlan, remainingDailyBudget, type DailyPlan } from '@/domain/dailyPlanner';
 import type { Deliverable } from '@/domain/models';
 
 const SUBJECT_COLORS = [
@@ -29,7 +32,7 @@ export function Dashboard() {
 
   const [stats, setStats] = useState<Record<string, { total: number; correct: number; seen: number }>>({});
   const [dueToday, setDueToday] = useState<Record<string, number>>({});
-  const [incompleteSessions, setIncompleteSessions] = useState<Record<string, string>>({}); // subjectId → sessionId
+  const [incompleteSessions, setIncompleteSessions] = useState<Record<string, string>>({}); // subjectId → ruta para reanudar
   const [extraInfo, setExtraInfo] = useState<Record<string, SubjectExtraInfo | null>>({});
   const [importLoading, setImportLoading] = useState(false);
   const [importMsg, setImportMsg] = useState('');
@@ -49,6 +52,11 @@ export function Dashboard() {
   const [upcomingDeliverables, setUpcomingDeliverables] = useState<Deliverable[]>([]);
   // nextExamDates: subjectId → next upcoming exam dueDate (from exam deliverables)
   const [nextExamDates, setNextExamDates] = useState<Record<string, string>>({});
+  const [dailyPlan, setDailyPlan] = useState<DailyPlan | null>(null);
+  const [reviewedToday, setReviewedToday] = useState(0);
+  const [startingPlan, setStartingPlan] = useState(false);
+  const [decks, setDecks] = useState<SavedDeck[]>([]);
+  const [deckTopics, setDeckTopics] = useState<Topic[]>([]);
 
   // ── Inicialización ─────────────────────────────────────────────────────────
   useEffect(() => {
@@ -104,24 +112,21 @@ export function Dashboard() {
         // SM-2 preguntas pendientes hoy (para badge "Repaso de hoy")
         dueTodayMap[s.id] = qs.filter(q => !q.stats.nextReviewAt || q.stats.nextReviewAt <= today).length;
 
+        // Sesiones de la asignatura, incluidas las mixtas (más recientes primero)
+        const subjectSessions = await sessionRepo.getBySubject(s.id);
+        const ownIds = new Set(qs.map(q => q.id));
+
         // Count pending corrections (finished sessions with unanswered DESARROLLO/PRACTICO)
-        const sessions = await db.sessions
-          .where('subjectId')
-          .equals(s.id)
-          .filter(sess => sess.finishedAt != null && sess.answers.some(a => a.result === null))
-          .toArray();
-        pendingCounts[s.id] = sessions.reduce((acc, sess) => acc + sess.answers.filter(a => a.result === null).length, 0);
+        pendingCounts[s.id] = subjectSessions
+          .filter(sess => sess.finishedAt != null)
+          .reduce((acc, sess) => acc + sess.answers.filter(a => a.result === null && ownIds.has(a.questionId)).length, 0);
 
         // Sesión incompleta más reciente (A3)
-        const incompleteSess = await db.sessions
-          .where('subjectId')
-          .equals(s.id)
-          .filter(sess => sess.finishedAt == null && sess.answers.length > 0)
-          .toArray();
-        if (incompleteSess.length > 0) {
-          // Tomar la más reciente
-          incompleteSess.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
-          incompleteSessionsMap[s.id] = incompleteSess[0].id;
+        const incompleteSess = subjectSessions.find(sess => sess.finishedAt == null && sess.answers.length > 0);
+        if (incompleteSess) {
+          incompleteSessionsMap[s.id] = incompleteSess.mode === 'flashcard'
+            ? `/flashcard/session/${incompleteSess.id}`
+            : `/practice/${incompleteSess.id}`;
         }
       }
       setStats(result);
@@ -132,6 +137,49 @@ export function Dashboard() {
     if (subjects.length) loadStats();
   }, [subjects]);
 
+  // ── Plan diario (todas las asignaturas) ────────────────────────────────────
+  useEffect(() => {
+    async function loadPlan() {
+      const deliverables = await deliverableRepo.getAll();
+      const inputs = await Promise.all(subjects.map(async (s) => ({
+        subject: s,
+        questions: await db.questions.where('subjectId').equals(s.id).toArray(),
+        examDate: await subjectRepo.getExamDate(s.id),
+        deliverables: deliverables.filter((d) => d.subjectId === s.id),
+      })));
+      // Los repasos ya hechos hoy consumen presupuesto
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+      const reviewed = (await reviewLogRepo.getSince(startOfToday.toISOString())).length;
+      setReviewedToday(reviewed);
+      setDailyPlan(buildDailyPlan(inputs, remainingDailyBudget(settings, reviewed)));
+    }
+    if (subjects.length) loadPlan();
+  }, [subjects, settings.dailyCardBudget, settings.dailyMinutesBudget]);
+
+  // Mazos guardados de todas las asignaturas
+  useEffect(() => {
+    if (!subjects.length) return;
+    (async () => {
+      const [all, tops] = await Promise.all([deckRepo.getAll(), db.topics.toArray()]);
+      setDecks(all);
+      setDeckTopics(tops);
+    })();
+  }, [subjects]);
+
+  const handleStartDailyPlan = async () => {
+    if (!dailyPlan || dailyPlan.questionIds.length === 0) return;
+    setStartingPlan(true);
+    const subjectIds = dailyPlan.subjects.filter((s) => s.planned > 0).map((s) => s.subjectId);
+    const session = await sessionRepo.create({
+      subjectId: subjectIds[0],
+      subjectIds,
+      mode: 'daily',
+      questionIds: dailyPlan.questionIds,
+    });
+    navigate(`/practice/${session.id}`);
+  };
+
   // ── ITER2: extra_info.json ─────────────────────────────────────────────────
   useEffect(() => {
     if (!subjects.length) return;
@@ -412,6 +460,9 @@ export function Dashboard() {
               </span>
             </label>
 
+            <Button variant="ghost" size="sm" onClick={() => navigate('/search')}>
+              🔎 Buscar
+            </Button>
             <Button variant="ghost" size="sm" onClick={() => navigate('/stats')}>
               📊 Estadísticas
             </Button>
@@ -500,6 +551,57 @@ export function Dashboard() {
               </div>
             )}
 
+            {/* Plan de hoy */}
+            {dailyPlan && dailyPlan.totalDue > 0 && (
+              <Card className="mb-6">
+                <div className="flex items-start justify-between gap-4 flex-wrap">
+                  <div>
+                    <h2 className="font-display text-lg text-ink-100">Plan de hoy</h2>
+                    <p className="text-xs text-ink-500 mt-0.5">
+                      {dailyPlan.questionIds.length} de {dailyPlan.totalDue} pendientes · presupuesto {dailyPlan.budget} tarjetas
+                      {reviewedToday > 0 && ` (${reviewedToday} repasadas hoy)`}
+                    </p>
+                  </div>
+                  <Button size="sm" onClick={handleStartDailyPlan} disabled={startingPlan}>
+                    {startingPlan ? '⏳…' : `▶ Empezar (${dailyPlan.questionIds.length})`}
+                  </Button>
+                </div>
+                <div className="mt-4 flex flex-col gap-2">
+                  {dailyPlan.subjects.filter((p) => p.due > 0).map((p) => {
+                    const s = subjects.find((x) => x.id === p.subjectId);
+                    if (!s) return null;
+                    return (
+                      <div key={p.subjectId} className="flex items-center gap-3 text-sm">
+                        <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: s.color ?? '#f59e0b' }} />
+                        <span className="text-ink-300 flex-1 truncate">{s.name}</span>
+                        {p.examInDays != null && p.examInDays >= 0 && p.examInDays <= 14 && (
+                          <span className="text-xs text-rose-400">🎓 {p.examInDays === 0 ? 'hoy' : `${p.examInDays}d`}</span>
+                        )}
+                        {p.nextDeliverableInDays != null && p.nextDeliverableInDays <= 7 && (
+                          <span className="text-xs text-amber-400">📋 {p.nextDeliverableInDays === 0 ? 'hoy' : `${p.nextDeliverableInDays}d`}</span>
+                        )}
+                        <span className="text-xs text-ink-500 w-20 text-right">
+                          <span className="text-ink-200 font-medium">{p.planned}</span> / {p.due}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
+
+            {/* Mazos guardados */}
+            {decks.length > 0 && (
+              <div className="mb-6">
+                <h2 className="font-display text-lg text-ink-100 mb-3">Mis mazos</h2>
+                <DeckList
+                  decks={decks}
+                  topics={deckTopics}
+                  subjectName={(id) => subjects.find((s) => s.id === id)?.name ?? '—'}
+                />
+              </div>
+            )}
+
             {/* Grid de asignaturas */}
             {subjects.length === 0 ? (
               <EmptyState
@@ -554,7 +656,7 @@ export function Dashboard() {
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  navigate(`/practice/${incompleteSessions[s.id]}`);
+                                  navigate(incompleteSessions[s.id]);
                                 }}
                                 className="text-xs bg-orange-500/20 text-orange-300 hover:bg-orange-500/30 border border-orange-500/30 px-2 py-0.5 rounded w-fit transition-colors font-medium"
                                 title="Reanudar sesión en curso"
@@ -12,12 +12,14 @@ import { v4 as uuidv4 } from 'uuid';
 import { Button } from '@/ui/components';
 import { deliverableRepo, gradingConfigRepo } from '@/data/deliverableRepo';
 import { calcGradeBreakdown, DEFAULT_GRADING_CONFIG, fmt } from '@/domain/grading';
+import { DEFAULT_TEST_SCORING } from '@/domain/scoring';
 import { subjectRepo } from '@/data/repos';
 import type {
   Deliverable,
   DeliverableStatus,
   Subject,
   SubjectGradingConfig,
+  TestScoringMode,
 } from '@/domain/models';
 import { isDeliverableCompleted, DeliverableType } from '@/domain/models';
 
@@ -222,6 +224,7 @@ function GradeCalculator({ config, deliverables, onConfigChange }: GradeCalculat
   const [draft, setDraft] = useState(config);
 
   useEffect(() => setDraft(config), [config]);
+  const testScoring = draft.testScoring ?? DEFAULT_TEST_SCORING;
 
   const gradeColor = (g: number) =>
     g >= 9 ? 'text-sage-400' : g >= 7 ? 'text-green-400' : g >= 5 ? 'text-amber-400' : 'text-rose-400';
@@ -294,6 +297,46 @@ function GradeCalculator({ config, deliverables, onConfigChange }: GradeCalculat
               />
             </div>
           </div>
+          {/* Puntuación de preguntas TEST en simulacros */}
+          <div className="grid grid-cols-2 gap-3 pt-3 border-t border-ink-700">
+            <div>
+              <label className="text-xs text-ink-400 mb-1 block">TEST en simulacro</label>
+              <select
+                value={testScoring.mode}
+                onChange={(e) => setDraft({ ...draft, testScoring: { ...testScoring, mode: e.target.value as TestScoringMode } })}
+                className="w-full bg-ink-800 border border-ink-600 rounded-lg px-3 py-1.5 text-sm text-ink-100"
+              >
+                <option value="all_or_nothing">Todo o nada</option>
+                <option value="proportional">Proporcional (parcial)</option>
+                <option value="negative">Penalización por fallo</option>
+              </select>
+            </div>
+            {testScoring.mode === 'negative' && (
+              <div>
+                <label className="text-xs text-ink-400 mb-1 block">Resta por fallo</label>
+                <input
+                  type="number" min={0} max={1} step={0.05}
+                  placeholder="1/(n−1)"
+                  value={testScoring.wrongPenalty ?? ''}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      testScoring: { ...testScoring, wrongPenalty: e.target.value === '' ? undefined : Number(e.target.value) },
+                    })
+                  }
+                  className="w-full bg-ink-800 border border-ink-600 rounded-lg px-3 py-1.5 text-sm text-ink-100"
+                />
+              </div>
+            )}
+            <label className="col-span-2 flex items-center gap-2 text-xs text-ink-400">
+              <input
+                type="checkbox"
+                checked={testScoring.blankAllowed}
+                onChange={(e) => setDraft({ ...draft, testScoring: { ...testScoring, blankAllowed: e.target.checked } })}
+              />
+              Dejar en blanco no penaliza
+            </label>
+          </div>
           <div className="flex gap-2 justify-end">
             <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancelar</Button>
             <Button size="sm" onClick={handleSave}>Guardar</Button>
@@ -2,12 +2,15 @@
  * Flashcard.tsx
  *
  * Modo repaso rápido: tarjetas con animación de flip.
- * No guarda sesión ni estadísticas — es solo para repasar visualmente.
+ * Cada repaso se guarda como PracticeSession (mode 'flashcard'): la autoevaluación
+ * (Otra vez/Difícil/Bien/Fácil) se registra como respuesta y actualiza el scheduler.
  *
  * URL: /flashcard/:subjectId?topic=X&types=TEST,COMPLETAR&mode=random|all|topic|failed&count=20
+ *      → crea la sesión y redirige a /flashcard/session/:sessionId (reanudable)
  *
  * Teclado:
- *   Espacio / Enter  → voltear tarjeta
+ *   Espacio          → voltear tarjeta
+ *   1-4              → autoevaluar (Otra vez/Difícil/Bien/Fácil) · Enter = Bien
  *   →  / L           → siguiente
  *   ←  / J           → anterior
  */
@@ -15,10 +18,13 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useStore } from '@/ui/store';
-import { questionRepo } from '@/data/repos';
-import { TypeBadge, Button } from '@/ui/components';
+import { questionRepo, sessionRepo, subjectRepo } from '@/data/repos';
+import { TypeBadge, Button, QualityButtons } from '@/ui/components';
 import { renderMd } from '@/utils/renderMd';
-import type { Question, QuestionType } from '@/domain/models';
+import { DEFAULT_CORRECT_QUALITY, RECALL_GRADES, resultFromQuality } from '@/domain/spacedRepetition';
+import { measureResponse } from '@/domain/responseTime';
+import { withoutSuspended } from '@/domain/leech';
+import type { PracticeSession, Question, QuestionType, RecallQuality } from '@/domain/models';
 import { MdContent } from '../components/MdContent';
 
 
@@ -130,7 +136,7 @@ interface FlashcardProps {
   onFlip: () => void;
   currentIndex: number;
   selfEvalDone: Set<number>;
-  onSelfEval: (result: 'CORRECT' | 'WRONG') => void;
+  onSelfEval: (quality: RecallQuality) => void;
 }
 
 function Flashcard({ question, topicTitle, flipped, onFlip, currentIndex, selfEvalDone, onSelfEval }: FlashcardProps) {
@@ -263,21 +269,8 @@ function Flashcard({ question, topicTitle, flipped, onFlip, currentIndex, selfEv
 
           {/* Self-evaluation buttons */}
           {!selfEvalDone.has(currentIndex) && (
-            <div className="flex gap-3 mt-2">
-              <button
-                onClick={(e) => { e.stopPropagation(); onSelfEval('WRONG'); }}
-                className="flex-1 py-2.5 rounded-xl border border-rose-500/30 bg-rose-500/10 text-rose-400 hover:bg-rose-500/20 text-sm font-medium transition-colors"
-              >
-                ✗ No lo sabía
-                <span className="text-xs opacity-60 ml-1">[1]</span>
-              </button>
-              <button
-                onClick={(e) => { e.stopPropagation(); onSelfEval('CORRECT'); }}
-                className="flex-1 py-2.5 rounded-xl border border-sage-500/30 bg-sage-500/10 text-sage-400 hover:bg-sage-500/20 text-sm font-medium transition-colors"
-              >
-                ✓ Lo sabía
-                <span className="text-xs opacity-60 ml-1">[2]</span>
-              </button>
+            <div className="mt-2">
+              <QualityButtons onSelect={onSelfEval} showKeys />
             </div>
           )}
           {selfEvalDone.has(currentIndex) && (
@@ -334,11 +327,12 @@ function ProgressDots({ total, current, seen }: { total: number; current: number
 // ─── Main page ────────────────────────────────────────────────────────────────
 
 export function FlashcardPage() {
-  const { subjectId } = useParams<{ subjectId: string }>();
+  const { subjectId: subjectParam, sessionId } = useParams<{ subjectId?: string; sessionId?: string }>();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { subjects, topics } = useStore();
 
+  const [session, setSession] = useState<PracticeSession | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [flipped, setFlipped] = useState(false);
@@ -346,13 +340,47 @@ export function FlashcardPage() {
   const [selfEvalDone, setSelfEvalDone] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(true);
   const [finished, setFinished] = useState(false);
+  // Response time: card shown → first reveal
+  const shownAtRef = useRef<number | null>(null);
+  const revealMsRef = useRef<number | undefined>(undefined);
+  // StrictMode runs effects twice: create the session only once
+  const creatingRef = useRef(false);
 
+  const subjectId = session?.subjectId ?? subjectParam;
   const subject = subjects.find((s) => s.id === subjectId);
 
-  // ── Load questions ────────────────────────────────────────────────────────
+  // ── Load session (resume) ─────────────────────────────────────────────────
 
   useEffect(() => {
-    if (!subjectId) return;
+    if (!sessionId) return;
+    (async () => {
+      setLoading(true);
+      const s = await sessionRepo.getById(sessionId);
+      if (!s || s.mode !== 'flashcard') { navigate('/'); return; }
+      const qs = await questionRepo.getManyByIds(s.questionIds);
+      const ordered = s.questionIds.map((id) => qs.find((q) => q.id === id)).filter(Boolean) as Question[];
+      // Resume at the first card without a self-evaluation
+      const evaluated = new Set(s.answers.map((a) => a.questionId));
+      const done = new Set(ordered.flatMap((q, i) => (evaluated.has(q.id) ? [i] : [])));
+      const nextIdx = ordered.findIndex((q) => !evaluated.has(q.id));
+      const start = nextIdx === -1 ? 0 : nextIdx;
+      setSession(s);
+      setQuestions(ordered);
+      setCurrentIndex(start);
+      setFlipped(false);
+      setSeenSet(new Set([...done, start]));
+      setSelfEvalDone(done);
+      setFinished(s.finishedAt != null);
+      setLoading(false);
+    })();
+  }, [sessionId]);
+
+  // ── Build pool and create session ─────────────────────────────────────────
+
+  useEffect(() => {
+    if (sessionId || !subjectParam || creatingRef.current) return;
+    creatingRef.current = true;
+    const subjectId = subjectParam;
     (async () => {
       setLoading(true);
       let pool = await questionRepo.getBySubject(subjectId);
@@ -377,9 +405,15 @@ export function FlashcardPage() {
         pool = pool.filter((q) => q.stats.lastResult === 'WRONG');
       }
 
+      // Suspended questions (leeches) stay out of random and smart reviews
+      if (mode === 'random' || mode === 'smart') {
+        pool = withoutSuspended(pool);
+      }
+
       if (mode === 'smart') {
         const { sortByPriority } = await import('@/domain/spacedRepetition');
-        pool = sortByPriority(pool);
+        const subj = await subjectRepo.getById(subjectId);
+        pool = sortByPriority(pool, subj?.scheduler);
       } else {
         // Shuffle
         pool = pool.sort(() => Math.random() - 0.5);
@@ -389,30 +423,40 @@ export function FlashcardPage() {
         pool = pool.slice(0, count);
       }
 
-      setQuestions(pool);
-      setCurrentIndex(0);
-      setFlipped(false);
-      setSeenSet(new Set([0]));
-      setSelfEvalDone(new Set());
-      setLoading(false);
+      if (pool.length === 0) {
+        setQuestions([]);
+        setLoading(false);
+        return;
+      }
+      const created = await sessionRepo.create({
+        subjectId,
+        mode: 'flashcard',
+        topicId: topicId ?? undefined,
+        questionIds: pool.map((q) => q.id),
+      });
+      navigate(`/flashcard/session/${created.id}`, { replace: true });
     })();
-  }, [subjectId, searchParams]);
+  }, [sessionId, subjectParam, searchParams]);
+
+  useEffect(() => {
+    if (loading) return;
+    shownAtRef.current = Date.now();
+    revealMsRef.current = undefined;
+  }, [currentIndex, loading]);
 
   // ── Keyboard shortcuts ────────────────────────────────────────────────────
 
   const goNext = useCallback(() => {
     if (finished) return;
     setFlipped(false);
-    setCurrentIndex((i) => {
-      const next = i + 1;
-      if (next >= questions.length) {
-        setFinished(true);
-        return i;
-      }
-      setSeenSet((prev) => new Set([...prev, next]));
-      return next;
-    });
-  }, [questions.length, finished]);
+    if (currentIndex + 1 >= questions.length) {
+      setFinished(true);
+      if (session) sessionRepo.finish(session.id);
+      return;
+    }
+    setSeenSet((prev) => new Set([...prev, currentIndex + 1]));
+    setCurrentIndex(currentIndex + 1);
+  }, [questions.length, finished, currentIndex, session]);
 
   const goPrev = useCallback(() => {
     setFlipped(false);
@@ -420,35 +464,45 @@ export function FlashcardPage() {
   }, []);
 
   const handleFlip = useCallback(() => {
+    if (revealMsRef.current == null) revealMsRef.current = measureResponse(shownAtRef.current);
     setFlipped((f) => !f);
   }, []);
 
-  const handleSelfEval = useCallback(async (result: 'CORRECT' | 'WRONG') => {
+  const handleSelfEval = useCallback(async (quality: RecallQuality) => {
     const q = questions[currentIndex];
-    if (!q) return;
-    await questionRepo.updateStats(q.id, result);
+    if (!q || !session) return;
+    const result = resultFromQuality(quality);
+    const responseMs = revealMsRef.current;
+    await sessionRepo.addAnswer(session.id, {
+      questionId: q.id,
+      answeredAt: new Date().toISOString(),
+      result,
+      quality,
+      responseMs,
+    });
+    await questionRepo.updateStats(q.id, result, quality, { sessionId: session.id, responseMs });
     setQuestions((prev) =>
       prev.map((question, i) =>
         i === currentIndex
-          ? { ...question, stats: { ...question.stats, lastResult: result, seen: question.stats.seen + 1 } }
+          ? { ...question, stats: { ...question.stats, lastResult: result, lastQuality: quality, seen: question.stats.seen + 1 } }
           : question
       )
     );
     setSelfEvalDone((prev) => new Set([...prev, currentIndex]));
     goNext();
-  }, [questions, currentIndex, goNext]);
+  }, [questions, currentIndex, session, goNext]);
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       // Don't intercept if typing in an input
       if ((e.target as HTMLElement).matches('input, textarea')) return;
 
-      if (e.key === '1' && flipped && !selfEvalDone.has(currentIndex)) {
+      if (['1', '2', '3', '4'].includes(e.key) && flipped && !selfEvalDone.has(currentIndex)) {
         e.preventDefault();
-        handleSelfEval('WRONG');
-      } else if ((e.key === '2' || e.key === 'Enter') && flipped && !selfEvalDone.has(currentIndex)) {
+        handleSelfEval(RECALL_GRADES[parseInt(e.key) - 1].quality);
+      } else if (e.key === 'Enter' && flipped && !selfEvalDone.has(currentIndex)) {
         e.preventDefault();
-        handleSelfEval('CORRECT');
+        handleSelfEval(DEFAULT_CORRECT_QUALITY);
       } else if (e.key === ' ') {
         e.preventDefault();
         handleFlip();
@@ -506,18 +560,26 @@ export function FlashcardPage() {
         <div className="text-center">
           <h2 className="text-2xl font-semibold mb-2">¡Repaso completado!</h2>
           <p className="text-ink-400">
-            Has repasado <span className="text-ink-200 font-medium">{questions.length}</span> tarjetas
+            Has evaluado <span className="text-ink-200 font-medium">{selfEvalDone.size}</span> de{' '}
+            <span className="text-ink-200 font-medium">{questions.length}</span> tarjetas
           </p>
         </div>
         <div className="flex flex-col sm:flex-row gap-3 mt-2">
+          {session && (
+            <Button variant="secondary" onClick={() => navigate(`/results/${session.id}`)}>
+              📊 Ver resultados
+            </Button>
+          )}
           <Button
-            onClick={() => {
-              setQuestions((q) => [...q].sort(() => Math.random() - 0.5));
-              setCurrentIndex(0);
-              setFlipped(false);
-              setSeenSet(new Set([0]));
-              setSelfEvalDone(new Set());
-              setFinished(false);
+            onClick={async () => {
+              if (!session) return;
+              const again = await sessionRepo.create({
+                subjectId: session.subjectId,
+                mode: 'flashcard',
+                topicId: session.topicId,
+                questionIds: [...session.questionIds].sort(() => Math.random() - 0.5),
+              });
+              navigate(`/flashcard/session/${again.id}`);
             }}
           >
             🔀 Repetir barajado
@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { db } from '@/data/db';
-import { subjectRepo } from '@/data/repos';
-import { Button, Card, Progress } from '@/ui/components';
+import { subjectRepo, sessionRepo } from '@/data/repos';
+import { breakdownBySubject, isMixedSession, pickMixedQuestions } from '@/domain/mixedSession';
+import { Button, Card, Input, Progress, Select, SubjectBreakdownList } from '@/ui/components';
 import type { Subject, Question, PracticeSession } from '@/domain/models';
 
 function calcStreak(sessions: PracticeSession[]): number {
@@ -49,6 +50,11 @@ export function GlobalStatsPage() {
   const [questions, setQuestions] = useState<Question[]>([]);
   const [sessions, setSessions] = useState<PracticeSession[]>([]);
   const [loading, setLoading] = useState(true);
+  // Mixed session launcher
+  const [mixSelected, setMixSelected] = useState<string[]>([]);
+  const [mixMode, setMixMode] = useState<'smart' | 'random'>('smart');
+  const [mixCount, setMixCount] = useState('20');
+  const [mixMsg, setMixMsg] = useState('');
 
   useEffect(() => {
     (async () => {
@@ -64,6 +70,31 @@ export function GlobalStatsPage() {
     })();
   }, []);
 
+  const toggleMixSubject = (id: string) => {
+    setMixSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const handleStartMixed = async () => {
+    const selected = subjects.filter((s) => mixSelected.includes(s.id));
+    const pools = selected.map((s) => ({
+      questions: questions.filter((q) => q.subjectId === s.id),
+      scheduler: s.scheduler,
+    }));
+    const picked = pickMixedQuestions(pools, mixMode, parseInt(mixCount) || 20);
+    if (picked.length === 0) {
+      setMixMsg(mixMode === 'smart' ? 'No hay preguntas pendientes de repaso en esas asignaturas.' : 'No hay preguntas en esas asignaturas.');
+      return;
+    }
+    const subjectIds = selected.map((s) => s.id).filter((id) => picked.some((q) => q.subjectId === id));
+    const session = await sessionRepo.create({
+      subjectId: subjectIds[0],
+      subjectIds,
+      mode: mixMode,
+      questionIds: picked.map((q) => q.id),
+    });
+    navigate(`/practice/${session.id}`);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-ink-950 flex items-center justify-center">
@@ -85,6 +116,12 @@ export function GlobalStatsPage() {
   const dueBySubject: Record<string, number> = {};
   for (const q of dueToday) dueBySubject[q.subjectId] = (dueBySubject[q.subjectId] ?? 0) + 1;
 
+  const subjectOf = Object.fromEntries(questions.map((q) => [q.id, q.subjectId]));
+  const recentMixed = sessions
+    .filter(isMixedSession)
+    .sort((a, b) => b.finishedAt!.localeCompare(a.finishedAt!))
+    .slice(0, 5);
+
   // Curva histórica: últimas 4 semanas
   const fourWeeksAgo = new Date();
   fourWeeksAgo.setDate(fourWeeksAgo.getDate() - 28);
@@ -171,6 +208,66 @@ export function GlobalStatsPage() {
           )}
         </section>
 
+        {/* Sesión mixta */}
+        {subjects.length > 1 && (
+          <section>
+            <h2 className="font-display text-lg text-ink-200 mb-4">Sesión mixta</h2>
+            <Card className="py-5 px-5 flex flex-col gap-4">
+              <p className="text-sm text-ink-500">
+                Mezcla preguntas de varias asignaturas en una misma sesión (útil con exámenes la misma semana).
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {subjects.map((s) => {
+                  const active = mixSelected.includes(s.id);
+                  return (
+                    <button
+                      key={s.id}
+                      onClick={() => toggleMixSubject(s.id)}
+                      className={`text-sm px-3 py-1.5 rounded-lg border flex items-center gap-2 transition-colors ${
+                        active ? 'border-amber-500/50 bg-amber-500/10 text-amber-300' : 'border-ink-700 text-ink-400 hover:border-ink-500'
+                      }`}
+                    >
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color ?? '#f59e0b' }} />
+                      {s.name}
+                      {(dueBySubject[s.id] ?? 0) > 0 && <span className="text-xs text-ink-500">{dueBySubject[s.id]}</span>}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex items-end gap-3 flex-wrap">
+                <Select label="Modo" value={mixMode} onChange={(e) => setMixMode(e.target.value as 'smart' | 'random')}>
+                  <option value="smart">Repaso inteligente (pendientes)</option>
+                  <option value="random">Aleatorio</option>
+                </Select>
+                <Input label="Preguntas" type="number" min={1} value={mixCount} onChange={(e) => setMixCount(e.target.value)} className="w-24" />
+                <Button onClick={handleStartMixed} disabled={mixSelected.length < 2}>
+                  ▶ Empezar sesión mixta
+                </Button>
+              </div>
+              {mixSelected.length < 2 && <p className="text-xs text-ink-600">Elige al menos dos asignaturas.</p>}
+              {mixMsg && <p className="text-xs text-amber-400">{mixMsg}</p>}
+            </Card>
+          </section>
+        )}
+
+        {/* Sesiones mixtas recientes */}
+        {recentMixed.length > 0 && (
+          <section>
+            <h2 className="font-display text-lg text-ink-200 mb-4">Sesiones mixtas recientes</h2>
+            <div className="flex flex-col gap-3">
+              {recentMixed.map((s) => (
+                <Card key={s.id} hover onClick={() => navigate(`/results/${s.id}`)} className="py-4 px-5">
+                  <p className="text-xs text-ink-500 mb-3">
+                    {new Date(s.finishedAt!).toLocaleDateString('es-ES', { day: '2-digit', month: 'short', year: 'numeric' })}
+                    {' · '}{s.questionIds.length} preguntas
+                  </p>
+                  <SubjectBreakdownList rows={breakdownBySubject(s, subjectOf)} subjects={subjects} />
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Progreso por asignatura */}
         <section>
           <h2 className="font-display text-lg text-ink-200 mb-4">Progreso por asignatura</h2>
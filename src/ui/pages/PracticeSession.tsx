@@ -1,10 +1,16 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { db } from '@/data/db';
 import { questionRepo, sessionRepo } from '@/data/repos';
-import { scoreAnswer } from '@/domain/scoring';
-import { Button, Progress, TypeBadge, Modal } from '@/ui/components';
-import type { Question, PracticeSession, UserAnswer, Topic } from '@/domain/models';
+import { DEFAULT_TEST_SCORING, answerPoints, scoreAnswer } from '@/domain/scoring';
+import { gradingConfigRepo } from '@/data/deliverableRepo';
+import { DEFAULT_CORRECT_QUALITY, RECALL_GRADES, qualityFromResult, resultFromQuality } from '@/domain/spacedRepetition';
+import { measureResponse } from '@/domain/responseTime';
+import { parseExpectedResults, scoreNumeric } from '@/domain/numeric';
+import { scoreBlanks, type BlankMatch } from '@/domain/clozeMatch';
+import { breakdownBySubject, isMixedSession, sessionSubjectIds } from '@/domain/mixedSession';
+import { Button, Progress, TypeBadge, Modal, QualityButtons, SubjectBreakdownList } from '@/ui/components';
+import type { Question, PracticeSession, UserAnswer, Topic, RecallQuality, Subject, TestScoringRule } from '@/domain/models';
 import { v4 as uuidv4 } from 'uuid';
 import { renderMd } from '@/utils/renderMd';
 import { MdContent } from '@/ui/components/MdContent';
@@ -23,16 +29,26 @@ export function PracticeSessionPage() {
   const [session, setSession] = useState<PracticeSession | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [topics, setTopics] = useState<Topic[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  // subjectId → TEST scoring rule (from the subject's grading config)
+  const [scoringRules, setScoringRules] = useState<Record<string, TestScoringRule>>({});
   const [currentIndex, setCurrentIndex] = useState(0);
   const [submitted, setSubmitted] = useState(false);
   const [answers, setAnswers] = useState<UserAnswer[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
+  // Correct auto-scored answer the user can still re-grade (recorded as "Bien" at submit)
+  const [awaitingGradeId, setAwaitingGradeId] = useState<string | null>(null);
+  // Questions already graded explicitly, so repeated grade keys or clicks grade only once
+  const gradedRef = useRef<Set<string>>(new Set());
+  // When the current question was shown, for response time
+  const shownAtRef = useRef<number | null>(null);
 
   // Per-question answer state
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const [freeText, setFreeText] = useState('');
   const [blankAnswers, setBlankAnswers] = useState<Record<string, string>>({});
+  const [numericAnswers, setNumericAnswers] = useState<string[]>([]);
 
   useEffect(() => {
     if (!sessionId) return;
@@ -42,8 +58,13 @@ export function PracticeSessionPage() {
       const qs = await questionRepo.getManyByIds(s.questionIds);
       // Keep original order
       const ordered = s.questionIds.map((id) => qs.find((q) => q.id === id)).filter(Boolean) as Question[];
-      const ts = await db.topics.where('subjectId').equals(s.subjectId).toArray();
+      const subjectIds = sessionSubjectIds(s);
+      const ts = await db.topics.where('subjectId').anyOf(subjectIds).toArray();
+      const subs = (await db.subjects.bulkGet(subjectIds)).filter(Boolean) as Subject[];
+      const configs = await Promise.all(subjectIds.map((id) => gradingConfigRepo.get(id)));
       setSession(s);
+      setSubjects(subs);
+      setScoringRules(Object.fromEntries(configs.map((c) => [c.id, c.testScoring ?? DEFAULT_TEST_SCORING])));
       setQuestions(ordered);
       setTopics(ts);
       // Resume: figure out where we left off
@@ -83,6 +104,10 @@ export function PracticeSessionPage() {
     }
   }, [examTimedOut, session]);
 
+  useEffect(() => {
+    if (!loading) shownAtRef.current = Date.now();
+  }, [currentIndex, loading]);
+
   const currentQuestion = questions[currentIndex];
   const isFinished = currentIndex >= questions.length;
   const progress = questions.length === 0 ? 0 : currentIndex / questions.length;
@@ -97,6 +122,7 @@ export function PracticeSessionPage() {
     setSelectedOptions([]);
     setFreeText('');
     setBlankAnswers({});
+    setNumericAnswers([]);
     setSubmitted(false);
   };
 
@@ -107,39 +133,93 @@ export function PracticeSessionPage() {
     );
   };
 
+  const ruleFor = (q: Question) => scoringRules[q.subjectId] ?? DEFAULT_TEST_SCORING;
+
   const handleSubmitAnswer = async () => {
     if (!currentQuestion || !session) return;
 
     const answer: UserAnswer = {
       questionId: currentQuestion.id,
       answeredAt: new Date().toISOString(),
+      responseMs: measureResponse(shownAtRef.current),
     };
 
     if (currentQuestion.type === 'TEST') {
       answer.selectedOptionIds = selectedOptions;
     } else if (currentQuestion.type === 'DESARROLLO') {
       answer.freeText = freeText;
+    } else if (currentQuestion.type === 'PRACTICO') {
+      answer.freeText = freeText;
+      if (numericAnswers.some((v) => v.trim())) answer.numericAnswers = numericAnswers;
     } else if (currentQuestion.type === 'COMPLETAR') {
       answer.blankAnswers = blankAnswers;
     }
 
     const result = scoreAnswer(currentQuestion, answer);
     answer.result = result;
+    answer.score = answerPoints(currentQuestion, answer, ruleFor(currentQuestion)) ?? undefined;
+
+    // Wrong answers are always "Otra vez". Correct ones are recorded as "Bien" right
+    // away so leaving the session keeps the review; the user may re-grade them after,
+    // except in exam mode where there is no feedback to grade against.
+    const canGrade = result === 'CORRECT' && !isExamMode;
+    if (result !== null) answer.quality = canGrade ? DEFAULT_CORRECT_QUALITY : qualityFromResult(result);
 
     // Save to session
     await sessionRepo.addAnswer(session.id, answer);
 
     // Update question stats (skip DESARROLLO until manual correction)
     if (result !== null) {
-      await questionRepo.updateStats(currentQuestion.id, result);
+      await questionRepo.updateStats(currentQuestion.id, result, answer.quality, {
+        sessionId: session.id,
+        responseMs: answer.responseMs,
+      });
     }
 
     const newAnswers = [...answers, answer];
     setAnswers(newAnswers);
+    gradedRef.current.delete(currentQuestion.id);
+    setAwaitingGradeId(canGrade ? currentQuestion.id : null);
     setSubmitted(true);
   };
 
+  const handleGrade = async (questionId: string, quality: RecallQuality) => {
+    if (!session) return;
+    const answer = answers.find((a) => a.questionId === questionId);
+    if (!answer?.result || gradedRef.current.has(questionId)) return;
+    gradedRef.current.add(questionId);
+    setAwaitingGradeId(null);
+    if (quality === answer.quality) return;
+    // The review was recorded at submit with the default grade: re-grade it
+    await sessionRepo.updateAnswer(session.id, questionId, { quality });
+    await questionRepo.correctReview(questionId, session.id, answer.result, quality, answer.responseMs);
+    setAnswers((prev) => prev.map((a) => (a.questionId === questionId ? { ...a, quality } : a)));
+  };
+
+  // Undo the last answer: drop it from the session and restore the question's stats
+  const handleUndo = async () => {
+    if (!session || answers.length === 0) return;
+    const last = answers[answers.length - 1];
+    if (!(await questionRepo.undoReview(last.questionId, session.id))) {
+      alert('No se puede deshacer: la pregunta se ha repasado después en otra sesión.');
+      return;
+    }
+    await sessionRepo.removeAnswer(session.id, last.questionId);
+    const fresh = await questionRepo.getById(last.questionId);
+    if (fresh) setQuestions((prev) => prev.map((q) => (q.id === fresh.id ? fresh : q)));
+    setAnswers((prev) => prev.slice(0, -1));
+    setAwaitingGradeId(null);
+    setSelectedOptions(last.selectedOptionIds ?? []);
+    setFreeText(last.freeText ?? '');
+    setBlankAnswers(last.blankAnswers ?? {});
+    setNumericAnswers(last.numericAnswers ?? []);
+    setSubmitted(false);
+    setCurrentIndex(Math.max(0, questions.findIndex((q) => q.id === last.questionId)));
+  };
+
   const handleNext = () => {
+    // Ungraded correct answer keeps the default "Bien" recorded at submit
+    setAwaitingGradeId(null);
     resetAnswerState();
     setCurrentIndex((i) => i + 1);
   };
@@ -159,6 +239,11 @@ export function PracticeSessionPage() {
     setEditingQuestion(null);
   };
 
+  const handleReverted = (reverted: Question) => {
+    setQuestions((prev) => prev.map((q) => (q.id === reverted.id ? reverted : q)));
+    setEditingQuestion(null);
+  };
+
   // ─── B1: Keyboard navigation ─────────────────────────────────────────────────
   const canSubmit =
     currentQuestion &&
@@ -173,6 +258,13 @@ export function PracticeSessionPage() {
       if (editingQuestion) return;
       if (isFinished) return;
 
+      // Ctrl/Cmd+Z: undo the last answer
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && !isExamMode) {
+        e.preventDefault();
+        handleUndo();
+        return;
+      }
+
       // Enter / Space: submit or next
       if (e.key === 'Enter' || e.key === ' ') {
         e.preventDefault();
@@ -184,6 +276,14 @@ export function PracticeSessionPage() {
         return;
       }
 
+      // 1-4 after a correct answer: grade recall (Difícil/Bien/Fácil; "Otra vez" n/a)
+      if (['1', '2', '3', '4'].includes(e.key) && submitted && awaitingGradeId === currentQuestion?.id) {
+        e.preventDefault();
+        const grade = RECALL_GRADES[parseInt(e.key) - 1];
+        if (grade.quality >= 3) handleGrade(awaitingGradeId, grade.quality);
+        return;
+      }
+
       // 1-4: toggle options for TEST questions
       if (['1', '2', '3', '4'].includes(e.key) && currentQuestion?.type === 'TEST' && !submitted) {
         e.preventDefault();
@@ -215,7 +315,7 @@ export function PracticeSessionPage() {
 
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [submitted, canSubmit, currentIndex, currentQuestion, editingQuestion, isFinished, answers, questions, selectedOptions, blankAnswers]);
+  }, [submitted, canSubmit, currentIndex, currentQuestion, editingQuestion, isFinished, answers, questions, selectedOptions, blankAnswers, awaitingGradeId]);
 
   if (loading) {
     return (
@@ -233,6 +333,9 @@ export function PracticeSessionPage() {
     );
   }
 
+  // Multi-subject sessions (daily plan) go back to the Dashboard
+  const exitPath = isMixedSession(session) ? '/' : `/subject/${session.subjectId}`;
+
   // Show finish screen
   if (isFinished) {
     const correct = answers.filter((a) => a.result === 'CORRECT').length;
@@ -264,12 +367,22 @@ export function PracticeSessionPage() {
             </div>
           </div>
 
+          {isMixedSession(session) && (
+            <SubjectBreakdownList
+              rows={breakdownBySubject(
+                { ...session, answers },
+                Object.fromEntries(questions.map((q) => [q.id, q.subjectId]))
+              )}
+              subjects={subjects}
+            />
+          )}
+
           <div className="flex flex-col gap-3">
             <Button onClick={handleFinish} size="lg">
               Ver resultados detallados →
             </Button>
-            <Button variant="ghost" onClick={() => navigate(`/subject/${session.subjectId}`)}>
-              Volver a la asignatura
+            <Button variant="ghost" onClick={() => navigate(exitPath)}>
+              {isMixedSession(session) ? 'Volver al inicio' : 'Volver a la asignatura'}
             </Button>
           </div>
         </div>
@@ -287,7 +400,7 @@ export function PracticeSessionPage() {
         <div className="max-w-3xl mx-auto px-6 py-3">
           <div className="flex items-center justify-between mb-2">
             <button
-              onClick={() => { if (confirm('¿Abandonar la sesión?')) navigate(`/subject/${session.subjectId}`); }}
+              onClick={() => { if (confirm('¿Abandonar la sesión?')) navigate(exitPath); }}
               className="text-ink-500 hover:text-ink-300 text-sm transition-colors"
             >
               ✕ Salir
@@ -308,6 +421,7 @@ export function PracticeSessionPage() {
           <div className="flex gap-3 mt-1.5 text-[10px] text-ink-600">
             <span>⏎ {submitted ? 'siguiente' : 'enviar'}</span>
             {currentQuestion?.type === 'TEST' && !submitted && <span>1-4 opciones</span>}
+            {submitted && awaitingGradeId === currentQuestion?.id && <span>2-4 valorar</span>}
             <span>← → navegar</span>
           </div>
         </div>
@@ -317,6 +431,15 @@ export function PracticeSessionPage() {
       <main className="flex-1 max-w-3xl mx-auto w-full px-6 py-10 flex flex-col gap-6">
         {/* Question header */}
         <div className="flex items-center gap-2 flex-wrap">
+          {isMixedSession(session) && (() => {
+            const s = subjects.find((x) => x.id === currentQuestion.subjectId);
+            return s ? (
+              <span className="text-xs px-2 py-0.5 rounded border border-ink-700 text-ink-300 flex items-center gap-1.5">
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: s.color ?? '#f59e0b' }} />
+                {s.name}
+              </span>
+            ) : null;
+          })()}
           <TypeBadge type={currentQuestion.type} />
           {currentQuestion.difficulty && (
             <span className="text-xs text-ink-500">
@@ -377,9 +500,17 @@ export function PracticeSessionPage() {
             selectedOptions={selectedOptions}
             freeText={freeText}
             blankAnswers={blankAnswers}
+            numericAnswers={numericAnswers}
             onToggleOption={handleToggleOption}
             onFreeTextChange={setFreeText}
             onBlankChange={(id, val) => setBlankAnswers((prev) => ({ ...prev, [id]: val }))}
+            onNumericChange={(i, val) =>
+              setNumericAnswers((prev) => {
+                const next = [...prev];
+                next[i] = val;
+                return Array.from(next, (v) => v ?? '');
+              })
+            }
           />
         ) : isExamMode ? (
           /* D1: In exam mode, don't show feedback — just a minimal confirmation */
@@ -391,15 +522,18 @@ export function PracticeSessionPage() {
             question={currentQuestion}
             answer={currentAnswer!}
             result={autoResult}
+            awaitingGrade={awaitingGradeId === currentQuestion.id}
+            onGrade={(q) => handleGrade(currentQuestion.id, q)}
             onNoteChange={async (note) => {
               await questionRepo.update(currentQuestion.id, { notes: note });
               setQuestions((prev) =>
                 prev.map((q) => q.id === currentQuestion.id ? { ...q, notes: note } : q)
               );
             }}
-            onManualResult={async (r) => {
+            onManualResult={async (quality) => {
               // For DESARROLLO: update answer result and question stats
-              const updated = { ...currentAnswer!, manualResult: r, result: r };
+              const r = resultFromQuality(quality);
+              const updated = { ...currentAnswer!, manualResult: r, result: r, quality, score: r === 'CORRECT' ? 1 : 0 };
               const newAnswers = answers.map((a) =>
                 a.questionId === currentQuestion.id ? updated : a
               );
@@ -411,7 +545,10 @@ export function PracticeSessionPage() {
                   a.questionId === currentQuestion.id ? updated : a
                 );
                 await db.sessions.update(session.id, { answers: updatedAnswers });
-                await questionRepo.updateStats(currentQuestion.id, r);
+                await questionRepo.updateStats(currentQuestion.id, r, quality, {
+                  sessionId: session.id,
+                  responseMs: currentAnswer!.responseMs,
+                });
               }
             }}
           />
@@ -434,24 +571,36 @@ export function PracticeSessionPage() {
               {currentIndex < questions.length - 1 ? 'Siguiente →' : 'Finalizar sesión'}
             </Button>
           )}
-          {!submitted && (
-            <button
-              onClick={() => {
-                // Skip (empty answer)
-                const answer: UserAnswer = {
-                  questionId: currentQuestion.id,
-                  answeredAt: new Date().toISOString(),
-                  result: 'WRONG',
-                };
-                sessionRepo.addAnswer(session.id, answer);
-                setAnswers((prev) => [...prev, answer]);
-                setSubmitted(true);
-              }}
-              className="text-xs text-ink-600 hover:text-ink-400 transition-colors"
-            >
-              Saltar
-            </button>
-          )}
+          <div className="flex items-center gap-4">
+            {!isExamMode && answers.length > 0 && (
+              <button
+                onClick={handleUndo}
+                className="text-xs text-ink-600 hover:text-ink-400 transition-colors"
+                title="Deshacer la última respuesta (Ctrl+Z)"
+              >
+                ↶ Deshacer
+              </button>
+            )}
+            {!submitted && (
+              <button
+                onClick={() => {
+                  // Skip (empty answer)
+                  const answer: UserAnswer = {
+                    questionId: currentQuestion.id,
+                    answeredAt: new Date().toISOString(),
+                    result: 'WRONG',
+                  };
+                  answer.score = answerPoints(currentQuestion, answer, ruleFor(currentQuestion)) ?? undefined;
+                  sessionRepo.addAnswer(session.id, answer);
+                  setAnswers((prev) => [...prev, answer]);
+                  setSubmitted(true);
+                }}
+                className="text-xs text-ink-600 hover:text-ink-400 transition-colors"
+              >
+                Saltar
+              </button>
+            )}
+          </div>
         </div>
       </main>
 
@@ -459,11 +608,12 @@ export function PracticeSessionPage() {
       {editingQuestion && (
         <Modal open onClose={() => setEditingQuestion(null)} title="Editar pregunta">
           <QuestionForm
-            subjectId={session.subjectId}
-            topics={topics}
+            subjectId={editingQuestion.subjectId}
+            topics={topics.filter((t) => t.subjectId === editingQuestion.subjectId)}
             initial={editingQuestion}
             onSave={handleEditSave}
             onCancel={() => setEditingQuestion(null)}
+            onReverted={handleReverted}
           />
         </Modal>
       )}
@@ -478,14 +628,16 @@ interface AnswerInputProps {
   selectedOptions: string[];
   freeText: string;
   blankAnswers: Record<string, string>;
+  numericAnswers: string[];
   onToggleOption: (id: string) => void;
   onFreeTextChange: (val: string) => void;
   onBlankChange: (id: string, val: string) => void;
+  onNumericChange: (index: number, val: string) => void;
 }
 
 function AnswerInput({
-  question, selectedOptions, freeText, blankAnswers,
-  onToggleOption, onFreeTextChange, onBlankChange,
+  question, selectedOptions, freeText, blankAnswers, numericAnswers,
+  onToggleOption, onFreeTextChange, onBlankChange, onNumericChange,
 }: AnswerInputProps) {
   if (question.type === 'TEST') {
     const isMulti = (question.correctOptionIds ?? []).length > 1;
@@ -560,6 +712,7 @@ function AnswerInput({
   }
 
   // DESARROLLO / PRACTICO
+  const expected = question.type === 'PRACTICO' ? parseExpectedResults(question.numericAnswer) : null;
   return (
     <div className="flex flex-col gap-2">
       <textarea
@@ -569,7 +722,24 @@ function AnswerInput({
         placeholder={question.type === 'PRACTICO' ? 'Desarrolla tu solución y/o indica el resultado numérico...' : 'Escribe tu respuesta aquí...'}
         className="w-full bg-ink-800 border border-ink-700 text-ink-100 rounded-xl px-4 py-3 text-sm font-body placeholder:text-ink-600 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent resize-none leading-relaxed"
       />
-      {question.type === 'PRACTICO' && question.numericAnswer && (
+      {expected ? (
+        <div className="flex flex-col gap-2">
+          <p className="text-xs text-ink-500">
+            Indica {expected.length > 1 ? 'los resultados' : 'el resultado'} para corregirlo automáticamente (admite 1,5 · 3/4 · 2e-3 · unidades).
+          </p>
+          {expected.map((e, i) => (
+            <div key={i} className="flex items-center gap-3">
+              <span className="text-xs text-ink-500 w-24 flex-shrink-0">Resultado {i + 1}:</span>
+              <input
+                value={numericAnswers[i] ?? ''}
+                onChange={(ev) => onNumericChange(i, ev.target.value)}
+                className="flex-1 bg-ink-800 border border-ink-600 text-ink-100 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-amber-500"
+                placeholder={e.unit ? `… ${e.unit}` : '…'}
+              />
+            </div>
+          ))}
+        </div>
+      ) : question.type === 'PRACTICO' && question.numericAnswer && (
         <p className="text-xs text-ink-500">Esta pregunta tiene un resultado numérico esperado.</p>
       )}
     </div>
@@ -582,11 +752,14 @@ interface AnswerResultProps {
   question: Question;
   answer: UserAnswer;
   result?: 'CORRECT' | 'WRONG' | null;
-  onManualResult: (r: 'CORRECT' | 'WRONG') => void;
+  /** True while a correct auto-scored answer is waiting for its recall grade. */
+  awaitingGrade: boolean;
+  onGrade: (quality: RecallQuality) => void;
+  onManualResult: (quality: RecallQuality) => void;
   onNoteChange?: (note: string) => void;
 }
 
-function AnswerResult({ question, answer, result, onManualResult, onNoteChange }: AnswerResultProps) {
+function AnswerResult({ question, answer, result, awaitingGrade, onGrade, onManualResult, onNoteChange }: AnswerResultProps) {
   const [manualSet, setManualSet] = useState(false);
   const [editingNote, setEditingNote] = useState(false);
   const [noteText, setNoteText] = useState(question.notes ?? '');
@@ -620,30 +793,23 @@ function AnswerResult({ question, answer, result, onManualResult, onNoteChange }
         {/* Correct answer */}
         <div className={`border rounded-xl p-4 ${isCorrect ? 'bg-sage-600/5 border-sage-600/20' : 'bg-ink-800 border-ink-700'}`}>
           <p className="text-xs text-ink-500 uppercase tracking-widest mb-2">Respuesta correcta</p>
-          <CorrectAnswerDisplay question={question} />
+          <CorrectAnswerDisplay question={question} answer={answer} />
         </div>
       </div>
 
+      {/* Recall grade for a correct auto-scored answer */}
+      {isCorrect && awaitingGrade && (
+        <div className="flex flex-col gap-2">
+          <p className="text-sm text-ink-400 text-center">¿Cómo de bien lo recordabas?</p>
+          <QualityButtons minQuality={3} onSelect={onGrade} />
+        </div>
+      )}
+
       {/* DESARROLLO/PRACTICO manual correction */}
       {(question.type === 'DESARROLLO' || question.type === 'PRACTICO') && isPending && !manualSet && (
         <div className="flex flex-col gap-2">
-          <p className="text-sm text-ink-400 text-center">¿Es correcta tu respuesta?</p>
-          <div className="flex gap-3 justify-center">
-            <Button
-              variant="secondary"
-              onClick={() => { onManualResult('CORRECT'); setManualSet(true); }}
-              className="flex-1 max-w-32 border-sage-600/40 text-sage-400 hover:bg-sage-600/10"
-            >
-              ✓ Sí
-            </Button>
-            <Button
-              variant="secondary"
-              onClick={() => { onManualResult('WRONG'); setManualSet(true); }}
-              className="flex-1 max-w-32 border-rose-500/40 text-rose-400 hover:bg-rose-500/10"
-            >
-              ✗ No
-            </Button>
-          </div>
+          <p className="text-sm text-ink-400 text-center">Compara con la respuesta modelo: ¿cómo te ha salido?</p>
+          <QualityButtons onSelect={(q) => { onManualResult(q); setManualSet(true); }} />
         </div>
       )}
 
@@ -734,9 +900,35 @@ function UserAnswerDisplay({ question, answer }: { question: Question; answer: U
     const blanks = answer.blankAnswers ?? {};
     return (
       <div className="flex flex-col gap-1">
-        {Object.entries(blanks).map(([id, val]) => (
-          <p key={id} className="text-sm text-ink-200">
-            <span className="text-ink-500">{id}: </span>{val || <span className="italic text-ink-600">vacío</span>}
+        {scoreBlanks(question, answer).map((b) => (
+          <p key={b.id} className="text-sm text-ink-200">
+            <span className="text-ink-500">{b.id}: </span>
+            {b.match === 'unanswered' ? (
+              <span className="italic text-ink-600">sin respuesta</span>
+            ) : (
+              <>
+                {blanks[b.id]}
+                <span className={`ml-2 ${b.correct ? 'text-sage-400' : 'text-rose-400'}`}>{b.correct ? '✓' : '✗'}</span>
+              </>
+            )}
+            {b.match && b.match !== 'exact' && b.match !== 'unanswered' && (
+              <span className="ml-1 text-xs text-ink-500">({BLANK_MATCH_LABELS[b.match]})</span>
+            )}
+          </p>
+        ))}
+      </div>
+    );
+  }
+  if (question.type === 'PRACTICO' && answer.numericAnswers) {
+    const matched = scoreNumeric(question, answer)?.matched ?? [];
+    return (
+      <div className="flex flex-col gap-1">
+        {answer.freeText && <p className="text-sm text-ink-200 whitespace-pre-wrap mb-1">{answer.freeText}</p>}
+        {answer.numericAnswers.map((val, i) => (
+          <p key={i} className="text-sm text-ink-200 font-mono">
+            <span className="text-ink-500 font-body">Resultado {i + 1}: </span>
+            {val || <span className="italic text-ink-600 font-body">vacío</span>}
+            <span className={`ml-2 ${matched[i] ? 'text-sage-400' : 'text-rose-400'}`}>{matched[i] ? '✓' : '✗'}</span>
           </p>
         ))}
       </div>
@@ -746,7 +938,13 @@ function UserAnswerDisplay({ question, answer }: { question: Question; answer: U
   return <p className="text-sm text-ink-200 whitespace-pre-wrap">{answer.freeText || <span className="italic text-ink-600">Sin respuesta</span>}</p>;
 }
 
-function CorrectAnswerDisplay({ question }: { question: Question }) {
+const BLANK_MATCH_LABELS: Record<Exclude<BlankMatch, 'exact' | 'unanswered'>, string> = {
+  fuzzy: 'con errata',
+  numeric: 'mismo valor',
+  regex: 'patrón',
+};
+
+function CorrectAnswerDisplay({ question, answer }: { question: Question; answer?: UserAnswer }) {
   if (question.type === 'TEST') {
     const correctIds = new Set(question.correctOptionIds ?? []);
     return (
@@ -760,10 +958,16 @@ function CorrectAnswerDisplay({ question }: { question: Question }) {
     );
   }
   if (question.type === 'COMPLETAR') {
+    const correct = answer ? new Set(scoreBlanks(question, answer).filter((b) => b.correct).map((b) => b.id)) : null;
     return (
       <div className="flex flex-col gap-1">
         {(question.blanks ?? []).map((b) => (
-          <p key={b.id} className="text-sm text-sage-400">
+          <p
+            key={b.id}
+            className={`text-sm rounded px-1 -mx-1 ${
+              correct && !correct.has(b.id) ? 'text-amber-300 bg-amber-500/10' : 'text-sage-400'
+            }`}
+          >
             <span className="text-ink-500">{b.id}: </span>{b.accepted.join(' / ')}
           </p>
         ))}
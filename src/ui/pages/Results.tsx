@@ -2,8 +2,22 @@ import { useEffect, useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { sessionRepo, questionRepo } from '@/data/repos';
 import { db } from '@/data/db';
-import { Button, TypeBadge, Badge, Modal } from '@/ui/components';
-import type { PracticeSession, Question, UserAnswer, Topic } from '@/domain/models';
+import { Button, TypeBadge, Badge, Modal, QualityButtons, SubjectBreakdownList } from '@/ui/components';
+import {
+  DEFAULT_CORRECT_QUALITY,
+  RECALL_GRADES,
+  answerQuality,
+  qualityFromResult,
+  resultFromQuality,
+} from '@/domain/spacedRepetition';
+import { DEFAULT_TEST_SCORING, answerPoints, examMark } from '@/domain/scoring';
+import { examReport } from '@/domain/examBlueprint';
+import { scoreNumeric } from '@/domain/numeric';
+import { scoreBlanks } from '@/domain/clozeMatch';
+import { gradingConfigRepo } from '@/data/deliverableRepo';
+import { TARGET_RESPONSE_MS, formatDuration, isSlow, median } from '@/domain/responseTime';
+import { breakdownBySubject, isMixedSession, sessionSubjectIds } from '@/domain/mixedSession';
+import type { PracticeSession, Question, UserAnswer, Topic, RecallQuality, Subject, TestScoringRule } from '@/domain/models';
 import { QuestionForm } from '@/ui/components/QuestionForm';
 
 export function ResultsPage() {
@@ -13,6 +27,8 @@ export function ResultsPage() {
   const [session, setSession] = useState<PracticeSession | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [topics, setTopics] = useState<Topic[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [scoringRules, setScoringRules] = useState<Record<string, TestScoringRule>>({});
   const [selectedQ, setSelectedQ] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [answers, setAnswers] = useState<UserAnswer[]>([]);
@@ -23,11 +39,16 @@ export function ResultsPage() {
     (async () => {
       const s = await sessionRepo.getById(sessionId);
       if (!s) { navigate('/'); return; }
-      const [qs, ts] = await Promise.all([
+      const subjectIds = sessionSubjectIds(s);
+      const [qs, ts, subs, configs] = await Promise.all([
         questionRepo.getManyByIds(s.questionIds),
-        db.topics.where('subjectId').equals(s.subjectId).toArray(),
+        db.topics.where('subjectId').anyOf(subjectIds).toArray(),
+        db.subjects.bulkGet(subjectIds),
+        Promise.all(subjectIds.map((id) => gradingConfigRepo.get(id))),
       ]);
       setSession(s);
+      setScoringRules(Object.fromEntries(configs.map((c) => [c.id, c.testScoring ?? DEFAULT_TEST_SCORING])));
+      setSubjects(subs.filter(Boolean) as Subject[]);
       setQuestions(qs);
       setTopics(ts);
       setAnswers(s.answers);
@@ -47,6 +68,8 @@ export function ResultsPage() {
   const wrong = useMemo(() => answers.filter((a) => a.result === 'WRONG').length, [answers]);
   const pending = useMemo(() => answers.filter((a) => a.result === null || a.result === undefined).length, [answers]);
   const total = session.questionIds.length;
+  const mixed = isMixedSession(session);
+  const exitPath = mixed ? '/' : `/subject/${session.subjectId}`;
   const pct = useMemo(() => total === 0 ? 0 : Math.round((correct / total) * 100), [correct, total]);
 
   const handleRepeatFailed = async () => {
@@ -54,17 +77,44 @@ export function ResultsPage() {
       .filter((a) => a.result === 'WRONG')
       .map((a) => a.questionId);
     if (failedIds.length === 0) return;
+    const failedSubjectIds = [...new Set(
+      questions.filter((q) => failedIds.includes(q.id)).map((q) => q.subjectId)
+    )];
+    const flashcards = session.mode === 'flashcard';
     const newSession = await sessionRepo.create({
-      subjectId: session.subjectId,
-      mode: 'failed',
+      subjectId: failedSubjectIds[0] ?? session.subjectId,
+      subjectIds: failedSubjectIds,
+      mode: flashcards ? 'flashcard' : 'failed',
       questionIds: failedIds,
     });
-    navigate(`/practice/${newSession.id}`);
+    navigate(flashcards ? `/flashcard/session/${newSession.id}` : `/practice/${newSession.id}`);
   };
 
   const selectedQuestion = questions.find((q) => q.id === selectedQ);
   const selectedAnswer = answers.find((a) => a.questionId === selectedQ);
 
+  const ruleFor = (q: Question) => scoringRules[q.subjectId] ?? DEFAULT_TEST_SCORING;
+  const exam = session.mode === 'exam' ? examMark(questions, answers, ruleFor) : null;
+  // Blueprint mock exams: per-section marks weighted by section points
+  const report = exam && session.examSections?.length ? examReport(session.examSections, questions, answers, ruleFor) : null;
+  const ruleLabel = (() => {
+    const rules = [...new Set(Object.values(scoringRules).map((r) => r.mode))];
+    if (rules.length !== 1) return 'reglas por asignatura';
+    const r = Object.values(scoringRules)[0];
+    const blank = r.blankAllowed ? 'blanco = 0' : 'blanco = fallo';
+    if (r.mode === 'all_or_nothing') return `todo o nada · ${blank}`;
+    if (r.mode === 'proportional') return `proporcional · ${blank}`;
+    return `${r.wrongPenalty != null ? `−${r.wrongPenalty}` : '−1/(n−1)'} por fallo · ${blank}`;
+  })();
+
+  const times = answers.map((a) => a.responseMs).filter((ms): ms is number => ms != null);
+  const medianMs = median(times);
+  const totalMs = times.reduce((acc, ms) => acc + ms, 0);
+  const slowCount = answers.filter((a) => {
+    const q = questions.find((x) => x.id === a.questionId);
+    return q && a.responseMs != null && isSlow(q.type, a.responseMs);
+  }).length;
+
   const handleEditSave = async (data: Omit<Question, 'id' | 'stats' | 'createdAt' | 'updatedAt' | 'contentHash'>) => {
     if (!editingQuestion) return;
     await questionRepo.update(editingQuestion.id, data);
@@ -74,13 +124,37 @@ export function ResultsPage() {
     setEditingQuestion(null);
   };
 
-  const handleCorrectAnswer = async (result: 'CORRECT' | 'WRONG') => {
+  const handleReverted = (reverted: Question) => {
+    setQuestions((prev) => prev.map((q) => (q.id === reverted.id ? reverted : q)));
+    setEditingQuestion(null);
+  };
+
+  const handleCorrectAnswer = async (quality: RecallQuality) => {
     if (!selectedQ || !sessionId) return;
-    await sessionRepo.updateAnswer(sessionId, selectedQ, { manualResult: result, result });
-    await questionRepo.updateStats(selectedQ, result);
+    const result = resultFromQuality(quality);
+    const score = result === 'CORRECT' ? 1 : 0;
+    await sessionRepo.updateAnswer(sessionId, selectedQ, { manualResult: result, result, quality, score });
+    await questionRepo.updateStats(selectedQ, result, quality, { sessionId, responseMs: selectedAnswer?.responseMs });
     setAnswers((prev) =>
       prev.map((a) =>
-        a.questionId === selectedQ ? { ...a, manualResult: result, result } : a
+        a.questionId === selectedQ ? { ...a, manualResult: result, result, quality, score } : a
+      )
+    );
+  };
+
+  // Override an auto-scored result (e.g. a COMPLETAR synonym the checker missed)
+  const handleFlipResult = async () => {
+    if (!selectedQ || !selectedQuestion || !sessionId || !selectedAnswer?.result) return;
+    const result = selectedAnswer.result === 'CORRECT' ? 'WRONG' : 'CORRECT';
+    const quality = result === 'CORRECT' ? DEFAULT_CORRECT_QUALITY : qualityFromResult(result);
+    const score =
+      answerPoints(selectedQuestion, { ...selectedAnswer, manualResult: result, result }, ruleFor(selectedQuestion)) ??
+      undefined;
+    await questionRepo.correctReview(selectedQ, sessionId, result, quality, selectedAnswer.responseMs);
+    await sessionRepo.updateAnswer(sessionId, selectedQ, { manualResult: result, result, quality, score });
+    setAnswers((prev) =>
+      prev.map((a) =>
+        a.questionId === selectedQ ? { ...a, manualResult: result, result, quality, score } : a
       )
     );
   };
@@ -91,10 +165,10 @@ export function ResultsPage() {
       <header className="border-b border-ink-800 bg-ink-900/50">
         <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
           <button
-            onClick={() => navigate(`/subject/${session.subjectId}`)}
+            onClick={() => navigate(exitPath)}
             className="text-ink-400 hover:text-ink-200 text-sm transition-colors"
           >
-            ← Volver a la asignatura
+            {mixed ? '← Volver al inicio' : '← Volver a la asignatura'}
           </button>
           <span className="text-sm text-ink-500">
             {new Date(session.createdAt).toLocaleDateString('es-ES', { day: 'numeric', month: 'long', year: 'numeric' })}
@@ -106,6 +180,73 @@ export function ResultsPage() {
         {/* Summary */}
         <div className="mb-8">
           <h1 className="font-display text-2xl text-ink-100 mb-6">Resultados</h1>
+
+          {/* Nota del simulacro (modo examen) */}
+          {exam && !report && (
+            <div className="mb-6 bg-ink-800 border border-ink-700 rounded-xl p-5 flex items-center gap-6">
+              <div className="text-center">
+                <p className={`text-5xl font-display ${exam.mark >= 5 ? 'text-sage-400' : 'text-rose-400'}`}>
+                  {exam.mark.toFixed(2)}
+                </p>
+                <p className="text-xs text-ink-500 mt-1">Nota / 10</p>
+              </div>
+              <div className="flex flex-col gap-1 text-sm text-ink-400">
+                <span>{exam.points.toFixed(2)} de {exam.maxPoints} puntos</span>
+                <span className="text-xs text-ink-500">TEST: {ruleLabel}</span>
+                {exam.pending > 0 && (
+                  <span className="text-xs text-amber-400">
+                    {exam.pending} pendiente{exam.pending !== 1 ? 's' : ''} de corrección (cuentan 0 hasta corregirlas)
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+          {/* Informe del simulacro por secciones */}
+          {report && (
+            <div className="mb-6 bg-ink-800 border border-ink-700 rounded-xl p-5 flex flex-col gap-4">
+              <div className="flex items-center gap-6">
+                <div className="text-center">
+                  <p className={`text-5xl font-display ${report.mark >= 5 ? 'text-sage-400' : 'text-rose-400'}`}>
+                    {report.mark.toFixed(2)}
+                  </p>
+                  <p className="text-xs text-ink-500 mt-1">Nota / 10</p>
+                </div>
+                <div className="flex flex-col gap-1 text-sm text-ink-400">
+                  <span>{report.earned.toFixed(2)} de {report.totalPoints} puntos del examen</span>
+                  <span className="text-xs text-ink-500">TEST: {ruleLabel}</span>
+                  {report.pending > 0 && (
+                    <span className="text-xs text-amber-400">
+                      {report.pending} pendiente{report.pending !== 1 ? 's' : ''} de corrección (cuentan 0 hasta corregirlas)
+                    </span>
+                  )}
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-ink-500 text-left">
+                    <th className="font-normal pb-1">Sección</th>
+                    <th className="font-normal pb-1 text-right">Preguntas</th>
+                    <th className="font-normal pb-1 text-right">Nota / 10</th>
+                    <th className="font-normal pb-1 text-right">Puntos</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.sections.map((sec, i) => (
+                    <tr key={i} className="border-t border-ink-700">
+                      <td className="py-1.5 text-ink-200">
+                        <span className="mr-2"><TypeBadge type={sec.type} /></span>
+                        {sec.name}
+                        {sec.pending > 0 && <span className="text-xs text-amber-400"> · {sec.pending} pendiente{sec.pending !== 1 ? 's' : ''}</span>}
+                      </td>
+                      <td className="py-1.5 text-right text-ink-400">{sec.maxPoints}</td>
+                      <td className={`py-1.5 text-right font-medium ${sec.mark >= 5 ? 'text-sage-400' : 'text-rose-400'}`}>{sec.mark.toFixed(2)}</td>
+                      <td className="py-1.5 text-right text-ink-400">{sec.earned.toFixed(2)} / {sec.sectionPoints}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
           <div className="grid grid-cols-4 gap-4 mb-6">
             <div className="bg-ink-800 border border-ink-700 rounded-xl p-4 text-center">
               <p className="text-3xl font-display text-ink-100">{total}</p>
@@ -142,6 +283,25 @@ export function ResultsPage() {
           {pending > 0 && (
             <p className="text-xs text-ink-500 mt-1">{pending} pregunta{pending !== 1 ? 's' : ''} de desarrollo/práctico pendiente{pending !== 1 ? 's' : ''} de corrección manual</p>
           )}
+          {medianMs != null && (
+            <p className="text-xs text-ink-500 mt-2">
+              ⏱ Tiempo total {formatDuration(totalMs)} · mediana {formatDuration(medianMs)} por pregunta
+              {slowCount > 0 && <span className="text-rose-400"> · {slowCount} por encima del tiempo objetivo</span>}
+            </p>
+          )}
+
+          {mixed && (
+            <div className="mt-6">
+              <h2 className="text-xs text-ink-500 uppercase tracking-wider mb-3">Por asignatura</h2>
+              <SubjectBreakdownList
+                rows={breakdownBySubject(
+                  { ...session, answers },
+                  Object.fromEntries(questions.map((q) => [q.id, q.subjectId]))
+                )}
+                subjects={subjects}
+              />
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -151,7 +311,7 @@ export function ResultsPage() {
               🔴 Repetir falladas ({wrong})
             </Button>
           )}
-          <Button variant="secondary" onClick={() => navigate(`/subject/${session.subjectId}`)}>
+          <Button variant="secondary" onClick={() => navigate(exitPath)}>
             Nueva sesión
           </Button>
         </div>
@@ -185,6 +345,11 @@ export function ResultsPage() {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-1.5 mb-0.5">
                       <TypeBadge type={q.type} />
+                      {a?.responseMs != null && (
+                        <span className={`ml-auto text-xs ${isSlow(q.type, a.responseMs) ? 'text-rose-400' : 'text-ink-500'}`}>
+                          ⏱ {formatDuration(a.responseMs)}
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-ink-300 line-clamp-2 text-left">{q.prompt}</p>
                   </div>
@@ -220,13 +385,16 @@ export function ResultsPage() {
                 </div>
               )}
                 <div className="flex flex-col gap-3">
-                  <div>
-                    <p className="text-xs text-ink-500 uppercase tracking-widest mb-1">Tu respuesta</p>
-                    <UserAnswerSummary question={selectedQuestion} answer={selectedAnswer} />
-                  </div>
+                  {/* Flashcards: no typed answer, only the self-evaluation below */}
+                  {session.mode !== 'flashcard' && (
+                    <div>
+                      <p className="text-xs text-ink-500 uppercase tracking-widest mb-1">Tu respuesta</p>
+                      <UserAnswerSummary question={selectedQuestion} answer={selectedAnswer} />
+                    </div>
+                  )}
                   <div>
                     <p className="text-xs text-ink-500 uppercase tracking-widest mb-1">Respuesta correcta</p>
-                    <CorrectAnswerSummary question={selectedQuestion} />
+                    <CorrectAnswerSummary question={selectedQuestion} answer={selectedAnswer} />
                   </div>
 
                   {/* Display modelAnswer and keywords for DESARROLLO/PRACTICO before correction */}
@@ -253,24 +421,53 @@ export function ResultsPage() {
 
                   {/* Manual correction buttons for DESARROLLO/PRACTICO */}
                   {selectedAnswer.result === null && (selectedQuestion.type === 'DESARROLLO' || selectedQuestion.type === 'PRACTICO') && (
-                    <div className="mt-4 pt-3 border-t border-amber-500/30 flex gap-2">
-                      <Button
-                        size="sm"
-                        onClick={() => handleCorrectAnswer('CORRECT')}
-                        className="flex-1 bg-sage-600 hover:bg-sage-700 text-white"
-                      >
-                        ✓ Correcto
-                      </Button>
-                      <Button
-                        size="sm"
-                        onClick={() => handleCorrectAnswer('WRONG')}
-                        className="flex-1 bg-rose-500 hover:bg-rose-600 text-white"
-                      >
-                        ✗ Incorrecto
-                      </Button>
+                    <div className="mt-4 pt-3 border-t border-amber-500/30">
+                      <QualityButtons onSelect={handleCorrectAnswer} />
                     </div>
                   )}
 
+                  {/* Corregir un resultado automático (COMPLETAR / PRACTICO numérico) */}
+                  {selectedAnswer.result != null &&
+                    session.mode !== 'flashcard' &&
+                    (selectedQuestion.type === 'COMPLETAR' || selectedQuestion.type === 'PRACTICO') && (
+                      <button
+                        onClick={handleFlipResult}
+                        className="self-start text-xs text-ink-500 hover:text-amber-400 transition-colors"
+                        title="Cambia el resultado y recalcula las estadísticas de la pregunta"
+                      >
+                        {selectedAnswer.result === 'CORRECT' ? '✗ Marcar como incorrecta' : '✓ Marcar como correcta'}
+                      </button>
+                    )}
+
+                  {/* Nota de recuerdo (las sesiones antiguas se derivan del resultado) */}
+                  {(() => {
+                    const quality = answerQuality(selectedAnswer);
+                    if (quality == null) return null;
+                    const label = RECALL_GRADES.find((g) => g.quality === quality)?.label ?? `q=${quality}`;
+                    return <p className="text-xs text-ink-500">Recuerdo: <span className="text-ink-300">{label}</span></p>;
+                  })()}
+
+                  {exam && (() => {
+                    const points = selectedAnswer.score ?? answerPoints(selectedQuestion, selectedAnswer, ruleFor(selectedQuestion));
+                    if (points == null) return null;
+                    return (
+                      <p className="text-xs text-ink-500">
+                        Puntos: <span className={points > 0 ? 'text-sage-400' : points < 0 ? 'text-rose-400' : 'text-ink-300'}>
+                          {points > 0 ? '+' : ''}{Number(points.toFixed(2))}
+                        </span>
+                      </p>
+                    );
+                  })()}
+
+                  {selectedAnswer.responseMs != null && (
+                    <p className="text-xs text-ink-500">
+                      Tiempo: <span className={isSlow(selectedQuestion.type, selectedAnswer.responseMs) ? 'text-rose-400' : 'text-ink-300'}>
+                        {formatDuration(selectedAnswer.responseMs)}
+                      </span>
+                      {' '}(objetivo {formatDuration(TARGET_RESPONSE_MS[selectedQuestion.type])})
+                    </p>
+                  )}
+
                   {selectedQuestion.explanation && (
                     <div className="mt-2 pt-3 border-t border-ink-700">
                       <p className="text-xs text-amber-600 uppercase tracking-widest mb-1">Explicación</p>
@@ -306,11 +503,12 @@ export function ResultsPage() {
       {editingQuestion && session && (
         <Modal open onClose={() => setEditingQuestion(null)} title="Editar pregunta">
           <QuestionForm
-            subjectId={session.subjectId}
-            topics={topics}
+            subjectId={editingQuestion.subjectId}
+            topics={topics.filter((t) => t.subjectId === editingQuestion.subjectId)}
             initial={editingQuestion}
             onSave={handleEditSave}
             onCancel={() => setEditingQuestion(null)}
+            onReverted={handleReverted}
           />
         </Modal>
       )}
@@ -326,12 +524,36 @@ function UserAnswerSummary({ question, answer }: { question: Question; answer: i
     return <p className="text-sm text-ink-200">{texts.join(', ')}</p>;
   }
   if (question.type === 'COMPLETAR') {
-    const entries = Object.entries(answer.blankAnswers ?? {});
-    if (!entries.length) return <p className="text-sm text-ink-600 italic">Sin respuesta</p>;
+    const blankAnswers = answer.blankAnswers ?? {};
+    if (!Object.keys(blankAnswers).length) return <p className="text-sm text-ink-600 italic">Sin respuesta</p>;
+    return (
+      <div>
+        {scoreBlanks(question, answer).map((b) => (
+          <p key={b.id} className="text-sm text-ink-200">
+            <span className="text-ink-500">{b.id}:</span>{' '}
+            {b.match === 'unanswered' ? (
+              <span className="italic text-ink-600">sin respuesta</span>
+            ) : (
+              <>
+                {blankAnswers[b.id]}
+                <span className={`ml-2 ${b.correct ? 'text-sage-400' : 'text-rose-400'}`}>{b.correct ? '✓' : '✗'}</span>
+              </>
+            )}
+            {b.match === 'fuzzy' && <span className="ml-1 text-xs text-ink-500">(con errata)</span>}
+          </p>
+        ))}
+      </div>
+    );
+  }
+  if (question.type === 'PRACTICO' && answer.numericAnswers) {
+    const matched = scoreNumeric(question, answer)?.matched ?? [];
     return (
       <div>
-        {entries.map(([id, val]) => (
-          <p key={id} className="text-sm text-ink-200"><span className="text-ink-500">{id}:</span> {val}</p>
+        {answer.numericAnswers.map((val, i) => (
+          <p key={i} className="text-sm text-ink-200">
+            <span className="text-ink-500">Resultado {i + 1}:</span> <span className="font-mono">{val || '—'}</span>
+            <span className={`ml-2 ${matched[i] ? 'text-sage-400' : 'text-rose-400'}`}>{matched[i] ? '✓' : '✗'}</span>
+          </p>
         ))}
       </div>
     );
@@ -339,20 +561,33 @@ function UserAnswerSummary({ question, answer }: { question: Question; answer: i
   return <p className="text-sm text-ink-200 whitespace-pre-wrap">{answer.freeText || <span className="italic text-ink-600">Sin respuesta</span>}</p>;
 }
 
-function CorrectAnswerSummary({ question }: { question: Question }) {
+function CorrectAnswerSummary({ question, answer }: { question: Question; answer?: UserAnswer }) {
   if (question.type === 'TEST') {
     const correctIds = new Set(question.correctOptionIds ?? []);
     const texts = (question.options ?? []).filter((o) => correctIds.has(o.id)).map((o) => o.text);
     return <p className="text-sm text-sage-400">{texts.join(', ')}</p>;
   }
   if (question.type === 'COMPLETAR') {
+    const failed = new Set(answer ? scoreBlanks(question, answer).filter((b) => !b.correct).map((b) => b.id) : []);
     return (
       <div>
         {(question.blanks ?? []).map((b) => (
-          <p key={b.id} className="text-sm text-sage-400"><span className="text-ink-500">{b.id}:</span> {b.accepted.join(' / ')}</p>
+          <p
+            key={b.id}
+            className={`text-sm ${failed.has(b.id) ? 'text-amber-300 bg-amber-500/10 rounded px-1 -mx-1' : 'text-sage-400'}`}
+          >
+            <span className="text-ink-500">{b.id}:</span> {b.accepted.join(' / ')}
+          </p>
         ))}
       </div>
     );
   }
-  return <p className="text-sm text-sage-400 whitespace-pre-wrap">{question.modelAnswer}</p>;
+  return (
+    <div>
+      <p className="text-sm text-sage-400 whitespace-pre-wrap">{question.modelAnswer}</p>
+      {question.type === 'PRACTICO' && question.numericAnswer && (
+        <p className="text-sm text-blue-300 font-mono mt-1">{question.numericAnswer}</p>
+      )}
+    </div>
+  );
 }
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { db } from '@/data/db';
+import { subjectRepo } from '@/data/repos';
+import { loadAnchoredPdfTexts } from '@/data/pdfText';
+import { buildSearchIndex, fieldText, parseQuery, search, snippet, type SearchField } from '@/domain/search';
+import { Badge, Card, Difficulty, EmptyState, TypeBadge } from '@/ui/components';
+import type { Subject, Topic } from '@/domain/models';
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  prompt: 'Enunciado',
+  options: 'Opciones',
+  cloze: 'Texto a completar',
+  modelAnswer: 'Respuesta modelo',
+  explanation: 'Explicación',
+  notes: 'Notas',
+  tags: 'Etiquetas',
+  pdf: 'PDF',
+};
+
+function Snippet({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {snippet(text, terms).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-amber-500/25 text-amber-200 rounded px-0.5">{part.text}</mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [input, setInput] = useState(searchParams.get('q') ?? '');
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [index, setIndex] = useState<ReturnType<typeof buildSearchIndex> | null>(null);
+  const [pdfIndexed, setPdfIndexed] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const [subs, tops, qs] = await Promise.all([
+        subjectRepo.getAll(),
+        db.topics.toArray(),
+        db.questions.toArray(),
+      ]);
+      setSubjects(subs);
+      setTopics(tops);
+      setIndex(buildSearchIndex(qs));
+      // El texto de los PDFs tarda más: se añade al índice cuando está listo
+      const pdfText = await loadAnchoredPdfTexts(qs, subs, tops);
+      if (pdfText.size > 0) setIndex(buildSearchIndex(qs, pdfText));
+      setPdfIndexed(true);
+    })();
+  }, []);
+
+  const query = useMemo(() => parseQuery(input), [input]);
+  const hasQuery = query.terms.length > 0 || Object.keys(query.filters).length > 0;
+  const hits = useMemo(() => (index && hasQuery ? search(index, query) : []), [index, query, hasQuery]);
+
+  const subjectName = (id: string) => subjects.find((s) => s.id === id)?.name ?? '—';
+  const topicTitle = (id: string) => topics.find((t) => t.id === id)?.title;
+
+  const handleChange = (value: string) => {
+    setInput(value);
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-ink-950 text-ink-100">
+      <header className="border-b border-ink-800 bg-ink-900/50 sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center gap-4">
+          <button onClick={() => navigate('/')} className="text-ink-400 hover:text-ink-200 text-sm transition-colors">
+            ← Dashboard
+          </button>
+          <h1 className="font-display text-xl text-ink-100">Buscar preguntas</h1>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-8 flex flex-col gap-6">
+        <div className="flex flex-col gap-2">
+          <input
+            autoFocus
+            value={input}
+            onChange={(e) => handleChange(e.target.value)}
+            placeholder='p. ej. tokenizacion type:test difficulty:2-4 tag:"deep learning"'
+            className="w-full bg-ink-900 border border-ink-700 rounded-lg px-4 py-3 text-ink-100 placeholder:text-ink-600 focus:outline-none focus:border-amber-500/50"
+          />
+          <p className="text-xs text-ink-500">
+            Busca en enunciados, opciones, respuestas modelo, explicaciones, notas, etiquetas y en la página del PDF
+            enlazada a cada pregunta, en todas las asignaturas{pdfIndexed ? '' : ' (indexando PDFs…)'}.
+            Filtros: <code>type:</code> (test, desarrollo, completar, practico), <code>origin:</code> (test, examen_anterior, clase, alumno),{' '}
+            <code>difficulty:</code> (3 o 2-4), <code>tag:</code>.
+          </p>
+          {query.invalid.length > 0 && (
+            <p className="text-xs text-rose-400">Filtros no reconocidos: {query.invalid.join(', ')}</p>
+          )}
+        </div>
+
+        {!index ? (
+          <p className="text-ink-500 animate-pulse-soft">Indexando preguntas…</p>
+        ) : !hasQuery ? (
+          <EmptyState icon="🔎" title="Escribe para buscar" description="Sin distinguir mayúsculas ni tildes." />
+        ) : hits.length === 0 ? (
+          <EmptyState icon="∅" title="Sin resultados" />
+        ) : (
+          <div className="flex flex-col gap-3">
+            <p className="text-xs text-ink-500">
+              {hits.length === 100 ? 'Mostrando los 100 mejores resultados' : `${hits.length} resultado${hits.length === 1 ? '' : 's'}`}
+            </p>
+            {hits.map(({ question: q, fields }) => {
+              // Show the prompt plus the best-ranked other field that matched
+              const extra = fields.find((f) => f !== 'prompt' && f !== 'tags');
+              return (
+                <Card
+                  key={q.id}
+                  hover
+                  onClick={() => navigate(`/subject/${q.subjectId}?tab=questions&edit=${q.id}`)}
+                  className="flex flex-col gap-2"
+                >
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <TypeBadge type={q.type} />
+                    <Difficulty level={q.difficulty} />
+                    <span className="text-xs text-ink-500">
+                      {subjectName(q.subjectId)}
+                      {topicTitle(q.topicId) && ` · ${topicTitle(q.topicId)}`}
+                    </span>
+                    {q.suspended && <Badge color="rose">⏸ Suspendida</Badge>}
+                  </div>
+                  <p className="text-sm text-ink-200">
+                    <Snippet text={q.prompt} terms={query.terms} />
+                  </p>
+                  {extra && query.terms.length > 0 && (
+                    <p className="text-xs text-ink-400">
+                      <span className="text-ink-600">{FIELD_LABELS[extra]}: </span>
+                      <Snippet text={fieldText(q, extra, index.pdfText)} terms={query.terms} />
+                    </p>
+                  )}
+                  {q.tags && q.tags.length > 0 && (
+                    <div className="flex gap-1 flex-wrap">
+                      {q.tags.map((t) => (
+                        <Badge key={t}>{t}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
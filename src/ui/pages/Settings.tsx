@@ -3,18 +3,69 @@ import { useNavigate } from 'react-router-dom';
 import { useStore } from '@/ui/store';
 import { db, getSettings } from '@/data/db';
 import { Button, Input, Card, Select, Modal, TypeBadge } from '@/ui/components';
-import { exportContributionPack, importContributionPack, undoContributionImport, previewContributionPack, type ContributionPackPreview } from '@/data/contributionImport';
+import {
+  exportContributionPack,
+  importContributionPack,
+  undoContributionImport,
+  previewContributionPack,
+  type ContributionPackPreview,
+  type ContributionReview,
+} from '@/data/contributionImport';
 import { exportCompactSubject, exportAllCompactSubjects } from '@/data/exportCompact';
 import { parseImportFile, downloadJSON } from '@/data/exportImport';
 import { syncImagesToDevServer, type ImageSyncResult } from '@/data/questionImageStorage';
+import { exportGift, exportMoodleXml, moodleToContributionPack, parseGift, parseMoodleXml } from '@/data/moodleInterop';
 import { QuestionPreviewContent } from '@/ui/components/QuestionPreview';
-import type { ImportHistoryEntry, Question } from '@/domain/models';
+import { ContributionReviewQueue, acceptedCount, mergedCount } from '@/ui/components/ContributionReview';
+import { NearDuplicateCleanup } from '@/ui/components/NearDuplicates';
+import { PackLintReport } from '@/ui/components/PackLintReport';
+import { applyPackFixes, type PackFix } from '@/data/packLint';
+import { getSigningKey, signContributionPack, trustContributor, untrustContributor } from '@/data/packSigning';
+import { PackSignatureStatus } from '@/ui/components/PackSignatureStatus';
+import { DEFAULT_EXAM_MIN_REVIEWS } from '@/domain/spacedRepetition';
+import { DEFAULT_DAILY_CARDS } from '@/domain/dailyPlanner';
+import { DEFAULT_LEECH_THRESHOLD } from '@/domain/leech';
+import type {
+  ContributionPack,
+  ImportHistoryEntry,
+  PackSignatureStatus as PackSignatureState,
+  Question,
+} from '@/domain/models';
+
+const SIGNATURE_LABELS: Record<PackSignatureState, string> = {
+  verified: '✓ firma verificada',
+  unknown: '? clave desconocida',
+  tampered: '⚠ firma no válida',
+};
 
+/** Estado de la firma de un pack importado, si estaba firmado. */
+function signatureSummary(entry: ImportHistoryEntry): string {
+  if (!entry.signatureStatus) return '';
+  return SIGNATURE_LABELS[entry.signatureStatus] + (entry.signatureModifiedLocally ? '; modificado localmente' : '');
+}
+
+/** Resumen de las decisiones de la cola de revisión de un pack importado. */
+function reviewSummary(entry: ImportHistoryEntry): string {
+  if (!entry.review) return '';
+  const count = (d: string) => entry.review!.filter((r) => r.decision === d).length;
+  const parts = [
+    [count('rejected'), 'rechazadas'],
+    [count('edited'), 'editadas'],
+    [count('reassigned'), 'movidas de tema'],
+    [count('merged'), 'fusionadas'],
+  ] as const;
+  return parts.filter(([n]) => n > 0).map(([n, label]) => ` · ${n} ${label}`).join('');
+}
 
 export function SettingsPage() {
   const navigate = useNavigate();
   const { settings, loadSettings, updateSettings, subjects, loadSubjects } = useStore();
   const [alias, setAlias] = useState('');
+  const [examMinReviews, setExamMinReviews] = useState(String(DEFAULT_EXAM_MIN_REVIEWS));
+  const [dailyCards, setDailyCards] = useState('');
+  const [dailyMinutes, setDailyMinutes] = useState('');
+  const [leechThreshold, setLeechThreshold] = useState(String(DEFAULT_LEECH_THRESHOLD));
+  const [leechAutoSuspend, setLeechAutoSuspend] = useState(true);
   const [importMsg, setImportMsg] = useState('');
   const [exportSubjectId, setExportSubjectId] = useState('');
   const [importedPacks, setImportedPacks] = useState<string[]>([]);
@@ -25,19 +76,35 @@ export function SettingsPage() {
   const [undoMsg, setUndoMsg] = useState('');
   const [undoingPackId, setUndoingPackId] = useState<string | null>(null);
   const [packPreview, setPackPreview] = useState<ContributionPackPreview | null>(null);
+  const [packReview, setPackReview] = useState<ContributionReview>({});
   const [previewSampleQuestion, setPreviewSampleQuestion] = useState<Question | null>(null);
+  const [moodleSubjectId, setMoodleSubjectId] = useState('');
+  const [moodleTopic, setMoodleTopic] = useState('Importado de Moodle');
+  const [moodleMsg, setMoodleMsg] = useState('');
+  const [signExport, setSignExport] = useState(true);
+  const [keyFingerprint, setKeyFingerprint] = useState('');
 
   useEffect(() => {
     loadSettings();
     loadSubjects();
+    getSigningKey().then((key) => setKeyFingerprint(key.fingerprint)).catch(() => setKeyFingerprint(''));
   }, []);
 
   useEffect(() => {
     setAlias(settings.alias);
+    setExamMinReviews(String(settings.examMinReviews ?? DEFAULT_EXAM_MIN_REVIEWS));
+    setDailyCards(settings.dailyCardBudget ? String(settings.dailyCardBudget) : '');
+    setDailyMinutes(settings.dailyMinutesBudget ? String(settings.dailyMinutesBudget) : '');
+    setLeechThreshold(String(settings.leechThreshold ?? DEFAULT_LEECH_THRESHOLD));
+    setLeechAutoSuspend(settings.leechAutoSuspend !== false);
     setImportedPacks(settings.importedPackIds);
     setImportHistory(settings.importHistory ?? []);
   }, [settings]);
 
+  useEffect(() => {
+    setPackReview({});
+  }, [packPreview]);
+
 
   const handleSyncImages = async () => {
   setSyncingImages(true);
@@ -54,6 +121,21 @@ export function SettingsPage() {
     await updateSettings({ alias });
   };
 
+  const handleSaveStudy = async () => {
+    // Vacío o no válido → sin límite propio (se usa el valor por defecto)
+    const positive = (v: string) => {
+      const n = Math.round(Number(v));
+      return v.trim() && Number.isFinite(n) && n >= 1 ? n : undefined;
+    };
+    await updateSettings({
+      examMinReviews: positive(examMinReviews) ?? DEFAULT_EXAM_MIN_REVIEWS,
+      dailyCardBudget: positive(dailyCards),
+      dailyMinutesBudget: positive(dailyMinutes),
+      leechThreshold: positive(leechThreshold) ?? DEFAULT_LEECH_THRESHOLD,
+      leechAutoSuspend,
+    });
+  };
+
 
   const handleUndo = async (packId: string) => {
   if (!confirm('¿Eliminar todas las preguntas de este pack importado? La acción no se puede deshacer.')) return;
@@ -61,7 +143,10 @@ export function SettingsPage() {
   setUndoMsg('');
   try {
     const result = await undoContributionImport(packId);
-    setUndoMsg(`✓ ${result.deletedQuestions} preguntas eliminadas`);
+    setUndoMsg(
+      `✓ ${result.deletedQuestions} preguntas eliminadas` +
+      (result.revertedMerges > 0 ? `, ${result.revertedMerges} fusiones revertidas` : '')
+    );
     setImportHistory(h => h.filter(e => e.packId !== packId));
     setImportedPacks(p => p.filter(id => id !== packId));
     await loadSubjects();
@@ -94,7 +179,7 @@ export function SettingsPage() {
   const handleConfirmImport = async () => {
     if (!packPreview) return;
     try {
-      const result = await importContributionPack(packPreview.rawPack);
+      const result = await importContributionPack(packPreview.rawPack, packReview, packPreview.signature);
       if (result.alreadyImported) {
         setImportMsg(`ℹ️ Pack ${result.packId.slice(0, 8)}... ya fue importado anteriormente.`);
       } else if (result.errors.length > 0) {
@@ -102,6 +187,8 @@ export function SettingsPage() {
       } else {
         setImportMsg(
           `✓ Importado de ${result.createdBy}: ${result.newQuestions} preguntas nuevas, ${result.duplicates} duplicadas` +
+          (result.rejected > 0 ? `, ${result.rejected} rechazadas` : '') +
+          (result.merged > 0 ? `, ${result.merged} fusionadas` : '') +
           (result.newTopicsCreated > 0 ? `, ${result.newTopicsCreated} temas creados` : '')
         );
         setImportedPacks((p) => [...p, result.packId]);
@@ -113,10 +200,94 @@ export function SettingsPage() {
     }
   };
 
+  const handleFixPack = async (fixes: PackFix[]) => {
+    if (!packPreview) return;
+    // rawPack ya pasó la validación del esquema en previewContributionPack
+    const fixed = applyPackFixes(packPreview.rawPack as ContributionPack, fixes);
+    const preview = await previewContributionPack(fixed);
+    if ('error' in preview) setImportMsg('Error: ' + preview.error);
+    // Las correcciones quitan la firma; se conserva la verificación del fichero original
+    else setPackPreview({ ...preview, signature: { ...packPreview.signature, modifiedLocally: true } });
+  };
+
+  const handleTrustSigner = async () => {
+    if (!packPreview?.signature.publicKey) return;
+    await trustContributor(packPreview.createdBy, packPreview.signature.publicKey);
+    await loadSettings();
+    setPackPreview({
+      ...packPreview,
+      signature: { ...packPreview.signature, status: 'verified', trustedAlias: packPreview.createdBy },
+    });
+  };
+
+  const handleUntrust = async (fingerprint: string) => {
+    if (!confirm('¿Dejar de confiar en este contribuidor? Sus packs firmados se mostrarán como desconocidos.')) return;
+    await untrustContributor(fingerprint);
+    await loadSettings();
+  };
+
+  const handleImportMoodle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const subject = subjects.find((s) => s.id === moodleSubjectId);
+    if (!file || !subject) return;
+    setMoodleMsg('');
+    try {
+      const text = await file.text();
+      const parsed = file.name.toLowerCase().endsWith('.xml') ? parseMoodleXml(text) : parseGift(text);
+      if (parsed.questions.length === 0) {
+        setMoodleMsg('Error: no se encontró ninguna pregunta compatible' + (parsed.warnings[0] ? ` (${parsed.warnings[0]})` : ''));
+        return;
+      }
+      const pack = await moodleToContributionPack(parsed, {
+        subjectName: subject.name,
+        defaultTopicTitle: moodleTopic.trim() || 'Importado de Moodle',
+        createdBy: `Moodle · ${file.name}`,
+      });
+      const preview = await previewContributionPack(pack);
+      if ('error' in preview) {
+        setMoodleMsg('Error: ' + preview.error);
+        return;
+      }
+      if (parsed.warnings.length > 0) {
+        setMoodleMsg(`ℹ️ ${parsed.warnings.length} pregunta${parsed.warnings.length !== 1 ? 's' : ''} omitida${parsed.warnings.length !== 1 ? 's' : ''}: ${parsed.warnings.slice(0, 3).join(' · ')}`);
+      }
+      setPackPreview(preview);
+    } catch (err) {
+      setMoodleMsg('Error: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  const handleExportMoodle = async (format: 'gift' | 'xml') => {
+    const subject = subjects.find((s) => s.id === moodleSubjectId);
+    if (!subject) return;
+    try {
+      const questions = await db.questions.where('subjectId').equals(subject.id).toArray();
+      const topics = await db.topics.where('subjectId').equals(subject.id).toArray();
+      const result = format === 'gift'
+        ? exportGift(questions, topics, subject.name)
+        : await exportMoodleXml(questions, topics, subject.name);
+      const blob = new Blob([result.text], { type: format === 'gift' ? 'text/plain;charset=utf-8' : 'application/xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `moodle-${subject.name.slice(0, 20).replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.${format === 'gift' ? 'gift.txt' : 'xml'}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setMoodleMsg(
+        `✓ Exportadas ${questions.length - result.skipped} preguntas` +
+        (result.skipped > 0 ? ` (${result.skipped} de completar con varios huecos no caben en GIFT; usa Moodle XML)` : '')
+      );
+    } catch (err) {
+      setMoodleMsg('Error al exportar: ' + String(err));
+    }
+  };
+
   const handleExportContribution = async () => {
     if (!exportSubjectId) return;
     try {
-      const pack = await exportContributionPack(alias, exportSubjectId);
+      const unsigned = await exportContributionPack(alias, exportSubjectId);
+      const pack = signExport ? await signContributionPack(unsigned) : unsigned;
       const subject = subjects.find((s) => s.id === exportSubjectId);
       const filename = `contribution-${alias || 'yo'}-${subject?.name.slice(0, 20).replace(/\s+/g, '-') ?? exportSubjectId}-${new Date().toISOString().split('T')[0]}.json`;
       downloadJSON(pack, filename);
@@ -155,12 +326,25 @@ export function SettingsPage() {
     await db.topics.clear();
     await db.questions.clear();
     await db.sessions.clear();
+    await db.reviewLogs.clear();
+    await db.questionRevisions.clear();
     await db.pdfAnchors.clear();
     await db.pdfResources.clear();
     await updateSettings({ alias: '', importedPackIds: [], globalBankSyncedAt: undefined });
     navigate('/');
   };
 
+  // Botón de importar: activo si hay preguntas nuevas o fusiones
+  const packNew = packPreview ? acceptedCount(packPreview, packReview) : 0;
+  const packMerged = packPreview ? mergedCount(packPreview, packReview) : 0;
+  const importLabel =
+    packNew + packMerged > 0
+      ? 'Importar ' +
+        [packNew > 0 ? `${packNew} preguntas nuevas` : '', packMerged > 0 ? `${packMerged} fusionadas` : '']
+          .filter(Boolean)
+          .join(' y ')
+      : null;
+
   return (
     <div className="min-h-screen bg-ink-950 text-ink-100">
       <header className="border-b border-ink-800 bg-ink-900/50">
@@ -190,6 +374,63 @@ export function SettingsPage() {
           </div>
         </Card>
 
+        {/* Study */}
+        <Card>
+          <h2 className="font-display text-base text-ink-200 mb-4">Estudio</h2>
+          <div className="flex flex-col gap-4">
+            <Input
+              label="Repasos mínimos antes del examen"
+              type="number"
+              min={1}
+              max={10}
+              value={examMinReviews}
+              onChange={(e) => setExamMinReviews(e.target.value)}
+              hint="Con un examen próximo, los intervalos de repaso se acortan para que cada pregunta se vea al menos este número de veces antes de la fecha"
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Tarjetas al día"
+                type="number"
+                min={1}
+                value={dailyCards}
+                onChange={(e) => setDailyCards(e.target.value)}
+                placeholder={String(DEFAULT_DAILY_CARDS)}
+              />
+              <Input
+                label="Minutos al día"
+                type="number"
+                min={1}
+                value={dailyMinutes}
+                onChange={(e) => setDailyMinutes(e.target.value)}
+                placeholder="Sin límite"
+              />
+            </div>
+            <p className="text-xs text-ink-500 -mt-2">
+              Presupuesto del plan de hoy en el inicio: se usa el límite más estricto de los dos.
+            </p>
+            <Input
+              label="Fallos seguidos para marcar una sanguijuela"
+              type="number"
+              min={2}
+              value={leechThreshold}
+              onChange={(e) => setLeechThreshold(e.target.value)}
+              hint="Las sanguijuelas aparecen en las estadísticas de cada asignatura"
+            />
+            <label className="flex items-center gap-2 text-sm text-ink-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={leechAutoSuspend}
+                onChange={(e) => setLeechAutoSuspend(e.target.checked)}
+                className="accent-amber-500 w-3.5 h-3.5"
+              />
+              Suspender automáticamente las sanguijuelas (salen del repaso inteligente y aleatorio)
+            </label>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSaveStudy}>Guardar</Button>
+            </div>
+          </div>
+        </Card>
+
         {/* Export contribution */}
         <Card>
           <h2 className="font-display text-base text-ink-200 mb-1">Exportar mis preguntas</h2>
@@ -210,7 +451,16 @@ export function SettingsPage() {
                 <option key={s.id} value={s.id}>{s.name}</option>
               ))}
             </Select>
-            <div className="flex justify-end">
+            <div className="flex items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-ink-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={signExport}
+                  onChange={(e) => setSignExport(e.target.checked)}
+                  className="accent-amber-500 w-3.5 h-3.5"
+                />
+                Firmar el pack
+              </label>
               <Button
                 size="sm"
                 onClick={handleExportContribution}
@@ -331,6 +581,96 @@ export function SettingsPage() {
           )}
         </Card>
 
+        {/* Moodle GIFT / XML */}
+        <Card>
+          <h2 className="font-display text-base text-ink-200 mb-1">Moodle (GIFT / XML)</h2>
+          <p className="text-sm text-ink-500 mb-4">
+            Importa cuestionarios de Moodle o exporta el banco para subirlo al aula virtual. Opción múltiple y verdadero/falso pasan a test,
+            respuesta corta y cloze a completar, ensayo a desarrollo y numérica a práctico. La importación usa la misma vista previa y deduplicación que los contribution packs.
+          </p>
+
+          {moodleMsg && (
+            <div className={`mb-4 px-3 py-2.5 rounded-lg text-sm border ${
+              moodleMsg.startsWith('Error') ? 'bg-rose-500/10 border-rose-500/20 text-rose-400' :
+              moodleMsg.startsWith('ℹ') ? 'bg-ink-700 border-ink-600 text-ink-300' :
+              'bg-sage-600/10 border-sage-600/20 text-sage-400'
+            }`}>
+              {moodleMsg}
+            </div>
+          )}
+
+          <div className="flex flex-col gap-3">
+            <div className="grid grid-cols-2 gap-3">
+              <Select label="Asignatura" value={moodleSubjectId} onChange={(e) => setMoodleSubjectId(e.target.value)}>
+                <option value="">Selecciona una asignatura...</option>
+                {subjects.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </Select>
+              <Input
+                label="Tema si no hay categoría"
+                value={moodleTopic}
+                onChange={(e) => setMoodleTopic(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              <label className={moodleSubjectId ? 'cursor-pointer' : 'pointer-events-none opacity-50'}>
+                <input type="file" accept=".gift,.txt,.xml" className="hidden" onChange={handleImportMoodle} disabled={!moodleSubjectId} />
+                <span className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-ink-600 bg-ink-800 text-ink-300 hover:text-ink-100 hover:border-ink-500 text-sm font-medium font-body transition-all">
+                  ↓ Importar GIFT / XML
+                </span>
+              </label>
+              <Button size="sm" variant="ghost" onClick={() => handleExportMoodle('gift')} disabled={!moodleSubjectId}>↑ GIFT</Button>
+              <Button size="sm" variant="ghost" onClick={() => handleExportMoodle('xml')} disabled={!moodleSubjectId}>↑ Moodle XML</Button>
+            </div>
+          </div>
+        </Card>
+
+        {/* Signing identity & trusted contributors */}
+        <Card>
+          <h2 className="font-display text-base text-ink-200 mb-1">Firma de contribution packs</h2>
+          <p className="text-sm text-ink-500 mb-4">
+            Tus packs se firman con una clave generada en este navegador. Comparte tu huella con el mantenedor
+            para que pueda comprobar que el pack es tuyo y que nadie lo ha modificado.
+          </p>
+          <p className="text-xs text-ink-500 uppercase tracking-widest mb-1">Tu huella</p>
+          <p className="text-sm text-ink-200 font-mono mb-4">{keyFingerprint || '—'}</p>
+
+          <p className="text-xs text-ink-500 uppercase tracking-widest mb-2">Contribuidores de confianza</p>
+          {(settings.trustedContributors ?? []).length === 0 ? (
+            <p className="text-sm text-ink-500">
+              Ninguno todavía. Al importar un pack firmado puedes marcar a su autor como de confianza.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {settings.trustedContributors!.map((t) => (
+                <div key={t.fingerprint} className="flex items-center justify-between gap-3 p-2.5 bg-ink-850 rounded-lg border border-ink-700">
+                  <div className="min-w-0">
+                    <p className="text-sm text-ink-200">{t.alias}</p>
+                    <p className="text-xs text-ink-500 font-mono truncate">{t.fingerprint}</p>
+                  </div>
+                  <button
+                    onClick={() => handleUntrust(t.fingerprint)}
+                    className="text-xs text-rose-500 hover:text-rose-300 flex-shrink-0"
+                  >
+                    Quitar
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Near duplicates */}
+        <Card>
+          <h2 className="font-display text-base text-ink-200 mb-1">Preguntas casi duplicadas</h2>
+          <p className="text-sm text-ink-500 mb-4">
+            Detecta preguntas muy parecidas aunque no sean idénticas (opciones en otro orden, redacción ligeramente distinta).
+            Al fusionar se conserva una, con los repasos de ambas, sus notas, la estrella y la unión de etiquetas y temas.
+          </p>
+          <NearDuplicateCleanup subjects={subjects} onMerged={loadSubjects} />
+        </Card>
+
         {importHistory.length > 0 && (
   <Card>
     <h2 className="font-display text-base text-ink-200 mb-1">Historial de importaciones</h2>
@@ -347,9 +687,11 @@ export function SettingsPage() {
             <p className="text-sm text-ink-200 font-medium">{entry.createdBy}</p>
             <p className="text-xs text-ink-500 truncate">
               {entry.subjectNames.join(', ')} · {entry.questionCount} preguntas
+              {reviewSummary(entry)}
             </p>
             <p className="text-xs text-ink-700">
               {new Date(entry.importedAt).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })}
+              {entry.signatureStatus && ` · ${signatureSummary(entry)}`}
             </p>
           </div>
           <button
@@ -478,6 +820,12 @@ export function SettingsPage() {
                 </Card>
               </div>
 
+              <PackSignatureStatus
+                verification={packPreview.signature}
+                createdBy={packPreview.createdBy}
+                onTrust={handleTrustSigner}
+              />
+
               {packPreview.alreadyImported && (
                 <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
                   <p className="text-sm text-amber-400">
@@ -515,27 +863,15 @@ export function SettingsPage() {
                 </div>
               )}
 
+              <PackLintReport issues={packPreview.lint} onFix={handleFixPack} />
+
               {packPreview.questionsSampleFull.length > 0 && (
-                <div>
-                  <p className="text-sm text-ink-500 uppercase tracking-widest mb-2">
-                    Preguntas nuevas ({packPreview.questionsSampleFull.length})
-                  </p>
-                  <div className="flex flex-col gap-2 max-h-72 overflow-y-auto pr-1">
-                    {packPreview.questionsSampleFull.map((q, i) => (
-                      <button
-                        key={q.id ?? i}
-                        onClick={() => setPreviewSampleQuestion(q)}
-                        className="w-full text-left group flex items-start gap-3 p-3 bg-ink-800 rounded-lg border border-ink-700 hover:border-ink-500 hover:bg-ink-750 transition-all duration-150 cursor-pointer"
-                      >
-                        <TypeBadge type={q.type} />
-                        <span className="text-xs text-ink-300 group-hover:text-ink-100 transition-colors line-clamp-2 flex-1">
-                          {q.prompt.replace(/[#*`]/g, '').trim()}
-                        </span>
-                        <span className="text-ink-600 group-hover:text-ink-400 text-xs flex-shrink-0 mt-0.5">›</span>
-                      </button>
-                    ))}
-                  </div>
-                </div>
+                <ContributionReviewQueue
+                  preview={packPreview}
+                  review={packReview}
+                  onChange={setPackReview}
+                  onPreview={setPreviewSampleQuestion}
+                />
               )}
             </div>
 
@@ -543,10 +879,8 @@ export function SettingsPage() {
               <Button variant="ghost" onClick={() => setPackPreview(null)}>
                 Cancelar
               </Button>
-              <Button onClick={handleConfirmImport} disabled={'newQuestionsCount' in packPreview && (packPreview as any).newQuestionsCount === 0}>
-                {'newQuestionsCount' in packPreview && (packPreview as any).newQuestionsCount > 0
-                  ? `Importar ${(packPreview as any).newQuestionsCount} preguntas nuevas`
-                  : 'Sin preguntas nuevas'}
+              <Button onClick={handleConfirmImport} disabled={importLabel === null}>
+                {importLabel ?? 'Sin preguntas que importar'}
               </Button>
             </div>
           </div>
@@ -1,19 +1,83 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { db } from '@/data/db';
-import { subjectRepo, questionRepo } from '@/data/repos';
-import { Button, Card, Badge, Difficulty, Progress } from '@/ui/components';
-import type { Subject, Topic, Question, PracticeSession } from '@/domain/models';
+import { db, getSettings } from '@/data/db';
+import { subjectRepo, questionRepo, sessionRepo, reviewLogRepo } from '@/data/repos';
+import { useStore } from '@/ui/store';
+import { Button, Card, Badge, Difficulty, Progress, Select } from '@/ui/components';
+import { retrievability, DEFAULT_EXAM_MIN_REVIEWS } from '@/domain/spacedRepetition';
+import { buildCramPlan, type CramPlan } from '@/domain/cramPlan';
+import { breakdownBySubject, isMixedSession } from '@/domain/mixedSession';
+import { TARGET_RESPONSE_MS, formatDuration, summarizeResponseTimes } from '@/domain/responseTime';
+import { DEFAULT_LEECH_THRESHOLD, lapsesSinceSuccess, leechList } from '@/domain/leech';
+import type { Subject, Topic, Question, PracticeSession, SchedulerKind, ReviewLog, QuestionType } from '@/domain/models';
+
+function CramPlanCard({ plan, minReviews }: { plan: CramPlan; minReviews: number }) {
+  const shown = plan.days.slice(0, 30);
+  const maxBar = Math.max(plan.perDay, ...shown.map((d) => d.scheduled), 1);
+  return (
+    <Card>
+      <div className="flex flex-col gap-4">
+        <div className="flex items-baseline justify-between gap-3 flex-wrap">
+          <h2 className="font-display text-lg text-ink-100">Plan intensivo hasta el examen</h2>
+          <span className="text-xs text-ink-500">
+            {new Date(plan.examDate + 'T00:00:00').toLocaleDateString('es-ES', { day: 'numeric', month: 'long' })}
+          </span>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div className="flex flex-col">
+            <span className="text-2xl font-bold text-ink-100">{plan.daysLeft}</span>
+            <span className="text-xs text-ink-500">Días de estudio</span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-2xl font-bold text-amber-400">{plan.reviewsNeeded}</span>
+            <span className="text-xs text-ink-500">Repasos necesarios</span>
+          </div>
+          <div className="flex flex-col">
+            <span className={`text-2xl font-bold ${plan.perDay > 100 ? 'text-rose-400' : 'text-sage-400'}`}>{plan.perDay}</span>
+            <span className="text-xs text-ink-500">Repasos / día</span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-2xl font-bold text-ink-300">{plan.unseen}</span>
+            <span className="text-xs text-ink-500">Sin ver</span>
+          </div>
+        </div>
+        <p className="text-xs text-ink-500">
+          Para ver cada pregunta al menos {minReviews} veces antes del examen. Las barras muestran los repasos ya programados; la línea, el ritmo necesario.
+        </p>
+        <div className="relative flex items-end gap-0.5 h-20">
+          {shown.map((d) => (
+            <div
+              key={d.date}
+              className={`flex-1 rounded-t ${d.scheduled >= plan.perDay ? 'bg-rose-500/60' : 'bg-amber-500/50'}`}
+              style={{ height: `${(d.scheduled / maxBar) * 100}%`, minHeight: d.scheduled > 0 ? 2 : 0 }}
+              title={`${d.date}: ${d.scheduled} programados`}
+            />
+          ))}
+          <div
+            className="absolute left-0 right-0 border-t border-dashed border-sage-400/60"
+            style={{ bottom: `${(plan.perDay / maxBar) * 100}%` }}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+}
 
 export function StatsPage() {
   const { subjectId } = useParams<{ subjectId: string }>();
   const navigate = useNavigate();
+  const setSubjectScheduler = useStore((s) => s.setSubjectScheduler);
 
   const [subject, setSubject] = useState<Subject | null>(null);
   const [topics, setTopics] = useState<Topic[]>([]);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [sessions, setSessions] = useState<PracticeSession[]>([]);
   const [loading, setLoading] = useState(true);
+  const [switchingScheduler, setSwitchingScheduler] = useState(false);
+  const [examDate, setExamDate] = useState<string | undefined>();
+  const [minReviews, setMinReviews] = useState(DEFAULT_EXAM_MIN_REVIEWS);
+  const [reviewLogs, setReviewLogs] = useState<ReviewLog[]>([]);
+  const [leechThreshold, setLeechThreshold] = useState(DEFAULT_LEECH_THRESHOLD);
 
   useEffect(() => {
     if (!subjectId) return;
@@ -25,15 +89,24 @@ export function StatsPage() {
       }
       const ts = await db.topics.where('subjectId').equals(subjectId).toArray();
       const qs = await questionRepo.getBySubject(subjectId);
-      const allSessions = await db.sessions.where('subjectId').equals(subjectId).toArray();
+      const allSessions = await sessionRepo.getBySubject(subjectId);
       const finished = allSessions
         .filter((s) => s.finishedAt)
         .sort((a, b) => (b.finishedAt! > a.finishedAt! ? 1 : -1))
         .slice(0, 20);
+      const [nextExam, settings, logs] = await Promise.all([
+        subjectRepo.getExamDate(subjectId),
+        getSettings(),
+        reviewLogRepo.getBySubject(subjectId),
+      ]);
       setSubject(s);
       setTopics(ts);
       setQuestions(qs);
       setSessions(finished);
+      setExamDate(nextExam);
+      setReviewLogs(logs);
+      setMinReviews(settings.examMinReviews ?? DEFAULT_EXAM_MIN_REVIEWS);
+      setLeechThreshold(settings.leechThreshold ?? DEFAULT_LEECH_THRESHOLD);
       setLoading(false);
     })();
   }, [subjectId]);
@@ -49,6 +122,47 @@ export function StatsPage() {
     };
   }, [questions]);
 
+  const subjectOf = useMemo(
+    () => Object.fromEntries(questions.map((q) => [q.id, q.subjectId])),
+    [questions]
+  );
+
+  const responseTimes = useMemo(
+    () => summarizeResponseTimes(reviewLogs, questions, 5),
+    [reviewLogs, questions]
+  );
+
+  const leeches = useMemo(() => leechList(questions, leechThreshold), [questions, leechThreshold]);
+
+  const handleToggleSuspended = async (question: Question) => {
+    const suspended = !question.suspended;
+    await questionRepo.update(question.id, { suspended });
+    setQuestions((prev) => prev.map((q) => (q.id === question.id ? { ...q, suspended } : q)));
+  };
+
+  const cramPlan = useMemo(
+    () => (examDate ? buildCramPlan(questions, examDate, minReviews) : null),
+    [questions, examDate, minReviews]
+  );
+
+  // FSRS: probabilidad media de recordar hoy las preguntas ya vistas
+  const avgRecall = useMemo(() => {
+    const states = questions.map((q) => q.stats.fsrs).filter(Boolean);
+    if (states.length === 0) return null;
+    const now = new Date();
+    const sum = states.reduce((acc, st) => acc + retrievability(st!, now), 0);
+    return Math.round((sum / states.length) * 100);
+  }, [questions]);
+
+  const handleSchedulerChange = async (scheduler: SchedulerKind) => {
+    if (!subjectId || !subject) return;
+    setSwitchingScheduler(true);
+    await setSubjectScheduler(subjectId, scheduler);
+    setSubject({ ...subject, scheduler });
+    setQuestions(await questionRepo.getBySubject(subjectId));
+    setSwitchingScheduler(false);
+  };
+
   const correctPct = useMemo(() => {
     return globalStats.totalAttempts === 0 ? 0 : Math.round((globalStats.correct / globalStats.totalAttempts) * 100);
   }, [globalStats]);
@@ -149,6 +263,38 @@ export function StatsPage() {
           </div>
         </Card>
 
+        {/* Plan intensivo (solo con examen próximo) */}
+        {cramPlan && <CramPlanCard plan={cramPlan} minReviews={minReviews} />}
+
+        {/* Algoritmo de repaso */}
+        <Card>
+          <div className="flex flex-col gap-3">
+            <h2 className="font-display text-lg text-ink-100">Repaso espaciado</h2>
+            <div className="flex items-end gap-4 flex-wrap">
+              <div className="w-56">
+                <Select
+                  label="Algoritmo"
+                  value={subject.scheduler ?? 'sm2'}
+                  disabled={switchingScheduler}
+                  onChange={(e) => handleSchedulerChange(e.target.value as SchedulerKind)}
+                >
+                  <option value="sm2">SM-2 (clásico)</option>
+                  <option value="fsrs">FSRS (estabilidad/dificultad)</option>
+                </Select>
+              </div>
+              {(subject.scheduler ?? 'sm2') === 'fsrs' && avgRecall != null && (
+                <div className="flex flex-col">
+                  <span className="text-2xl font-bold text-blue-300">{avgRecall}%</span>
+                  <span className="text-xs text-ink-500">Recuerdo estimado hoy</span>
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-ink-500">
+              FSRS espacia más las preguntas que ya dominas. Al activarlo se estima su estado a partir del historial SM-2.
+            </p>
+          </div>
+        </Card>
+
         {/* Por tema */}
         {topicStats.length > 0 && (
           <Card>
@@ -232,6 +378,113 @@ export function StatsPage() {
           </Card>
         )}
 
+        {/* Sanguijuelas: falladas una y otra vez (y suspendidas) */}
+        {leeches.length > 0 && (
+          <Card>
+            <div className="flex flex-col gap-4">
+              <div className="flex items-baseline justify-between gap-3 flex-wrap">
+                <h2 className="font-display text-lg text-ink-100">Sanguijuelas ({leeches.length})</h2>
+                <span className="text-xs text-ink-500">{leechThreshold}+ fallos seguidos</span>
+              </div>
+              <p className="text-xs text-ink-500">
+                Preguntas que no consigues fijar. Las suspendidas no entran en el repaso inteligente ni aleatorio:
+                reescríbelas o repasa el material y reactívalas.
+              </p>
+              <div className="flex flex-col gap-2">
+                {leeches.map((question) => {
+                  const topic = topics.find((t) => t.id === question.topicId);
+                  return (
+                    <div
+                      key={question.id}
+                      className="flex items-start gap-3 p-3 bg-ink-800/50 border border-ink-700 rounded-lg hover:border-ink-600 transition-all"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1 flex-wrap">
+                          <span className="text-xs bg-rose-500/20 text-rose-400 px-2 py-0.5 rounded font-bold">
+                            {lapsesSinceSuccess(question.stats)} seguidos
+                          </span>
+                          <Badge color="rose">{question.type}</Badge>
+                          {topic && <span className="text-xs text-ink-500">{topic.title}</span>}
+                          {question.suspended && <Badge>⏸ Suspendida</Badge>}
+                        </div>
+                        <p className="text-sm text-ink-200 line-clamp-1">{question.prompt}</p>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button size="sm" variant="ghost" onClick={() => navigate(`/subject/${subjectId}?tab=questions&edit=${question.id}`)}>
+                          ✎ Editar
+                        </Button>
+                        {topics.some((t) => t.pdfFilename && [question.topicId, ...(question.topicIds ?? [])].includes(t.id)) && (
+                          <Button size="sm" variant="ghost" onClick={() => navigate(`/subject/${subjectId}?tab=topics&pdf=${question.id}`)}>
+                            📄 PDF
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => handleToggleSuspended(question)}>
+                          {question.suspended ? '▶ Reactivar' : '⏸ Suspender'}
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* Tiempo de respuesta */}
+        {responseTimes.byType.length > 0 && (
+          <Card>
+            <div className="flex flex-col gap-4">
+              <h2 className="font-display text-lg text-ink-100">Tiempo de respuesta</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <div className="flex flex-col gap-1.5">
+                  <p className="text-xs text-ink-500 uppercase tracking-wider mb-1">Mediana por tipo</p>
+                  {responseTimes.byType.map((r) => {
+                    const target = TARGET_RESPONSE_MS[r.key as QuestionType];
+                    return (
+                      <div key={r.key} className="flex items-center justify-between text-sm">
+                        <span className="text-ink-300">{r.key}</span>
+                        <span className={r.medianMs > target ? 'text-rose-400' : 'text-sage-400'}>
+                          {formatDuration(r.medianMs)}
+                          <span className="text-xs text-ink-600"> / {formatDuration(target)}</span>
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <p className="text-xs text-ink-500 uppercase tracking-wider mb-1">Mediana por tema</p>
+                  {responseTimes.byTopic.map((r) => (
+                    <div key={r.key} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-ink-300 truncate">{topics.find((t) => t.id === r.key)?.title ?? '—'}</span>
+                      <span className="text-ink-200 flex-shrink-0">
+                        {formatDuration(r.medianMs)}
+                        <span className="text-xs text-ink-600"> · {r.samples}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {responseTimes.slowest.some((r) => r.ratio > 1) && (
+                <div className="flex flex-col gap-2">
+                  <p className="text-xs text-ink-500 uppercase tracking-wider">Más lentas (respecto al objetivo)</p>
+                  {responseTimes.slowest.filter((r) => r.ratio > 1).map((r) => {
+                    const question = questions.find((q) => q.id === r.key)!;
+                    return (
+                      <div key={r.key} className="flex items-center gap-3 p-3 bg-ink-800/50 border border-ink-700 rounded-lg">
+                        <span className="text-xs bg-rose-500/20 text-rose-400 px-2 py-0.5 rounded font-bold flex-shrink-0">
+                          ⏱ {formatDuration(r.medianMs)}
+                        </span>
+                        <Badge color="rose">{question.type}</Badge>
+                        <p className="text-sm text-ink-200 line-clamp-1 flex-1">{question.prompt}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
+
         {/* B4: Historial de sesiones */}
         {sessions.length > 0 && (
           <Card>
@@ -251,12 +504,16 @@ export function StatsPage() {
                   </thead>
                   <tbody>
                     {sessions.map((s) => {
-                      const correct = s.answers.filter((a) => a.result === 'CORRECT').length;
-                      const total = s.questionIds.length;
+                      // Mixed sessions: only this subject's share
+                      const row = isMixedSession(s)
+                        ? breakdownBySubject(s, subjectOf).find((r) => r.subjectId === subjectId)
+                        : undefined;
+                      const correct = row ? row.correct : s.answers.filter((a) => a.result === 'CORRECT').length;
+                      const total = row ? row.total : s.questionIds.length;
                       const pct = total === 0 ? 0 : Math.round((correct / total) * 100);
                       const MODE_LABELS: Record<string, string> = {
                         random: 'Aleatorio', all: 'Todas', failed: 'Falladas',
-                        topic: 'Tema', smart: 'Smart', exam: 'Examen',
+                        topic: 'Tema', smart: 'Smart', exam: 'Examen', daily: 'Plan diario', flashcard: 'Flashcards',
                       };
                       return (
                         <tr key={s.id} className="border-b border-ink-800 last:border-0 hover:bg-ink-800/30">
@@ -267,6 +524,7 @@ export function StatsPage() {
                             <span className="text-xs bg-ink-800 text-ink-400 px-2 py-0.5 rounded">
                               {MODE_LABELS[s.mode] ?? s.mode}
                             </span>
+                            {row && <span className="ml-1 text-xs text-blue-300" title="Sesión con varias asignaturas">· mixta</span>}
                           </td>
                           <td className="py-2 text-center text-ink-300">{total}</td>
                           <td className="py-2 text-center text-sage-400">{correct}</td>
@@ -10,10 +10,21 @@ import { PdfViewer, type PdfViewerHandle } from '@/ui/components/PdfViewer';
 import { MdContent } from '@/ui/components/MdContent';
 import { renderMd } from '@/utils/renderMd';
 import { QuestionPreviewContent } from '@/ui/components/QuestionPreview';
+import { DeckEditor, DeckList } from '@/ui/components/Decks';
+import { ExamBlueprintEditor } from '@/ui/components/ExamBlueprintEditor';
+import { PrintExportModal } from '@/ui/components/PrintExport';
+import { AnkiInteropModal } from '@/ui/components/AnkiInterop';
+import { BulkEditor, type BulkSavePlan } from '@/ui/components/BulkEditor';
+import { exportBulkText } from '@/domain/bulkFormat';
+import type { PrintSection } from '@/data/printExport';
 
 import { savePdfBlob, savePdfToServer, getPdfBlobUrl, listStoredPdfs, deleteStoredPdf } from '@/data/pdfStorage';
-import type { Topic, Question, QuestionOrigin, QuestionType } from '@/domain/models';
+import { db } from '@/data/db';
+import { blueprintRepo, deckRepo } from '@/data/repos';
+import type { Topic, Question, QuestionOrigin, QuestionType, SavedDeck, DeckFilter, ExamBlueprint } from '@/domain/models';
+import { blueprintMinutes, generateExam } from '@/domain/examBlueprint';
 import { slugify } from '@/domain/normalize';
+import { withoutSuspended } from '@/domain/leech';
 import { getResourceBlobUrl,loadCategoryFromDB } from '@/data/resourceFromDB';
 import { loadPdfMapping, getPdfUrl, resourcesUrl } from '@/data/resourceLoader';
 type TabId = 'topics' | 'questions' | 'practice' | 'resources';
@@ -62,7 +73,7 @@ export function SubjectView() {
   const [searchParams] = useSearchParams();
   const {
     subjects, topics, questions, settings,
-    loadSubjects, loadTopics, loadQuestions,
+    loadSubjects, loadTopics, loadQuestions, loadSettings,
     createTopic, updateTopic, deleteTopic,
     createQuestion, updateQuestion, deleteQuestion, duplicateQuestion,
   } = useStore();
@@ -104,6 +115,7 @@ export function SubjectView() {
   // Modal ver PDF
   const [viewPdfTopic, setViewPdfTopic] = useState<Topic | null>(null);
   const [viewPdfUrl, setViewPdfUrl] = useState<string | null>(null);
+  const [viewPdfPage, setViewPdfPage] = useState(1);
   const topicPdfViewerRef = useRef<PdfViewerHandle>(null);
   const activeObjectUrlRef = useRef<string | null>(null);
 
@@ -111,6 +123,17 @@ export function SubjectView() {
   const [resources, setResources] = useState<ResourceCategory[]>([]);
   const [resourcesLoading, setResourcesLoading] = useState(false);
 
+  // Mazos guardados
+  const [decks, setDecks] = useState<SavedDeck[]>([]);
+  const [deckDraft, setDeckDraft] = useState<Partial<SavedDeck> | null>(null);
+  // Estructuras de examen (simulacros)
+  const [blueprints, setBlueprints] = useState<ExamBlueprint[]>([]);
+  const [blueprintEditor, setBlueprintEditor] = useState<{ blueprint?: ExamBlueprint } | null>(null);
+  // Hoja imprimible (selección, tema o simulacro)
+  const [printJob, setPrintJob] = useState<{ title: string; subtitle?: string; sections: PrintSection[] } | null>(null);
+  const [ankiOpen, setAnkiOpen] = useState(false);
+  const [bulkEditor, setBulkEditor] = useState<{ text?: string } | null>(null);
+
   useEffect(() => {
     if (!subjects.length) loadSubjects();
   }, []);
@@ -119,6 +142,8 @@ export function SubjectView() {
     if (subjectId) {
       loadTopics(subjectId);
       loadQuestions(subjectId);
+      deckRepo.getBySubject(subjectId).then(setDecks);
+      blueprintRepo.getBySubject(subjectId).then(setBlueprints);
     }
   }, [subjectId]);
 
@@ -246,6 +271,45 @@ export function SubjectView() {
     }
   }, [viewPdfTopic]);
 
+  // ── Abrir visor PDF ────────────────────────────────────────────────────────
+  const openViewPdf = async (t: Topic, page = 1) => {
+    if (!t.pdfFilename || !subjectId || !subject) return;
+    // Intentar blob URL (IndexedDB primero)
+    let url = await getPdfBlobUrl(subjectId, t.pdfFilename);
+    if (url) {
+      activeObjectUrlRef.current = url;
+    } else {
+      // Fallback a recursos estáticos
+      url = getPdfUrl(subject.name, t.pdfFilename);
+    }
+    setViewPdfPage(page);
+    setViewPdfUrl(url);
+    setViewPdfTopic(t);
+  };
+
+  // Enlaces directos (p. ej. desde la lista de sanguijuelas de Estadísticas):
+  // ?edit=<questionId> abre el editor y ?pdf=<questionId> el PDF del tema en la página del anchor
+  const deepLinkDoneRef = useRef(false);
+  useEffect(() => {
+    const targetId = searchParams.get('edit') ?? searchParams.get('pdf');
+    if (deepLinkDoneRef.current || !targetId || !subject) return;
+    const target = questions.find((q) => q.id === targetId);
+    if (!target) return;
+    deepLinkDoneRef.current = true;
+    if (searchParams.get('edit')) {
+      setEditingQuestion(target);
+      setQuestionModal(true);
+      return;
+    }
+    (async () => {
+      const ids = [target.topicId, ...(target.topicIds ?? [])];
+      const topic = topics.find((t) => ids.includes(t.id) && t.pdfFilename);
+      if (!topic) return;
+      const anchor = target.pdfAnchorId ? await db.pdfAnchors.get(target.pdfAnchorId) : undefined;
+      openViewPdf(topic, anchor?.page ?? 1);
+    })();
+  }, [questions, topics, subject]);
+
   if (!subject) {
     return (
       <div className="min-h-screen bg-ink-950 flex items-center justify-center">
@@ -310,21 +374,6 @@ export function SubjectView() {
     }
   };
 
-  // ── Abrir visor PDF ────────────────────────────────────────────────────────
-  const openViewPdf = async (t: Topic) => {
-    if (!t.pdfFilename || !subjectId) return;
-    // Intentar blob URL (IndexedDB primero)
-    let url = await getPdfBlobUrl(subjectId, t.pdfFilename);
-    if (url) {
-      activeObjectUrlRef.current = url;
-    } else {
-      // Fallback a recursos estáticos
-      url = getPdfUrl(subject.name, t.pdfFilename);
-    }
-    setViewPdfUrl(url);
-    setViewPdfTopic(t);
-  };
-
   // ── Eliminar PDF de un tema ────────────────────────────────────────────────
   const removePdf = async (t: Topic) => {
     if (!subjectId || !t.pdfFilename) return;
@@ -357,6 +406,14 @@ export function SubjectView() {
     setEditingQuestion(null);
   };
 
+  const handleBulkSave = async (plan: BulkSavePlan) => {
+    for (const data of plan.create) await createQuestion(data);
+    for (const { id, data } of plan.update) await updateQuestion(id, data);
+    setBulkEditor(null);
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  };
+
   const openEditTopic = (t: Topic) => {
     setEditingTopic(t);
     setTopicTitle(t.title);
@@ -550,6 +607,15 @@ export function SubjectView() {
                         <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
                           <Button size="sm" variant="ghost" onClick={() => navigate(`/subject/${subjectId}/read/${t.id}`)} title="Lectura rápida">📖</Button>
                           <Button size="sm" variant="ghost" onClick={() => { setFilterTopic(t.id); setTab('questions'); }}>Ver</Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Imprimir preguntas del tema"
+                            disabled={qs.length === 0}
+                            onClick={() => setPrintJob({ title: t.title, subtitle: subject.name, sections: [{ name: '', questions: qs }] })}
+                          >
+                            🖨
+                          </Button>
                           <Button size="sm" variant="ghost" onClick={() => openEditTopic(t)}>✎</Button>
                           <Button size="sm" variant="ghost" onClick={() => { if (confirm(`¿Eliminar "${t.title}" y sus preguntas?`)) deleteTopic(t.id); }}>
                             <span className="text-rose-400">✕</span>
@@ -570,7 +636,11 @@ export function SubjectView() {
           <div className="flex flex-col gap-4">
             <div className="flex items-center justify-between">
               <StatsSummary seen={totalStats.seen} correct={totalStats.correct} wrong={totalStats.wrong} />
-              <Button size="sm" onClick={() => { setEditingQuestion(null); setQuestionModal(true); }}>+ Nueva pregunta</Button>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setAnkiOpen(true)}>⇄ Anki / CSV</Button>
+                <Button size="sm" variant="ghost" onClick={() => setBulkEditor({})}>✎ Edición masiva</Button>
+                <Button size="sm" onClick={() => { setEditingQuestion(null); setQuestionModal(true); }}>+ Nueva pregunta</Button>
+              </div>
             </div>
             {subjectQuestions.length > 0 && (
               <div className="flex flex-col gap-3">
@@ -688,6 +758,7 @@ export function SubjectView() {
                             {q.starred && <span className="text-amber-400 text-xs">★</span>}
                             {/* A4: indicador de nota personal */}
                             {q.notes && <span className="text-xs text-ink-600" title="Tiene notas personales">📝</span>}
+                            {q.suspended && <span className="text-xs text-ink-500" title="Suspendida: fuera del repaso inteligente/aleatorio">⏸</span>}
                           </div>
                           <p className="text-sm text-ink-200 line-clamp-2">{q.prompt}</p>
                           <div className="mt-2">
@@ -703,6 +774,13 @@ export function SubjectView() {
                           >
                             {q.starred ? '★' : '☆'}
                           </button>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); updateQuestion(q.id, { suspended: !q.suspended }); }}
+                            className={`text-sm px-1.5 py-0.5 rounded transition-colors ${q.suspended ? 'text-ink-300' : 'text-ink-600 hover:text-ink-300'}`}
+                            title={q.suspended ? 'Reactivar' : 'Suspender'}
+                          >
+                            {q.suspended ? '▶' : '⏸'}
+                          </button>
                           <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); setEditingQuestion(q); setQuestionModal(true); }} title="Editar">✎</Button>
                           <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); duplicateQuestion(q.id); }} title="Duplicar">⧉</Button>
                           <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); if (confirm('¿Eliminar pregunta?')) deleteQuestion(q.id); }} title="Eliminar">
@@ -724,6 +802,25 @@ export function SubjectView() {
                   <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set(filteredQuestions.map((q) => q.id)))}>
                     Seleccionar todas
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setPrintJob({
+                      title: subject.name,
+                      sections: [{ name: '', questions: filteredQuestions.filter((q) => selectedIds.has(q.id)) }],
+                    })}
+                  >
+                    🖨 Imprimir
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setBulkEditor({
+                      text: exportBulkText(filteredQuestions.filter((q) => selectedIds.has(q.id)), subjectTopics),
+                    })}
+                  >
+                    ✎ Editar en bloque
+                  </Button>
                   <Button
                     size="sm"
                     onClick={async () => {
@@ -749,8 +846,98 @@ export function SubjectView() {
 
         {/* PRACTICAR */}
         {tab === 'practice' && (
-          <PracticeConfig subjectId={subjectId!} topics={subjectTopics} questions={subjectQuestions} defaultTopicId={filterTopic} autostart={autostart} />
+          <div className="flex flex-col lg:flex-row gap-6 items-start">
+            <PracticeConfig
+              subjectId={subjectId!}
+              scheduler={subject.scheduler}
+              topics={subjectTopics}
+              questions={subjectQuestions}
+              defaultTopicId={filterTopic}
+              autostart={autostart}
+              onSaveDeck={(filter, count, examMinutes) => setDeckDraft({ filter, count, examMinutes })}
+              blueprints={blueprints}
+              onEditBlueprint={(blueprint) => setBlueprintEditor({ blueprint })}
+              onPrint={(title, sections) => setPrintJob({ title, subtitle: subject.name, sections })}
+            />
+            <section className="flex-1 min-w-0 w-full flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-display text-ink-200">Mazos guardados</h3>
+                <Button size="sm" variant="ghost" onClick={() => setDeckDraft({})}>+ Nuevo mazo</Button>
+              </div>
+              {decks.length === 0 ? (
+                <p className="text-sm text-ink-500">
+                  Guarda una combinación de filtros como mazo para lanzarla otra vez con un clic.
+                </p>
+              ) : (
+                <DeckList
+                  decks={decks}
+                  topics={subjectTopics}
+                  questions={subjectQuestions}
+                  onEdit={(deck) => setDeckDraft(deck)}
+                  onDelete={async (deck) => {
+                    if (!confirm(`¿Eliminar el mazo "${deck.name}"?`)) return;
+                    await deckRepo.delete(deck.id);
+                    setDecks((prev) => prev.filter((d) => d.id !== deck.id));
+                  }}
+                />
+              )}
+            </section>
+          </div>
         )}
+        <PrintExportModal
+          open={printJob !== null}
+          onClose={() => setPrintJob(null)}
+          sections={printJob?.sections ?? []}
+          defaultTitle={printJob?.title ?? ''}
+          defaultSubtitle={printJob?.subtitle}
+        />
+        <BulkEditor
+          open={bulkEditor !== null}
+          subjectId={subjectId!}
+          topics={subjectTopics}
+          questions={subjectQuestions}
+          initialText={bulkEditor?.text}
+          defaultTopicId={filterTopic && filterTopic !== '__none__' ? filterTopic : undefined}
+          onClose={() => setBulkEditor(null)}
+          onSave={handleBulkSave}
+        />
+        <AnkiInteropModal
+          open={ankiOpen}
+          onClose={() => setAnkiOpen(false)}
+          subjectName={subject.name}
+          topics={subjectTopics}
+          exportQuestions={selectMode && selectedIds.size > 0 ? subjectQuestions.filter((q) => selectedIds.has(q.id)) : subjectQuestions}
+          onImported={async (count) => {
+            await loadQuestions(subjectId!);
+            await loadSettings();
+            setAnkiOpen(false);
+            alert(`${count} pregunta${count !== 1 ? 's' : ''} importada${count !== 1 ? 's' : ''}.`);
+          }}
+        />
+        <ExamBlueprintEditor
+          open={blueprintEditor !== null}
+          subjectId={subjectId!}
+          topics={subjectTopics}
+          questions={subjectQuestions}
+          initial={blueprintEditor?.blueprint}
+          onClose={() => setBlueprintEditor(null)}
+          onSaved={(bp) => {
+            setBlueprints((prev) => (prev.some((b) => b.id === bp.id) ? prev.map((b) => (b.id === bp.id ? bp : b)) : [...prev, bp]));
+            setBlueprintEditor(null);
+          }}
+        />
+        <DeckEditor
+          open={deckDraft !== null}
+          subjectId={subjectId!}
+          topics={subjectTopics}
+          questions={subjectQuestions}
+          initial={deckDraft ?? undefined}
+          onClose={() => setDeckDraft(null)}
+          onSaved={(deck) => {
+            setDecks((prev) => (prev.some((d) => d.id === deck.id) ? prev.map((d) => (d.id === deck.id ? deck : d)) : [...prev, deck]));
+            setDeckDraft(null);
+          }}
+        />
 
         {/* OTROS RECURSOS */}
         {tab === 'resources' && (
@@ -775,7 +962,7 @@ export function SubjectView() {
               ref={topicPdfViewerRef}
               pdfList={[viewPdfTopic?.pdfFilename ?? '']}
               getPdfUrl={() => viewPdfUrl}
-              initialPage={1}
+              initialPage={viewPdfPage}
             />
           </div>
         )}
@@ -801,6 +988,7 @@ export function SubjectView() {
             subjectId={subjectId}
             onSave={handleQuestionSave}
             onCancel={() => { setQuestionModal(false); setEditingQuestion(null); }}
+            onReverted={() => { loadQuestions(subjectId); setQuestionModal(false); setEditingQuestion(null); }}
           />
         )}
       </Modal>
@@ -989,13 +1177,21 @@ const ALL_TYPES: { type: QuestionType; label: string }[] = [
 
 interface PracticeConfigProps {
   subjectId: string;
+  scheduler?: import('@/domain/models').SchedulerKind;
   topics: import('@/domain/models').Topic[];
   questions: Question[];
   defaultTopicId?: string;
   autostart?: string;
+  /** Abre el editor de mazos con los filtros actuales. */
+  onSaveDeck: (filter: DeckFilter, count?: number, examMinutes?: number) => void;
+  blueprints: ExamBlueprint[];
+  /** Abre el editor de estructuras de examen (sin argumento: nueva). */
+  onEditBlueprint: (blueprint?: ExamBlueprint) => void;
+  /** Abre la exportación imprimible con un simulacro generado. */
+  onPrint: (title: string, sections: PrintSection[]) => void;
 }
 
-function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostart }: PracticeConfigProps) {
+function PracticeConfig({ subjectId, scheduler, topics, questions, defaultTopicId, autostart, onSaveDeck, blueprints, onEditBlueprint, onPrint }: PracticeConfigProps) {
   const navigate = useNavigate();
   const [mode, setMode] = useState<'random' | 'all' | 'failed' | 'topic' | 'smart' | 'starred' | 'exam'>(
     autostart === 'smart' ? 'smart' : 'random'
@@ -1004,6 +1200,8 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
   const [topicId, setTopicId] = useState(defaultTopicId ?? '');
   // D1: Exam simulation
   const [examDuration, setExamDuration] = useState('60');
+  const [blueprintId, setBlueprintId] = useState('');
+  const blueprint = mode === 'exam' ? blueprints.find((b) => b.id === blueprintId) : undefined;
 
   // Type filter checklist — all enabled by default
   const [enabledTypes, setEnabledTypes] = useState<Set<QuestionType>>(new Set(['TEST', 'DESARROLLO', 'COMPLETAR', 'PRACTICO']));
@@ -1033,12 +1231,15 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
 
   // Filtered questions by enabled types
   const typeFilteredQuestions = questions.filter((q) => enabledTypes.has(q.type));
+  // Smart and random reviews skip suspended questions (leeches)
+  const activeQuestions = withoutSuspended(typeFilteredQuestions);
+  const suspendedCount = typeFilteredQuestions.length - activeQuestions.length;
 
   const failedCount = typeFilteredQuestions.filter((q) => q.stats.lastResult === 'WRONG').length;
 
   const getSmartReviewCount = () => {
     const today = new Date().toISOString().split('T')[0];
-    return typeFilteredQuestions.filter((q) =>
+    return activeQuestions.filter((q) =>
       !q.stats.nextReviewAt || q.stats.nextReviewAt <= today
     ).length;
   };
@@ -1052,12 +1253,13 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
     else if (mode === 'topic') base = typeFilteredQuestions.filter((q) => questionBelongsToTopic(q, topicId));
     else if (mode === 'smart') {
       const today = new Date().toISOString().split('T')[0];
-      base = typeFilteredQuestions.filter((q) =>
+      base = activeQuestions.filter((q) =>
         !q.stats.nextReviewAt || q.stats.nextReviewAt <= today
       );
-      if (base.length === 0) base = typeFilteredQuestions;
+      if (base.length === 0) base = activeQuestions;
     }
     else if (mode === 'starred') base = typeFilteredQuestions.filter((q) => q.starred);
+    else if (mode === 'random') base = activeQuestions;
     else base = typeFilteredQuestions;
 
     // Apply Feature 4 filters
@@ -1070,10 +1272,40 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
 
     return base.length;
   };
-  const available = getAvailableCount();
+  const available = blueprint
+    ? generateExam(blueprint, questions, () => 0).questionIds.length
+    : getAvailableCount();
+
+  const handleStartBlueprint = async (bp: ExamBlueprint) => {
+    const exam = generateExam(bp, questions);
+    if (exam.shortfalls.length > 0) {
+      const detail = exam.shortfalls.map((s) => `${s.name}: faltan ${s.missing}`).join('\n');
+      if (!confirm(`No hay preguntas suficientes para la estructura completa:\n${detail}\n\n¿Empezar igualmente?`)) return;
+    }
+    const { sessionRepo } = await import('@/data/repos');
+    const session = await sessionRepo.create({
+      subjectId,
+      mode: 'exam',
+      blueprintId: bp.id,
+      examSections: exam.sections,
+      questionIds: exam.questionIds,
+    });
+    navigate(`/practice/${session.id}?examMode=true&duration=${exam.minutes || 60}`);
+  };
+
+  const handlePrintBlueprint = () => {
+    if (!blueprint) return;
+    const exam = generateExam(blueprint, questions);
+    const byId = new Map(questions.map((q) => [q.id, q]));
+    onPrint(blueprint.name, exam.sections.map((sec) => ({
+      name: `${sec.name} (${sec.points} pts)`,
+      questions: sec.questionIds.map((id) => byId.get(id)!),
+    })));
+  };
 
   const handleStart = async () => {
     if (available === 0) return;
+    if (blueprint) return handleStartBlueprint(blueprint);
     let pool: Question[] = [];
 
     if (mode === 'all') pool = [...typeFilteredQuestions];
@@ -1082,12 +1314,12 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
     else if (mode === 'smart') {
       const { sortByPriority } = await import('@/domain/spacedRepetition');
       const today = new Date().toISOString().split('T')[0];
-      pool = typeFilteredQuestions.filter((q) =>
+      pool = activeQuestions.filter((q) =>
         !q.stats.nextReviewAt || q.stats.nextReviewAt <= today
       );
-      pool = sortByPriority(pool);
+      pool = sortByPriority(pool, scheduler);
       if (pool.length === 0) {
-        pool = sortByPriority(typeFilteredQuestions).slice(0, 20);
+        pool = sortByPriority(activeQuestions, scheduler).slice(0, 20);
       }
     }
     else if (mode === 'starred') {
@@ -1098,8 +1330,8 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
       pool = [...typeFilteredQuestions].sort(() => Math.random() - 0.5).slice(0, n);
     }
     else {
-      const n = Math.min(parseInt(count) || 20, typeFilteredQuestions.length);
-      pool = [...typeFilteredQuestions].sort(() => Math.random() - 0.5).slice(0, n);
+      const n = Math.min(parseInt(count) || 20, activeQuestions.length);
+      pool = [...activeQuestions].sort(() => Math.random() - 0.5).slice(0, n);
     }
 
     // Apply additional filters (Feature 4)
@@ -1110,7 +1342,8 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
       pool = pool.filter((q) => !q.difficulty || selectedDifficulties.has(q.difficulty));
     }
 
-    pool = pool.sort(() => Math.random() - 0.5);
+    // Smart keeps the scheduler's priority order
+    if (mode !== 'smart') pool = pool.sort(() => Math.random() - 0.5);
     const { sessionRepo } = await import('@/data/repos');
     const sessionMode = mode === 'starred' ? 'failed' : mode === 'exam' ? 'exam' : mode; // reusar 'failed' como modo base para sesiones starring
     const session = await sessionRepo.create({ subjectId, mode: sessionMode as any, topicId: mode === 'topic' ? topicId : undefined, questionIds: pool.map((q) => q.id) });
@@ -1127,6 +1360,18 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
     }
   }, [autostart, questions.length]);
 
+  const handleSaveDeck = () => {
+    const filter: DeckFilter = {};
+    if (enabledTypes.size < ALL_TYPES.length) filter.types = [...enabledTypes];
+    if (selectedDifficulties.size < 5) filter.difficulties = [...selectedDifficulties] as DeckFilter['difficulties'];
+    if (mode === 'topic' && topicId) filter.topicIds = [topicId];
+    if (mode === 'starred') filter.starredOnly = true;
+    if (mode === 'random' || mode === 'smart') filter.excludeSuspended = true;
+    if (onlyUnseen) filter.unseenOnly = true;
+    const n = parseInt(count);
+    onSaveDeck(filter, (mode === 'random' || mode === 'exam') && n > 0 ? n : undefined, parseInt(examDuration) || undefined);
+  };
+
   const handleFlashcard = () => {
     if (available === 0) return;
     const params = new URLSearchParams();
@@ -1180,8 +1425,36 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
           <option value="topic">Por tema</option>
           <option value="exam">🎓 Simulacro de examen</option>
         </Select>
-        {(mode === 'random' || mode === 'exam') && <Input label="Número de preguntas" type="number" min="1" max={typeFilteredQuestions.length} value={count} onChange={(e) => setCount(e.target.value)} />}
-        {mode === 'exam' && <Input label="Duración (minutos)" type="number" min="5" max="300" value={examDuration} onChange={(e) => setExamDuration(e.target.value)} />}
+        {mode === 'exam' && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Select label="Estructura" value={blueprintId} onChange={(e) => setBlueprintId(e.target.value)}>
+                <option value="">Aleatoria (N preguntas)</option>
+                {blueprints.map((b) => <option key={b.id} value={b.id}>{b.name}</option>)}
+              </Select>
+            </div>
+            {blueprint && <Button variant="ghost" size="sm" onClick={() => onEditBlueprint(blueprint)}>✎</Button>}
+            <Button variant="ghost" size="sm" onClick={() => onEditBlueprint()}>+ Nueva</Button>
+          </div>
+        )}
+        {blueprint && (
+          <ul className="text-xs text-ink-400 flex flex-col gap-0.5">
+            {blueprint.sections.map((s) => (
+              <li key={s.id}>{s.name}: {s.count} × {ALL_TYPES.find((t) => t.type === s.type)?.label} · {s.points} pts · {s.minutes} min</li>
+            ))}
+            <li className="text-ink-500">Duración total: {blueprintMinutes(blueprint)} min</li>
+            <li>
+              <button onClick={handlePrintBlueprint} className="text-amber-500 hover:text-amber-300 transition-colors">
+                🖨 Imprimir un simulacro con esta estructura
+              </button>
+            </li>
+          </ul>
+        )}
+        {(mode === 'random' || (mode === 'exam' && !blueprint)) && <Input label="Número de preguntas" type="number" min="1" max={typeFilteredQuestions.length} value={count} onChange={(e) => setCount(e.target.value)} />}
+        {(mode === 'random' || mode === 'smart') && suspendedCount > 0 && (
+          <p className="text-xs text-ink-500">⏸ {suspendedCount} pregunta{suspendedCount !== 1 ? 's' : ''} suspendida{suspendedCount !== 1 ? 's' : ''} no entra{suspendedCount !== 1 ? 'n' : ''} en este repaso.</p>
+        )}
+        {mode === 'exam' && !blueprint && <Input label="Duración (minutos)" type="number" min="5" max="300" value={examDuration} onChange={(e) => setExamDuration(e.target.value)} />}
         {mode === 'topic' && (
           <Select label="Tema" value={topicId} onChange={(e) => setTopicId(e.target.value)}>
             <option value="">Selecciona un tema…</option>
@@ -1249,6 +1522,9 @@ function PracticeConfig({ subjectId, topics, questions, defaultTopicId, autostar
           >
             🃏 Flashcards ({available})
           </Button>
+          <Button variant="ghost" size="sm" onClick={handleSaveDeck}>
+            💾 Guardar filtros como mazo
+          </Button>
         </div>
       </div>
     </Card>
@@ -9,6 +9,7 @@ import { DeliverablesPage } from './pages/Deliverables';
 import { StatsPage } from './pages/Stats';
 import { GlobalStatsPage } from './pages/GlobalStats';
 import { ReadModePage } from './pages/ReadMode';
+import { SearchPage } from './pages/Search';
 
 export function AppRouter() {
   return (
@@ -22,8 +23,10 @@ export function AppRouter() {
         <Route path="/results/:sessionId" element={<ResultsPage />} />
         <Route path="/settings" element={<SettingsPage />} />
         <Route path="/flashcard/:subjectId" element={<FlashcardPage />} />
+        <Route path="/flashcard/session/:sessionId" element={<FlashcardPage />} />
         <Route path="/deliverables" element={<DeliverablesPage />} />
         <Route path="/stats" element={<GlobalStatsPage />} />
+        <Route path="/search" element={<SearchPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </BrowserRouter>
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { Subject, Topic, Question, PracticeSession, AppSettings } from '@/domain/models';
+import type { Subject, Topic, Question, PracticeSession, AppSettings, SchedulerKind } from '@/domain/models';
 import { subjectRepo, topicRepo, questionRepo, sessionRepo } from '@/data/repos';
 import { getSettings, saveSettings } from '@/data/db';
 import { syncWithGlobalBank, type GlobalBankSyncResult } from '@/data/globalBank';
@@ -25,6 +25,8 @@ interface AppStore {
   createSubject: (data: Omit<Subject, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Subject>;
   updateSubject: (id: string, data: Partial<Subject>) => Promise<void>;
   deleteSubject: (id: string) => Promise<void>;
+  /** Cambia el algoritmo de repaso (sembrando FSRS desde SM-2 si hace falta). */
+  setSubjectScheduler: (id: string, scheduler: SchedulerKind) => Promise<void>;
 
   // Actions - Topics
   loadTopics: (subjectId: string) => Promise<void>;
@@ -96,6 +98,17 @@ export const useStore = create<AppStore>((set, get) => ({
     set((s) => ({ subjects: s.subjects.filter((sub) => sub.id !== id) }));
   },
 
+  setSubjectScheduler: async (id, scheduler) => {
+    await subjectRepo.setScheduler(id, scheduler);
+    set((s) => ({
+      subjects: s.subjects.map((sub) => (sub.id === id ? { ...sub, scheduler } : sub)),
+    }));
+    // Las preguntas en memoria pueden haber recibido estado FSRS
+    if (get().questions.some((q) => q.subjectId === id)) {
+      await get().loadQuestions(id);
+    }
+  },
+
   loadTopics: async (subjectId) => {
     const topics = await topicRepo.getBySubject(subjectId);
     set({ topics });